@@ -1,20 +1,37 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { NoteEvent, AudioState, HistoryEntry, LabelSettings } from './types';
-import { PlayIcon, PauseIcon, UploadIcon, SettingsIcon, DownloadIcon, MusicIcon, HistoryIcon, TrashIcon, ActivityIcon, SegmentIcon, NextIcon, ChevronLeftIcon, ChevronRightIcon, MinusIcon, PlusIcon, LightBulbIcon, RefreshIcon, PianoIcon, SwatchIcon, StyleIcon } from './components/Icons';
+import { MixerChannel, MixerSettings, MixerStrip, NoteEvent, AudioState, HistoryEntry, LabelSettings, AnalysisResult, TempoMap, MeterEstimate, KeyEstimate, KeyRegion, ChordEvent, TuningEstimate, TonicEstimate, PitchContour, PerformanceScore } from './types';
+import { PlayIcon, PauseIcon, UploadIcon, MicIcon, SettingsIcon, DownloadIcon, MusicIcon, HistoryIcon, TrashIcon, ActivityIcon, SegmentIcon, NextIcon, ChevronLeftIcon, ChevronRightIcon, MinusIcon, PlusIcon, LightBulbIcon, RefreshIcon, PianoIcon, SwatchIcon, StyleIcon, TunerIcon } from './components/Icons';
 import Equalizer from './components/Equalizer';
 import SheetMusic from './components/SheetMusic';
 import ConfidenceHeatmap from './components/ConfidenceHeatmap';
 import SettingsModal from './components/SettingsModal';
 import HistoryModal from './components/HistoryModal';
 import SuggestionPopup from './components/SuggestionPopup';
+import RagaSuggestionPopup from './components/RagaSuggestionPopup';
+import TunerPanel from './components/TunerPanel';
+import RhythmEditor from './components/RhythmEditor';
 import YouTubePlayer from './components/YouTubePlayer';
 import { Toast, ToastType } from './components/Toast';
 import { audioEngine } from './services/audioEngine';
 import { HistoryService } from './services/historyService';
 import { SuggestionService, SuggestedSettings } from './services/suggestionService';
 import { TranscriptionService } from './services/transcriptionService';
-import { RHYTHM_PATTERNS, STYLES, VOICES, GENRES } from './components/constants';
+import { MusicNotationService } from './services/musicNotationService';
+import { AnalysisWorkerService, AnalysisJob, isAbortError } from './services/analysisWorkerService';
+import { LiveTranscriptionService, LiveSession, LiveTake } from './services/liveTranscriptionService';
+import { AudioStoreService } from './services/audioStoreService';
+import { PracticeSessionService, PracticeSession, PracticePlayback } from './services/practiceSessionService';
+import { scorePlayer, scorePart, ScoreLoop, ScoreMix, MIN_LOOP_SECONDS } from './services/scorePlayer';
+import { notesToMidi, midiToNotes, midiToBlob } from './utils/midiFile';
+import { downloadBlob } from './utils/download';
+import { keyFromSignature } from './utils/keyDetection';
+import { estimateTonic, DEFAULT_TONIC_MIDI } from './utils/sargam';
+import { identifyRaga, RagaCandidate } from './utils/ragaIdentification';
+import { contourToCSV, contourToJSON } from './utils/pitchContour';
+import { resolvePattern, customStyleId } from './utils/rhythmPatterns';
+import { humanizeAmount } from './utils/groove';
+import { CustomRhythmPattern, GROOVE_TEMPLATES, RHYTHM_PATTERNS, STYLES, VOICES, GENRES, TIME_SIGNATURES, TAALS } from './components/constants';
 
 // --- Deterministic & Composition Engine ---
 
@@ -66,7 +83,13 @@ const App: React.FC = () => {
   // --- Refs ---
   const audioRef = useRef<HTMLAudioElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const midiInputRef = useRef<HTMLInputElement>(null);
   const audioBufferRef = useRef<AudioBuffer | null>(null); // Store decoded audio
+  const analysisJobRef = useRef<AnalysisJob | null>(null); // Running worker analysis
+  const micFileInputRef = useRef<HTMLInputElement>(null);
+  // Running recording: the live session, how to release its input, and the take's title
+  const liveRecordingRef = useRef<{ session: LiveSession; releaseInput: () => void; title: string } | null>(null);
+  const practiceRef = useRef<{ session: PracticeSession; stream: MediaStream } | null>(null); // Running sing-along
 
   // --- Scroll Synchronization Refs ---
   const sheetMusicScrollRef = useRef<HTMLDivElement>(null);
@@ -85,9 +108,15 @@ const App: React.FC = () => {
   
   // MusicXML Content
   const [musicXML, setMusicXML] = useState<string | undefined>(undefined);
+  // Local analysis (rendered when the backend is unavailable)
+  const [notes, setNotes] = useState<NoteEvent[]>([]);
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
 
   const [isProcessing, setIsProcessing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null); // 0-1 while local analysis runs
   const [isPlayerReady, setIsPlayerReady] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [inputLevel, setInputLevel] = useState(0); // RMS of the latest recorded batch
   const [isRestricted, setIsRestricted] = useState(false); 
   
   const [ytUrl, setYtUrl] = useState('');
@@ -97,6 +126,8 @@ const App: React.FC = () => {
   
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isTunerOpen, setIsTunerOpen] = useState(false);
+  const [isRhythmEditorOpen, setIsRhythmEditorOpen] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
   
   const [labelSettings, setLabelSettings] = useState<LabelSettings>({
@@ -109,22 +140,71 @@ const App: React.FC = () => {
     minConfidence: 0.4,
     keyboardSize: 61,
     selectedVoice: 'piano',
-    selectedStyle: 'none'
+    selectedStyle: 'none',
+    analysisMode: 'monophonic'
   });
 
   const [compositionGenre, setCompositionGenre] = useState('Ballad');
 
   // Rhythm State
   const [bpm, setBpm] = useState(80);
+  const [tempoMap, setTempoMap] = useState<TempoMap | undefined>(undefined); // Tracked beats; undefined = constant bpm
+  const [detectedMeter, setDetectedMeter] = useState<MeterEstimate | null>(null);
+  const [meterOverride, setMeterOverride] = useState<string | null>(null); // User choice wins over detection
+  const timeSignature = meterOverride ?? detectedMeter?.timeSignature ?? '4/4';
+  const [customPatterns, setCustomPatterns] = useState<CustomRhythmPattern[]>(() => HistoryService.getCustomPatterns());
+  const [isRhythmPlaying, setIsRhythmPlaying] = useState(false);
+  const rhythmPattern = resolvePattern(labelSettings.selectedStyle, customPatterns);
+  const [grooveId, setGrooveId] = useState('straight');
+  const [humanize, setHumanize] = useState(0); // 0-1
+  const [humanizeSeed, setHumanizeSeed] = useState(1);
+
+  // Transcription playback
+  const [isScorePlaying, setIsScorePlaying] = useState(false);
+  const [scoreWithAudio, setScoreWithAudio] = useState(false);
+  const [scoreWithRhythm, setScoreWithRhythm] = useState(false);
+  const [scoreLoop, setScoreLoop] = useState<ScoreLoop | null>(null);
+  const [scoreMix, setScoreMix] = useState<ScoreMix>({ solo: [], muted: [] });
+  const [mixer, setMixer] = useState<MixerSettings>({
+    strips: {
+      original: { gain: 1, pan: 0, muted: false },
+      synth: { gain: 1, pan: 0, muted: false },
+      rhythm: { gain: 0.8, pan: 0, muted: false }
+    },
+    crossfade: 0,
+    difference: false,
+    differenceThreshold: 0.5
+  });
+  const [detectedKey, setDetectedKey] = useState<KeyEstimate | null>(null);
+  const [keyRegions, setKeyRegions] = useState<KeyRegion[]>([]); // More than one region = modulation
+  const [chords, setChords] = useState<ChordEvent[]>([]);
+  const [tuning, setTuning] = useState<TuningEstimate | null>(null);
+  const [tonic, setTonic] = useState<TonicEstimate | null>(null);
+  const [contour, setContour] = useState<PitchContour | null>(null); // Frame-level f0, unsmoothed
+  const [tonicOverride, setTonicOverride] = useState<number | null>(null); // Pitch class chosen by the user
+  // Madhya Sa; an overridden pitch class keeps the detected register
+  const saMidi = tonicOverride === null
+      ? (tonic?.midi ?? DEFAULT_TONIC_MIDI)
+      : tonicOverride + 12 * Math.round(((tonic?.midi ?? DEFAULT_TONIC_MIDI) - tonicOverride) / 12);
+  const isSargam = labelSettings.format === 'sargam';
+  const heatmapScrollRef = useRef<HTMLDivElement>(null);
 
   // Suggestion State
   const [suggestedSettings, setSuggestedSettings] = useState<SuggestedSettings | null>(null);
   const [isSuggestionOpen, setIsSuggestionOpen] = useState(false);
+  const [ragaCandidates, setRagaCandidates] = useState<RagaCandidate[]>([]);
+  const [isRagaOpen, setIsRagaOpen] = useState(false);
+
+  // Sing/play-along practice
+  const [practicePlayback, setPracticePlayback] = useState<PracticePlayback>('notes');
+  const [isPracticing, setIsPracticing] = useState(false);
+  const [performance, setPerformance] = useState<PerformanceScore | null>(null);
 
 
   // Audio Playback Synchronization Effect
   useEffect(() => {
-    if (audioState.sourceType === 'file' && audioRef.current) {
+    if (practiceRef.current) return; // A sing-along plays and pauses the element itself
+    if (audioState.sourceType !== 'youtube' && audioRef.current) {
         if (audioState.isPlaying) {
             const playPromise = audioRef.current.play();
             if (playPromise !== undefined) {
@@ -142,15 +222,135 @@ const App: React.FC = () => {
     }
   }, [audioState.isPlaying, audioState.sourceType]);
 
+  // Keep the tabla tuned to Sa
+  useEffect(() => {
+    audioEngine.setPercussionTonic(saMidi);
+  }, [saMidi]);
+
+  // Groove and humanization apply to the rhythm and to transcription playback alike
+  useEffect(() => {
+    audioEngine.setGroove(GROOVE_TEMPLATES[grooveId], humanize > 0 ? humanizeAmount(humanize, humanizeSeed) : null);
+  }, [grooveId, humanize, humanizeSeed]);
+
+  // The score player always holds the transcription as it would play now
+  useEffect(() => {
+    scorePlayer.load(audioEngine.grooveNotes(notes, { bpm, tempoMap }), { bpm, tempoMap });
+  }, [notes, bpm, tempoMap, grooveId, humanize, humanizeSeed]);
+
+  useEffect(() => {
+    scorePlayer.setVoice(labelSettings.selectedVoice);
+  }, [labelSettings.selectedVoice]);
+
+  useEffect(() => {
+    scorePlayer.setMix(scoreMix);
+  }, [scoreMix]);
+
+  useEffect(() => {
+    scorePlayer.setLoop(scoreLoop);
+  }, [scoreLoop]);
+
+  useEffect(() => {
+    audioEngine.setMixer(mixer);
+    scorePlayer.setDifference(mixer.difference ? mixer.differenceThreshold : null);
+  }, [mixer]);
+
+  useEffect(() => {
+    scorePlayer.setRhythm(scoreWithRhythm ? rhythmPattern : null);
+  }, [scoreWithRhythm, rhythmPattern]);
+
+  // Uploaded files and recorded takes play from object URLs; free each once it is replaced
+  useEffect(() => {
+    const url = audioState.sourceUrl;
+    return () => {
+      if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+    };
+  }, [audioState.sourceUrl]);
+
+  useEffect(() => {
+    scorePlayer.attachMedia(scoreWithAudio && audioState.sourceType !== 'youtube' && audioState.sourceUrl ? audioRef.current : null);
+  }, [scoreWithAudio, audioState.sourceType, audioState.sourceUrl]);
+
+  useEffect(() => {
+    let wasPlaying = scorePlayer.isPlaying;
+    return scorePlayer.subscribe((time, playing) => {
+      if (playing !== wasPlaying) setIsScorePlaying(wasPlaying = playing);
+      setAudioState(prev => ({ ...prev, currentTime: time }));
+    });
+  }, []);
+
+  // A playing rhythm follows the selected pattern in time, and restarts on a tempo change
+  useEffect(() => {
+    if (!isRhythmPlaying) return;
+    if (rhythmPattern) audioEngine.setRhythmPattern(rhythmPattern);
+    else handleStopRhythm();
+  }, [rhythmPattern]);
+
+  useEffect(() => {
+    if (!isRhythmPlaying || !rhythmPattern) return;
+    audioEngine.stopRhythm();
+    audioEngine.startRhythm(rhythmPattern, bpm);
+  }, [bpm]);
+
+  // Restore the SoundFont bank loaded in an earlier session
+  useEffect(() => {
+    AudioStoreService.getSoundFont()
+      .then(async stored => {
+        if (stored) audioEngine.loadSoundFont(await stored.data.arrayBuffer());
+      })
+      .catch(e => console.warn("Could not restore SoundFont", e));
+  }, []);
+
   const showToast = (message: string, type: ToastType) => {
     setToast({ message: type === 'loading' ? 'Loading...' : message, type });
     if (type === 'loading' && message) setToast({ message, type });
   };
 
+  const handleStartRhythm = () => {
+    if (!rhythmPattern) return;
+    audioEngine.startRhythm(rhythmPattern, bpm);
+    setIsRhythmPlaying(true);
+  };
+
+  const handleStopRhythm = () => {
+    audioEngine.stopRhythm();
+    setIsRhythmPlaying(false);
+  };
+
   const resetSession = () => {
+      scorePlayer.pause();
+      scorePlayer.seek(0);
       audioEngine.stopAllTones();
+      setIsRhythmPlaying(false);
+      analysisJobRef.current?.cancel();
+      analysisJobRef.current = null;
+      if (liveRecordingRef.current) {
+          liveRecordingRef.current.session.cancel();
+          liveRecordingRef.current.releaseInput();
+          liveRecordingRef.current = null;
+          setIsRecording(false);
+      }
+      if (practiceRef.current) {
+          practiceRef.current.session.cancel();
+          practiceRef.current.stream.getTracks().forEach(track => track.stop());
+          practiceRef.current = null;
+          setIsPracticing(false);
+      }
+      setPerformance(null);
+      setAnalysisProgress(null);
       setMusicXML(undefined);
-      setAudioState(prev => ({ ...prev, currentTime: 0, isPlaying: false, duration: 0 }));
+      setNotes([]);
+      setTempoMap(undefined);
+      setDetectedMeter(null);
+      setMeterOverride(null);
+      setDetectedKey(null);
+      setKeyRegions([]);
+      setChords([]);
+      setTuning(null);
+      setTonic(null);
+      setTonicOverride(null);
+      setIsRagaOpen(false);
+      setContour(null);
+      setAudioState(prev => ({ ...prev, sourceUrl: null, currentTime: 0, isPlaying: false, duration: 0 }));
       setIsPlayerReady(false); 
       setIsRestricted(false);
       setIsProcessing(false);
@@ -159,8 +359,9 @@ const App: React.FC = () => {
       setSeekTarget(0);
   };
 
-  const createHistoryEntry = (title: string, sourceType: 'file' | 'youtube', sourceUrl: string | null, duration: number) => {
+  const createHistoryEntry = (title: string, sourceType: HistoryEntry['source_type'], sourceUrl: string | null, duration: number, analysis?: AnalysisResult): string | null => {
     try {
+        const analyzedNotes = analysis?.notes ?? [];
         const newEntry: HistoryEntry = {
           id: generateId(),
           timestamp: new Date().toISOString(),
@@ -168,18 +369,46 @@ const App: React.FC = () => {
           source_type: sourceType,
           source_url: sourceUrl,
           audio_duration_sec: duration,
-          notes_count: 0,
-          avg_confidence: 0,
-          bpm_detected: 120,
-          time_signature: "4/4",
-          instrument_estimate: sourceType === 'youtube' ? "Composition" : "Audio Analysis",
+          notes_count: analyzedNotes.length,
+          avg_confidence: analyzedNotes.length ? analyzedNotes.reduce((sum, n) => sum + n.confidence, 0) / analyzedNotes.length : 0,
+          bpm_detected: analysis ? Math.round(analysis.tempo.bpm) : 120,
+          time_signature: analysis?.meter.timeSignature ?? "4/4",
+          key_detected: analysis?.key.name,
+          key_confidence: analysis?.key.confidence,
+          reference_hz: analysis ? Math.round(analysis.tuning.referenceHz * 10) / 10 : undefined,
+          instrument_estimate: sourceType === 'youtube' ? "Composition" : sourceType === 'mic' ? "Live Recording" : "Audio Analysis",
           tags: ["transcription"],
           user_edits: { notes_modified: 0, notes_deleted: 0, notes_added: 0 },
           exports: { musicxml: true, midi: false, pdf: false, csv: false },
           thumbnail: generateThumbnail(title)
         };
         HistoryService.addEntry(newEntry);
+        setCurrentEntryId(newEntry.id);
+        return newEntry.id;
     } catch (e) { console.warn("History error", e); }
+    return null;
+  };
+
+  // Show a finished local analysis: notes plus everything detected alongside them
+  const applyAnalysis = (analysis: AnalysisResult) => {
+    setNotes(analysis.notes);
+    setDetectedKey(analysis.key.confidence > 0 ? analysis.key : null);
+    setKeyRegions(analysis.keyRegions);
+    setChords(analysis.chords);
+    setTuning(analysis.tuning);
+    setTonic(analysis.tonic.confidence > 0 ? analysis.tonic : null);
+    setContour(analysis.contour);
+    if (analysis.tempo.confidence > 0) {
+        setBpm(Math.round(analysis.tempo.bpm));
+        setTempoMap(analysis.tempoMap);
+        setDetectedMeter(analysis.meter);
+    }
+
+    const suggestion = SuggestionService.generateSuggestions(analysis.notes, analysis.tempo.bpm);
+    if (suggestion) {
+        setSuggestedSettings(suggestion);
+        setIsSuggestionOpen(true);
+    }
   };
 
   // --- Handlers ---
@@ -207,22 +436,224 @@ const App: React.FC = () => {
         setYtVideoId(null);
         setIsPlayerReady(true);
 
-        // 2. Transcribe via Backend
-        const xml = await TranscriptionService.transcribeAudio(file);
-        setMusicXML(xml);
+        // 2. Transcribe via Backend, falling back to in-browser analysis
+        let analysis: AnalysisResult | undefined;
+        try {
+            const xml = await TranscriptionService.transcribeAudio(file);
+            setMusicXML(xml);
+        } catch (backendError) {
+            console.warn("Backend unavailable, using local analysis", backendError);
+            setAnalysisProgress(0);
+            const job = AnalysisWorkerService.analyze(buffer, {
+                mode: labelSettings.analysisMode,
+                onProgress: setAnalysisProgress,
+                onPartial: batch => setNotes(prev => [...prev, ...batch])
+            });
+            analysisJobRef.current = job;
+            analysis = await job.promise;
+            applyAnalysis(analysis);
+        }
 
         showToast("Transcription Complete", "success");
-        createHistoryEntry(file.name, 'file', null, buffer.duration);
+        createHistoryEntry(file.name, 'file', null, buffer.duration, analysis);
 
-      } catch (e) {
-        console.error(e);
-        showToast("Failed to process audio file", "error");
+      } catch (e: unknown) {
+        if (isAbortError(e)) {
+            setNotes([]); // The preview notes so far are an incomplete transcription
+            showToast("Transcription cancelled", "info");
+        } else {
+            console.error(e);
+            showToast("Failed to process audio file", "error");
+        }
       } finally {
+        analysisJobRef.current = null;
+        setAnalysisProgress(null);
         setIsProcessing(false);
       }
     }
   };
 
+  // Record from a live input; notes appear as they settle and the take is analyzed in full on stop
+  const startRecording = async (openInput: () => Promise<{ stream: MediaStream; release: () => void; ended?: Promise<void> }>, title: string) => {
+    resetSession();
+    let input: { stream: MediaStream; release: () => void; ended?: Promise<void> } | null = null;
+    try {
+        await audioEngine.ensureContext();
+        input = await openInput();
+        const session = await LiveTranscriptionService.start(input.stream, {
+            mode: labelSettings.analysisMode,
+            onNotes: setNotes,
+            onLevel: (rms, elapsed) => {
+                setInputLevel(rms);
+                setAudioState(prev => ({ ...prev, currentTime: elapsed, duration: elapsed }));
+            }
+        });
+        liveRecordingRef.current = { session, releaseInput: input.release, title };
+        setAudioCrossOrigin(undefined);
+        setAudioState(prev => ({ ...prev, sourceType: 'mic', sourceUrl: null }));
+        setYtVideoId(null);
+        setIsRecording(true);
+        // A file standing in for the microphone stops the take when it runs out
+        input.ended?.then(() => {
+            if (liveRecordingRef.current?.session === session) handleStopRecording();
+        });
+    } catch (e: unknown) {
+        input?.release();
+        console.error(e);
+        showToast(e instanceof DOMException && e.name === 'NotAllowedError' ? "Microphone permission denied" : "Could not start recording", "error");
+    }
+  };
+
+  const handleRecordMic = () => {
+    startRecording(async () => {
+        const stream = await LiveTranscriptionService.requestMicrophone();
+        return { stream, release: () => stream.getTracks().forEach(track => track.stop()) };
+    }, `Recording ${new Date().toLocaleString()}`);
+  };
+
+  const handleRecordFromFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    startRecording(async () => {
+        const playback = await LiveTranscriptionService.streamFromFile(file);
+        return { stream: playback.stream, release: playback.stop, ended: playback.ended };
+    }, `${file.name} (live)`);
+  };
+
+  const handleStopRecording = async () => {
+    const live = liveRecordingRef.current;
+    if (!live) return;
+    liveRecordingRef.current = null;
+    setIsRecording(false);
+    setInputLevel(0);
+    setIsProcessing(true);
+
+    try {
+        let take: LiveTake;
+        try {
+            take = await live.session.stop();
+        } finally {
+            live.releaseInput(); // The input is done with either way; the analysis below can take a while
+        }
+        audioBufferRef.current = take.buffer;
+        setAudioState(prev => ({
+            ...prev,
+            sourceUrl: URL.createObjectURL(take.audio),
+            currentTime: 0,
+            duration: take.buffer.duration
+        }));
+        setIsPlayerReady(true);
+
+        // The live notes were read from short windows; the whole take gives better tempo, key and tuning
+        let analysis: AnalysisResult | undefined;
+        try {
+            setAnalysisProgress(0);
+            const job = AnalysisWorkerService.analyze(take.buffer, {
+                mode: labelSettings.analysisMode,
+                onProgress: setAnalysisProgress
+            });
+            analysisJobRef.current = job;
+            analysis = await job.promise;
+            applyAnalysis(analysis);
+            showToast("Recording transcribed", "success");
+        } catch (e: unknown) {
+            if (!isAbortError(e)) throw e;
+            showToast("Final analysis cancelled; keeping the live transcription", "info");
+        }
+
+        const entryId = createHistoryEntry(live.title, 'mic', null, take.buffer.duration, analysis);
+        if (entryId) {
+            AudioStoreService.saveTake(entryId, take.audio)
+                .then(() => HistoryService.updateEntry(entryId, { audio_stored: true }))
+                .catch(e => console.warn("Failed to store recorded take", e));
+        }
+    } catch (e) {
+        console.error(e);
+        showToast("Failed to process recording", "error");
+    } finally {
+        analysisJobRef.current = null;
+        setAnalysisProgress(null);
+        setIsProcessing(false);
+    }
+  };
+
+  const handleCancelAnalysis = () => {
+    analysisJobRef.current?.cancel();
+  };
+
+  const handleExportMidi = () => {
+    if (notes.length === 0) {
+        showToast("No notes to export", "info");
+        return;
+    }
+    const data = notesToMidi(notes, { bpm, tempoMap, timeSignature, key: detectedKey ?? undefined, keyRegions, format: 1 });
+    downloadBlob(midiToBlob(data), 'transcription.mid');
+    if (currentEntryId) HistoryService.updateEntry(currentEntryId, { exports: { midi: true } });
+    showToast("MIDI exported", "success");
+  };
+
+  const handleExportLeadSheet = () => {
+    if (chords.length === 0) {
+        showToast("No chords to export", "info");
+        return;
+    }
+    const { measures } = MusicNotationService.processNotes(notes, bpm, {
+        tempoMap, timeSignature, key: detectedKey ?? undefined, keyRegions, chords
+    });
+    const text = MusicNotationService.toLeadSheet(measures, { bpm });
+    downloadBlob(new Blob([text], { type: 'text/plain' }), 'lead-sheet.txt');
+    showToast("Lead sheet exported", "success");
+  };
+
+  const handleExportSargam = () => {
+    if (notes.length === 0) {
+        showToast("No notes to export", "info");
+        return;
+    }
+    // Non-Indian rhythm styles fall back to the 16-matra Teen Taal cycle
+    const taal = TAALS[labelSettings.selectedStyle] ?? TAALS['teen_taal'];
+    const text = MusicNotationService.toSargamSheet(notes, { tonic: saMidi, taal, bpm, tempoMap, matraBeats: taal.matraBeats });
+    downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), 'sargam.txt');
+    showToast(`Sargam exported (${taal.name})`, "success");
+  };
+
+  const handleExportContour = (format: 'csv' | 'json') => {
+    if (!contour) return;
+    const text = format === 'csv' ? contourToCSV(contour) : contourToJSON(contour, notes);
+    downloadBlob(new Blob([text], { type: format === 'csv' ? 'text/csv' : 'application/json' }), `pitch-contour.${format}`);
+    if (currentEntryId && format === 'csv') HistoryService.updateEntry(currentEntryId, { exports: { csv: true } });
+    showToast(`Pitch contour exported (${format.toUpperCase()})`, "success");
+  };
+
+  const handleMidiImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+        const result = midiToNotes(await file.arrayBuffer());
+        setMusicXML(undefined);
+        setNotes(result.notes);
+        setBpm(result.bpm);
+        setTempoMap(result.tempoMap);
+        setDetectedMeter(null);
+        setMeterOverride(result.timeSignature);
+        setDetectedKey(result.key ? keyFromSignature(result.key) : null);
+        setKeyRegions([]);
+        setChords([]);
+        setTuning(null);
+        setTonic(estimateTonic(result.notes.map(n => ({ midi: n.midi_pitch, weight: n.duration }))));
+        setTonicOverride(null);
+        setContour(null);
+        setPerformance(null);
+        showToast(`Imported ${result.notes.length} notes`, "success");
+    } catch (err) {
+        console.error(err);
+        showToast("Failed to read MIDI file", "error");
+    } finally {
+        e.target.value = '';
+    }
+  };
+
   const handleYoutubeLoad = () => {
     const id = getYoutubeId(ytUrl);
     if (!id) {
@@ -260,7 +691,7 @@ const App: React.FC = () => {
         showToast("Playback is disabled for this video (Copyright)", "error");
         return;
     }
-    if (!isPlayerReady && audioState.sourceType !== 'file') {
+    if (!isPlayerReady && audioState.sourceType === 'youtube') {
         showToast("Please wait for music to load", "info");
         return;
     }
@@ -272,7 +703,7 @@ const App: React.FC = () => {
     const shouldPlay = !audioState.isPlaying;
     setAudioState(prev => ({ ...prev, isPlaying: shouldPlay }));
 
-    if (audioState.sourceType === 'file' && shouldPlay) {
+    if (audioState.sourceType !== 'youtube' && shouldPlay) {
         try {
             await audioEngine.ensureContext();
             if (audioRef.current && audioRef.current.isConnected) {
@@ -287,8 +718,9 @@ const App: React.FC = () => {
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
     const time = parseFloat(e.target.value);
     setAudioState(prev => ({ ...prev, currentTime: time }));
+    scorePlayer.seek(time);
     
-    if (audioState.sourceType === 'file' && audioRef.current) {
+    if (audioState.sourceType !== 'youtube' && audioRef.current) {
         audioRef.current.currentTime = time;
     } else if (audioState.sourceType === 'youtube' && !isRestricted) {
         setSeekTarget(time);
@@ -307,6 +739,14 @@ const App: React.FC = () => {
       setAudioState(prev => ({ ...prev, currentTime: time }));
   };
 
+  const handleMeterChange = (value: string) => {
+    const override = value === 'auto' ? null : value;
+    setMeterOverride(override);
+    if (currentEntryId) {
+        HistoryService.updateEntry(currentEntryId, { time_signature: override ?? detectedMeter?.timeSignature ?? '4/4' });
+    }
+  };
+
   const handleAcceptSuggestion = () => {
     if (suggestedSettings) {
       setLabelSettings(prev => ({
@@ -315,6 +755,7 @@ const App: React.FC = () => {
         selectedStyle: suggestedSettings.style,
       }));
       setBpm(suggestedSettings.bpm);
+      setTempoMap(undefined); // An explicit tempo replaces the tracked one
       showToast("Settings applied", "success");
     }
     setIsSuggestionOpen(false);
@@ -324,11 +765,117 @@ const App: React.FC = () => {
     setIsSuggestionOpen(false);
   };
 
+  const handleIdentifyRaga = () => {
+    const candidates = identifyRaga(notes, saMidi).slice(0, 3);
+    if (candidates.length === 0 || candidates[0].score <= 0) {
+        showToast("Not enough swaras to identify a raga", "info");
+        return;
+    }
+    setRagaCandidates(candidates);
+    setIsSuggestionOpen(false);
+    setIsRagaOpen(true);
+  };
+
+  const handleAcceptRaga = () => {
+    const best = ragaCandidates[0];
+    if (best) {
+      if (currentEntryId) HistoryService.addTag(currentEntryId, `raga:${best.raga.name}`);
+      showToast(`Tagged as Raga ${best.raga.name}`, "success");
+    }
+    setIsRagaOpen(false);
+  };
+
+  const canPracticeWithAudio = audioState.sourceType !== 'youtube' && !!audioState.sourceUrl;
+
+  const handleToggleScore = () => {
+    if (scorePlayer.isPlaying) {
+      scorePlayer.pause();
+      return;
+    }
+    // The score brings its own rhythm, locked to it
+    if (scoreWithRhythm) handleStopRhythm();
+    scorePlayer.play(audioState.currentTime).catch(e => {
+      console.error(e);
+      showToast("Playback failed", "error");
+    });
+  };
+
+  // The other end is kept while the region stays long enough for the player to loop it
+  const setLoopPoint = (point: 'start' | 'end') => {
+    const time = audioState.currentTime;
+    const loop = point === 'start'
+      ? { start: time, end: scoreLoop && scoreLoop.end - time >= MIN_LOOP_SECONDS ? scoreLoop.end : time + 4 }
+      : { start: scoreLoop && time - scoreLoop.start >= MIN_LOOP_SECONDS ? scoreLoop.start : Math.max(0, time - 4), end: time };
+    if (loop.end - loop.start < MIN_LOOP_SECONDS) {
+        showToast("Loop region is too short", "info");
+        return;
+    }
+    setScoreLoop(loop);
+  };
+
+  const togglePart = (list: 'solo' | 'muted', part: string) => {
+    setScoreMix(prev => ({
+      ...prev,
+      [list]: prev[list].includes(part) ? prev[list].filter(p => p !== part) : [...prev[list], part]
+    }));
+  };
+
+  const updateStrip = (channel: MixerChannel, change: Partial<MixerStrip>) => {
+    setMixer(prev => ({ ...prev, strips: { ...prev.strips, [channel]: { ...prev.strips[channel], ...change } } }));
+  };
+
+  const formatClock = (time: number) => `${Math.floor(time / 60)}:${(time % 60).toFixed(1).padStart(4, '0')}`;
+
+  const finishPractice = (score: PerformanceScore) => {
+    practiceRef.current?.stream.getTracks().forEach(track => track.stop());
+    practiceRef.current = null;
+    setIsPracticing(false);
+    setIsRhythmPlaying(audioEngine.isRhythmRunning); // Stopping a transcription play-along stops the rhythm too
+    setPerformance(score);
+    showToast(`Sing-along score: ${score.score}`, "success");
+  };
+
+  const handleStartPractice = async () => {
+    if (notes.length === 0 || practiceRef.current) return;
+    const playback = practicePlayback === 'audio' && canPracticeWithAudio ? 'audio' : 'notes';
+    try {
+        await audioEngine.ensureContext();
+        const stream = await LiveTranscriptionService.requestMicrophone();
+        // Stopped here rather than through the playback effect, which leaves the element to the session
+        audioRef.current?.pause();
+        setAudioState(prev => ({ ...prev, isPlaying: false }));
+        const session = PracticeSessionService.start(stream, {
+            reference: notes,
+            playback,
+            voice: labelSettings.selectedVoice,
+            tempo: { bpm, tempoMap },
+            audioElement: playback === 'audio' ? audioRef.current ?? undefined : undefined,
+            referenceHz: tuning?.referenceHz,
+            onTime: time => setAudioState(prev => ({ ...prev, currentTime: time })),
+            onFinished: finishPractice
+        });
+        practiceRef.current = { session, stream };
+        setPerformance(null);
+        setIsPracticing(true);
+    } catch (e: unknown) {
+        console.error(e);
+        showToast(e instanceof DOMException && e.name === 'NotAllowedError' ? "Microphone permission denied" : "Could not start practice", "error");
+    }
+  };
+
+  const handleStopPractice = () => {
+    const practice = practiceRef.current;
+    if (practice) finishPractice(practice.session.stop());
+  };
+
   // Check if player is strictly enabled
   const isPlayDisabled = 
     isProcessing || 
-    (audioState.sourceType === 'file' && !audioState.sourceUrl) ||
-    (!isPlayerReady && audioState.sourceType !== 'file' && !isRestricted);
+    isScorePlaying ||
+    isRecording ||
+    isPracticing ||
+    (audioState.sourceType !== 'youtube' && !audioState.sourceUrl) ||
+    (!isPlayerReady && audioState.sourceType === 'youtube' && !isRestricted);
 
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-200 flex flex-col font-sans selection:bg-indigo-500/30">
@@ -344,6 +891,26 @@ const App: React.FC = () => {
         isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} onLoadEntry={() => {}}
       />
 
+      <TunerPanel
+        isOpen={isTunerOpen} onClose={() => setIsTunerOpen(false)}
+        referenceHz={tuning?.referenceHz}
+        voice={labelSettings.selectedVoice}
+        keySignature={detectedKey ?? undefined}
+      />
+
+      <RhythmEditor
+        isOpen={isRhythmEditorOpen}
+        onClose={() => {
+          setIsRhythmEditorOpen(false);
+          setIsRhythmPlaying(audioEngine.isRhythmRunning); // The preview replaces the running rhythm
+        }}
+        styleId={labelSettings.selectedStyle}
+        bpm={bpm}
+        customPatterns={customPatterns}
+        onPatternsChange={setCustomPatterns}
+        onUsePattern={(styleId) => setLabelSettings(prev => ({ ...prev, selectedStyle: styleId }))}
+      />
+
       <SuggestionPopup
         isOpen={isSuggestionOpen}
         settings={suggestedSettings}
@@ -351,9 +918,16 @@ const App: React.FC = () => {
         onReject={handleRejectSuggestion}
       />
 
+      <RagaSuggestionPopup
+        isOpen={isRagaOpen}
+        candidates={ragaCandidates}
+        onAccept={handleAcceptRaga}
+        onReject={() => setIsRagaOpen(false)}
+      />
+
       <audio 
         ref={audioRef} 
-        src={audioState.sourceType === 'file' ? audioState.sourceUrl || undefined : undefined}
+        src={audioState.sourceType !== 'youtube' ? audioState.sourceUrl || undefined : undefined}
         crossOrigin={audioCrossOrigin}
         onTimeUpdate={handleNativeTimeUpdate}
         onEnded={() => setAudioState(prev => ({ ...prev, isPlaying: false }))}
@@ -362,7 +936,7 @@ const App: React.FC = () => {
         onWaiting={() => setIsBuffering(true)}
         onPlaying={() => setIsBuffering(false)}
         onError={(e) => {
-            if (audioState.sourceType === 'file') {
+            if (audioState.sourceType !== 'youtube') {
                 console.error("Audio playback error", e);
                 showToast("Audio playback error", "error");
             }
@@ -382,6 +956,9 @@ const App: React.FC = () => {
              <button title="Toggle Note Labels" onClick={() => setLabelSettings(s => ({ ...s, showLabels: !s.showLabels }))} className={`hidden md:flex items-center gap-2 px-3 py-1.5 rounded-full transition-colors text-sm font-medium border ${labelSettings.showLabels ? 'bg-indigo-900/30 text-indigo-300 border-indigo-500/30' : 'bg-zinc-800/50 text-zinc-400 border-zinc-700/50'}`}>
                 <span className="font-bold font-serif italic">ABC</span>
              </button>
+            <button title="Tuner & Intonation Practice" onClick={() => setIsTunerOpen(true)} className="p-2 text-zinc-400 hover:text-white bg-zinc-800/50 rounded-full hover:bg-zinc-700 transition-colors">
+              <TunerIcon className="w-5 h-5" />
+            </button>
             <button title="Project History" onClick={() => setIsHistoryOpen(true)} className="p-2 text-zinc-400 hover:text-white bg-zinc-800/50 rounded-full hover:bg-zinc-700 transition-colors">
               <HistoryIcon className="w-5 h-5" />
             </button>
@@ -416,6 +993,13 @@ const App: React.FC = () => {
               >
                 Upload
               </button>
+              <button 
+                title="Record from Microphone"
+                className={`flex-1 py-1.5 text-sm rounded-full font-medium transition-all ${audioState.sourceType === 'mic' ? 'bg-zinc-800 text-white shadow' : 'text-zinc-500 hover:text-zinc-300'}`}
+                onClick={() => setAudioState(prev => ({ ...prev, sourceType: 'mic' }))}
+              >
+                Record
+              </button>
             </div>
 
             {audioState.sourceType === 'youtube' ? (
@@ -438,6 +1022,48 @@ const App: React.FC = () => {
                     </button>
                   </div>
               </div>
+            ) : audioState.sourceType === 'mic' ? (
+              <div className="space-y-3 mb-4">
+                {isRecording ? (
+                  <>
+                    <div className="flex items-center gap-3">
+                      <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse"></span>
+                      <span className="text-sm font-mono text-zinc-200">
+                        {Math.floor(audioState.currentTime / 60)}:{(Math.floor(audioState.currentTime) % 60).toString().padStart(2, '0')}
+                      </span>
+                      <div className="flex-1 h-1.5 bg-zinc-800 rounded-full overflow-hidden" title="Input level">
+                        <div className="h-full bg-green-500 transition-all" style={{ width: `${Math.min(100, Math.round(Math.sqrt(inputLevel) * 200))}%` }}></div>
+                      </div>
+                    </div>
+                    <button
+                      onClick={handleStopRecording}
+                      className="w-full flex items-center justify-center gap-2 py-2 text-sm font-bold rounded-lg bg-red-600 hover:bg-red-500 text-white transition-colors"
+                    >
+                      <span className="w-3 h-3 bg-white rounded-sm"></span> Stop Recording
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      title="Sing or play; notes appear as you go"
+                      onClick={handleRecordMic}
+                      disabled={isProcessing}
+                      className="w-full flex items-center justify-center gap-2 py-3 text-sm font-bold rounded-xl border-2 border-dashed border-zinc-700 hover:border-red-500 hover:bg-zinc-800/50 text-zinc-300 disabled:opacity-50 transition-all"
+                    >
+                      <MicIcon className="w-5 h-5 text-red-400" /> Start Recording
+                    </button>
+                    <button
+                      title="Stream a local audio file through the live transcriber instead of the microphone"
+                      onClick={() => micFileInputRef.current?.click()}
+                      disabled={isProcessing}
+                      className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-lg border border-zinc-700 bg-zinc-950 text-zinc-400 hover:border-indigo-500 disabled:opacity-50 transition-colors"
+                    >
+                      <UploadIcon className="w-4 h-4" /> Use File as Input
+                    </button>
+                    <input type="file" ref={micFileInputRef} className="hidden" accept="audio/*,.mp3,.mpeg,.wav,.m4a" onChange={handleRecordFromFile} />
+                  </>
+                )}
+              </div>
             ) : (
               <div title="Click to upload audio file" onClick={() => fileInputRef.current?.click()} className="border-2 border-dashed border-zinc-700 hover:border-indigo-500 hover:bg-zinc-800/50 rounded-xl p-6 flex flex-col items-center justify-center cursor-pointer transition-all group mb-4">
                 <UploadIcon className="w-8 h-8 text-zinc-500 group-hover:text-indigo-400 mb-2" />
@@ -484,12 +1110,460 @@ const App: React.FC = () => {
 
              <div className="p-4 space-y-4">
                 <p className="text-xs text-zinc-500">
-                    The sheet music below is generated by our advanced Python engine (BasicPitch + Music21).
+                    The sheet music below is generated by our advanced Python engine (BasicPitch + Music21),
+                    or by the in-browser analyzer when the engine is offline.
                 </p>
+                <div className="flex gap-2">
+                    <button
+                        title="Export Standard MIDI File"
+                        onClick={handleExportMidi}
+                        disabled={notes.length === 0}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-lg border border-zinc-700 bg-zinc-950 text-zinc-300 hover:border-indigo-500 disabled:opacity-50 transition-colors"
+                    >
+                        <DownloadIcon className="w-4 h-4" /> Export MIDI
+                    </button>
+                    <button
+                        title="Import Standard MIDI File"
+                        onClick={() => midiInputRef.current?.click()}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-lg border border-zinc-700 bg-zinc-950 text-zinc-300 hover:border-indigo-500 transition-colors"
+                    >
+                        <UploadIcon className="w-4 h-4" /> Import MIDI
+                    </button>
+                    <input type="file" ref={midiInputRef} className="hidden" accept=".mid,.midi,audio/midi" onChange={handleMidiImport} />
+                </div>
+                <button
+                    title="Export chord symbols as a plain-text lead sheet"
+                    onClick={handleExportLeadSheet}
+                    disabled={chords.length === 0}
+                    className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-lg border border-zinc-700 bg-zinc-950 text-zinc-300 hover:border-indigo-500 disabled:opacity-50 transition-colors"
+                >
+                    <DownloadIcon className="w-4 h-4" /> Export Lead Sheet
+                </button>
+                <div className="flex gap-2">
+                    <button
+                        title="Export the frame-level f0 contour as CSV"
+                        onClick={() => handleExportContour('csv')}
+                        disabled={!contour}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-lg border border-zinc-700 bg-zinc-950 text-zinc-300 hover:border-indigo-500 disabled:opacity-50 transition-colors"
+                    >
+                        <DownloadIcon className="w-4 h-4" /> Contour CSV
+                    </button>
+                    <button
+                        title="Export the f0 contour with detected vibrato, gamakas and glides as JSON"
+                        onClick={() => handleExportContour('json')}
+                        disabled={!contour}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-lg border border-zinc-700 bg-zinc-950 text-zinc-300 hover:border-indigo-500 disabled:opacity-50 transition-colors"
+                    >
+                        <DownloadIcon className="w-4 h-4" /> Contour JSON
+                    </button>
+                </div>
+                {detectedKey && (
+                    <div className="flex items-center justify-between gap-3">
+                        <span className="text-xs font-medium text-zinc-400">Key</span>
+                        <span className="text-xs font-mono text-zinc-200" title="Krumhansl-Schmuckler key estimate; sets the key signature and note spelling">
+                            {detectedKey.name}
+                            <span className="text-zinc-500"> · {Math.round(detectedKey.confidence * 100)}%</span>
+                            {detectedKey.runnerUp && <span className="text-zinc-500"> (or {detectedKey.runnerUp.name})</span>}
+                        </span>
+                    </div>
+                )}
+                {tuning && (
+                    <div className="flex items-center justify-between gap-3">
+                        <span className="text-xs font-medium text-zinc-400">Tuning</span>
+                        <span className="text-xs font-mono text-zinc-200" title="Reference pitch detected from the recording; notes and cent deviations are read against it">
+                            A4 = {tuning.referenceHz.toFixed(1)} Hz
+                            <span className="text-zinc-500"> · {tuning.centsOffset >= 0 ? '+' : ''}{Math.round(tuning.centsOffset)}¢</span>
+                        </span>
+                    </div>
+                )}
+                {keyRegions.length > 1 && (
+                    <div className="flex flex-wrap items-center gap-1 text-[10px] font-mono text-zinc-500" title="Key regions; the score changes key signature at each modulation">
+                        {keyRegions.map((region, i) => (
+                            <span key={region.startTime}>
+                                {i > 0 && '→ '}
+                                <span className="text-zinc-300">{region.key.name}</span> @{Math.floor(region.startTime / 60)}:{(Math.floor(region.startTime) % 60).toString().padStart(2, '0')}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <div className="flex items-center justify-between gap-3">
+                    <div className="flex flex-col">
+                        <label htmlFor="meter-select" className="text-xs font-medium text-zinc-400">Time Signature</label>
+                        {detectedMeter && (
+                            <span className="text-[10px] font-mono text-zinc-500" title="Detected from downbeat accents">
+                                Detected {detectedMeter.timeSignature} · {Math.round(detectedMeter.confidence * 100)}% confidence
+                            </span>
+                        )}
+                    </div>
+                    <select
+                        id="meter-select"
+                        title="Override the detected meter; barlines are regenerated"
+                        value={meterOverride ?? 'auto'}
+                        onChange={(e) => handleMeterChange(e.target.value)}
+                        className="bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                    >
+                        <option value="auto">Auto ({detectedMeter?.timeSignature ?? '4/4'})</option>
+                        {TIME_SIGNATURES.map(ts => (
+                            <option key={ts} value={ts}>{ts}</option>
+                        ))}
+                        {meterOverride && !TIME_SIGNATURES.includes(meterOverride) && (
+                            <option value={meterOverride}>{meterOverride}</option>
+                        )}
+                    </select>
+                </div>
+                {isSargam && (
+                    <>
+                        <div className="flex items-center justify-between gap-3">
+                            <div className="flex flex-col">
+                                <label htmlFor="tonic-select" className="text-xs font-medium text-zinc-400">Sa (Tonic)</label>
+                                {tonic && (
+                                    <span className="text-[10px] font-mono text-zinc-500" title="Detected from the pitch histogram">
+                                        Detected {tonic.name} · {Math.round(tonic.confidence * 100)}% confidence
+                                    </span>
+                                )}
+                            </div>
+                            <select
+                                id="tonic-select"
+                                title="Override the detected Sa; sargam labels are regenerated"
+                                value={tonicOverride ?? 'auto'}
+                                onChange={(e) => setTonicOverride(e.target.value === 'auto' ? null : parseInt(e.target.value, 10))}
+                                className="bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                            >
+                                <option value="auto">Auto ({tonic?.name ?? 'C'})</option>
+                                {['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'].map((name, pc) => (
+                                    <option key={name} value={pc}>{name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <button
+                            title="Export a Bhatkhande-style sargam sheet aligned to the selected taal"
+                            onClick={handleExportSargam}
+                            disabled={notes.length === 0}
+                            className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-lg border border-zinc-700 bg-zinc-950 text-zinc-300 hover:border-indigo-500 disabled:opacity-50 transition-colors"
+                        >
+                            <DownloadIcon className="w-4 h-4" /> Export Sargam ({(TAALS[labelSettings.selectedStyle] ?? TAALS['teen_taal']).name})
+                        </button>
+                        <button
+                            title="Match the swaras against the raga catalog, relative to Sa"
+                            onClick={handleIdentifyRaga}
+                            disabled={notes.length === 0}
+                            className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-lg border border-zinc-700 bg-zinc-950 text-zinc-300 hover:border-indigo-500 disabled:opacity-50 transition-colors"
+                        >
+                            <MusicIcon className="w-4 h-4" /> Identify Raga
+                        </button>
+                    </>
+                )}
              </div>
 
           </div>
 
+          {/* Rhythm Accompaniment */}
+          <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-5 shadow-sm space-y-4">
+            <h2 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Rhythm</h2>
+            <div className="flex items-center justify-between gap-3">
+                <label htmlFor="rhythm-style" className="text-xs font-medium text-zinc-400">Style</label>
+                <select
+                    id="rhythm-style"
+                    value={labelSettings.selectedStyle}
+                    onChange={(e) => setLabelSettings(prev => ({ ...prev, selectedStyle: e.target.value }))}
+                    className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                >
+                    {STYLES.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+                    {customPatterns.length > 0 && (
+                        <optgroup label="My Patterns">
+                            {customPatterns.map(p => <option key={p.id} value={customStyleId(p)}>{p.name}</option>)}
+                        </optgroup>
+                    )}
+                </select>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+                <label htmlFor="rhythm-bpm" className="text-xs font-medium text-zinc-400">Tempo (BPM)</label>
+                <input
+                    id="rhythm-bpm"
+                    type="number"
+                    min={30}
+                    max={300}
+                    value={bpm}
+                    onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (value >= 30 && value <= 300) setBpm(value);
+                    }}
+                    className="w-20 bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+                <label htmlFor="rhythm-groove" className="text-xs font-medium text-zinc-400">Groove</label>
+                <select
+                    id="rhythm-groove"
+                    value={grooveId}
+                    onChange={(e) => setGrooveId(e.target.value)}
+                    className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                >
+                    {Object.values(GROOVE_TEMPLATES).map(groove => <option key={groove.id} value={groove.id}>{groove.name}</option>)}
+                </select>
+            </div>
+            <div className="flex items-center gap-3">
+                <label htmlFor="rhythm-humanize" className="text-xs font-medium text-zinc-400">Humanize</label>
+                <input
+                    id="rhythm-humanize"
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(humanize * 100)}
+                    onChange={(e) => setHumanize(parseInt(e.target.value, 10) / 100)}
+                    className="flex-1 accent-indigo-500"
+                />
+                <span className="w-8 text-right text-[10px] font-mono text-zinc-500">{Math.round(humanize * 100)}%</span>
+                <button
+                    title={`Seed ${humanizeSeed}: the same seed repeats the same feel. Click for a new one.`}
+                    onClick={() => setHumanizeSeed(1 + Math.floor(Math.random() * 99999))}
+                    disabled={humanize === 0}
+                    className="p-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md border border-zinc-700 disabled:opacity-50"
+                >
+                    <RefreshIcon className="w-3.5 h-3.5" />
+                </button>
+            </div>
+            <div className="flex gap-2">
+                <button
+                    onClick={isRhythmPlaying ? handleStopRhythm : handleStartRhythm}
+                    disabled={!rhythmPattern || (isScorePlaying && scoreWithRhythm)}
+                    className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm font-bold rounded-lg transition-colors disabled:opacity-50 ${isRhythmPlaying ? 'bg-red-600 hover:bg-red-500 text-white' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}
+                >
+                    {isRhythmPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />} {isRhythmPlaying ? 'Stop Rhythm' : 'Play Rhythm'}
+                </button>
+                <button
+                    title="Create, edit and share rhythm patterns"
+                    onClick={() => setIsRhythmEditorOpen(true)}
+                    className="px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg border border-zinc-700 text-xs font-medium"
+                >
+                    Edit Patterns
+                </button>
+            </div>
+          </div>
+
+          {/* Transcription Playback */}
+          <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-5 shadow-sm space-y-4">
+            <h2 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Transcription Playback</h2>
+            <button
+                title="Hear the transcribed notes through the selected voice"
+                onClick={handleToggleScore}
+                disabled={!isScorePlaying && (notes.length === 0 || isProcessing || isRecording || isPracticing || audioState.isPlaying)}
+                className="w-full flex items-center justify-center gap-2 py-2 text-sm font-bold rounded-lg transition-colors disabled:opacity-50 bg-indigo-600 hover:bg-indigo-500 text-white"
+            >
+                {isScorePlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />} {isScorePlaying ? 'Pause' : 'Play Transcription'}
+            </button>
+            <div className="flex flex-col gap-2 text-xs text-zinc-400">
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={scoreWithAudio}
+                        disabled={!canPracticeWithAudio}
+                        onChange={(e) => setScoreWithAudio(e.target.checked)}
+                        className="accent-indigo-500"
+                    />
+                    With original audio
+                </label>
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={scoreWithRhythm}
+                        disabled={!rhythmPattern}
+                        onChange={(e) => {
+                            setScoreWithRhythm(e.target.checked);
+                            if (e.target.checked && scorePlayer.isPlaying) handleStopRhythm();
+                        }}
+                        className="accent-indigo-500"
+                    />
+                    With rhythm ({STYLES.find(s => s.id === labelSettings.selectedStyle)?.name ?? customPatterns.find(p => customStyleId(p) === labelSettings.selectedStyle)?.name ?? 'none'})
+                </label>
+            </div>
+            <div className="flex items-center gap-2">
+                <span className="text-xs font-medium text-zinc-400">Loop</span>
+                <button
+                    title="Start the loop at the playhead"
+                    onClick={() => setLoopPoint('start')}
+                    className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md border border-zinc-700 text-xs font-mono"
+                >
+                    A
+                </button>
+                <button
+                    title="End the loop at the playhead"
+                    onClick={() => setLoopPoint('end')}
+                    className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md border border-zinc-700 text-xs font-mono"
+                >
+                    B
+                </button>
+                <span className="flex-1 text-[10px] font-mono text-zinc-500 text-right">
+                    {scoreLoop ? `${formatClock(scoreLoop.start)} – ${formatClock(scoreLoop.end)}` : 'Off'}
+                </span>
+                {scoreLoop && (
+                    <button
+                        title="Clear the loop"
+                        onClick={() => setScoreLoop(null)}
+                        className="p-1 hover:bg-zinc-800 rounded text-zinc-500 hover:text-white"
+                    >
+                        <MinusIcon className="w-3.5 h-3.5" />
+                    </button>
+                )}
+            </div>
+            {notes.length > 0 && (
+                <div className="space-y-1.5">
+                    {(['treble', 'bass'] as const).map(staff => {
+                        const voices = Array.from(new Set(notes.filter(n => !n.isRest && scorePart(n).staff === staff).map(n => scorePart(n).voice))).sort();
+                        if (voices.length === 0) return null;
+                        const parts = [{ id: staff, label: staff === 'treble' ? 'Treble' : 'Bass' }, ...(voices.length > 1 ? voices.map(v => ({ id: `${staff}:${v}`, label: `Voice ${v}` })) : [])];
+                        return parts.map((part, i) => (
+                            <div key={part.id} className={`flex items-center gap-2 ${i > 0 ? 'pl-4' : ''}`}>
+                                <span className="flex-1 text-xs text-zinc-400">{part.label}</span>
+                                <button
+                                    title="Solo"
+                                    onClick={() => togglePart('solo', part.id)}
+                                    className={`w-6 h-6 rounded text-[10px] font-bold border ${scoreMix.solo.includes(part.id) ? 'bg-amber-500 text-black border-amber-400' : 'bg-zinc-800 text-zinc-400 border-zinc-700 hover:bg-zinc-700'}`}
+                                >
+                                    S
+                                </button>
+                                <button
+                                    title="Mute"
+                                    onClick={() => togglePart('muted', part.id)}
+                                    className={`w-6 h-6 rounded text-[10px] font-bold border ${scoreMix.muted.includes(part.id) ? 'bg-red-600 text-white border-red-500' : 'bg-zinc-800 text-zinc-400 border-zinc-700 hover:bg-zinc-700'}`}
+                                >
+                                    M
+                                </button>
+                            </div>
+                        ));
+                    })}
+                </div>
+            )}
+          </div>
+
+          {/* A/B Mixer: original against the resynthesized transcription */}
+          <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-5 shadow-sm space-y-4">
+            <h2 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">A/B Mixer</h2>
+            <div>
+                <input
+                    aria-label="Crossfader"
+                    type="range"
+                    min={-100}
+                    max={100}
+                    value={Math.round(mixer.crossfade * 100)}
+                    onChange={(e) => setMixer(prev => ({ ...prev, crossfade: parseInt(e.target.value, 10) / 100 }))}
+                    onDoubleClick={() => setMixer(prev => ({ ...prev, crossfade: 0 }))}
+                    className="w-full accent-indigo-500"
+                />
+                <div className="flex justify-between text-[10px] uppercase font-bold text-zinc-500">
+                    <span>A · Original</span>
+                    <span>Transcription · B</span>
+                </div>
+            </div>
+            <div className="space-y-2">
+                {([['original', 'Original'], ['synth', 'Transcription'], ['rhythm', 'Rhythm']] as [MixerChannel, string][]).map(([channel, label]) => {
+                    const strip = mixer.strips[channel];
+                    return (
+                        <div key={channel} className="flex items-center gap-2">
+                            <span className="w-20 text-xs text-zinc-400">{label}</span>
+                            <input
+                                aria-label={`${label} level`}
+                                type="range"
+                                min={0}
+                                max={150}
+                                value={Math.round(strip.gain * 100)}
+                                onChange={(e) => updateStrip(channel, { gain: parseInt(e.target.value, 10) / 100 })}
+                                className="flex-1 min-w-0 accent-indigo-500"
+                            />
+                            <input
+                                aria-label={`${label} pan`}
+                                title={`Pan ${strip.pan === 0 ? 'centre' : `${Math.round(Math.abs(strip.pan) * 100)}% ${strip.pan < 0 ? 'left' : 'right'}`}`}
+                                type="range"
+                                min={-100}
+                                max={100}
+                                value={Math.round(strip.pan * 100)}
+                                onChange={(e) => updateStrip(channel, { pan: parseInt(e.target.value, 10) / 100 })}
+                                onDoubleClick={() => updateStrip(channel, { pan: 0 })}
+                                className="w-14 accent-zinc-400"
+                            />
+                            <button
+                                title="Mute"
+                                onClick={() => updateStrip(channel, { muted: !strip.muted })}
+                                className={`w-6 h-6 rounded text-[10px] font-bold border ${strip.muted ? 'bg-red-600 text-white border-red-500' : 'bg-zinc-800 text-zinc-400 border-zinc-700 hover:bg-zinc-700'}`}
+                            >
+                                M
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="space-y-2 pt-3 border-t border-zinc-800">
+                <button
+                    title="The transcription plays only the notes it is unsure of, against the original"
+                    onClick={() => setMixer(prev => ({ ...prev, difference: !prev.difference }))}
+                    className={`w-full py-1.5 text-xs font-medium rounded-lg border transition-colors ${mixer.difference ? 'bg-amber-500/20 text-amber-300 border-amber-500/50' : 'bg-zinc-950 text-zinc-400 border-zinc-700 hover:border-indigo-500'}`}
+                >
+                    Difference Solo ({notes.filter(n => !n.isRest && n.confidence < mixer.differenceThreshold).length} low-confidence notes)
+                </button>
+                <div className="flex items-center gap-3">
+                    <label htmlFor="difference-threshold" className="text-xs font-medium text-zinc-400">Below</label>
+                    <input
+                        id="difference-threshold"
+                        type="range"
+                        min={5}
+                        max={95}
+                        step={5}
+                        value={Math.round(mixer.differenceThreshold * 100)}
+                        onChange={(e) => setMixer(prev => ({ ...prev, differenceThreshold: parseInt(e.target.value, 10) / 100 }))}
+                        className="flex-1 accent-amber-500"
+                    />
+                    <span className="w-8 text-right text-[10px] font-mono text-zinc-500">{Math.round(mixer.differenceThreshold * 100)}%</span>
+                </div>
+                {!scoreWithAudio && (
+                    <p className="text-[10px] text-zinc-600">Turn on "With original audio" under Transcription Playback to hear both sides.</p>
+                )}
+            </div>
+          </div>
+
+          {/* Sing-Along Practice */}
+          <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-5 shadow-sm space-y-4">
+            <h2 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Sing-Along</h2>
+            <div className="flex items-center justify-between gap-3">
+                <label htmlFor="practice-playback" className="text-xs font-medium text-zinc-400">Play Along With</label>
+                <select
+                    id="practice-playback"
+                    value={practicePlayback}
+                    disabled={isPracticing}
+                    onChange={(e) => setPracticePlayback(e.target.value as PracticePlayback)}
+                    className="bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                >
+                    <option value="notes">Transcription</option>
+                    <option value="audio" disabled={!canPracticeWithAudio}>Original Audio</option>
+                </select>
+            </div>
+            <button
+                title="Perform along with the reference; your pitch is graded note by note"
+                onClick={isPracticing ? handleStopPractice : handleStartPractice}
+                disabled={!isPracticing && (notes.length === 0 || isProcessing || isRecording || isScorePlaying)}
+                className={`w-full flex items-center justify-center gap-2 py-2 text-sm font-bold rounded-lg transition-colors disabled:opacity-50 ${isPracticing ? 'bg-red-600 hover:bg-red-500 text-white' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}
+            >
+                <MicIcon className="w-4 h-4" /> {isPracticing ? 'Stop & Score' : 'Start Sing-Along'}
+            </button>
+            {performance && !isPracticing && (
+                <div className="space-y-2">
+                    <div className="flex items-baseline justify-between">
+                        <span className="text-xs font-medium text-zinc-400">Score</span>
+                        <span className="text-2xl font-bold text-white">{performance.score}</span>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2 text-center text-[10px] font-mono">
+                        <div className="bg-zinc-950 rounded p-1.5 border border-zinc-800"><div className="text-emerald-400 text-sm font-bold">{performance.notes.filter(n => n.grade === 'hit').length}</div>hit</div>
+                        <div className="bg-zinc-950 rounded p-1.5 border border-zinc-800"><div className="text-amber-400 text-sm font-bold">{performance.notes.filter(n => n.grade === 'off_pitch').length}</div>off</div>
+                        <div className="bg-zinc-950 rounded p-1.5 border border-zinc-800"><div className="text-rose-400 text-sm font-bold">{performance.notes.filter(n => n.grade === 'missed').length}</div>missed</div>
+                        <div className="bg-zinc-950 rounded p-1.5 border border-zinc-800"><div className="text-purple-400 text-sm font-bold">{performance.extras.length}</div>extra</div>
+                    </div>
+                    <div className="flex justify-between text-[10px] font-mono text-zinc-500">
+                        <span>Pitch ±{Math.round(performance.meanAbsCents)}¢</span>
+                        <span>Timing ±{Math.round(performance.meanAbsTimingSec * 1000)} ms</span>
+                    </div>
+                </div>
+            )}
+          </div>
+
         </section>
 
         {/* Right Content: Editors & Visuals */}
@@ -499,10 +1573,16 @@ const App: React.FC = () => {
             <div className="bg-white rounded-2xl shadow-lg overflow-hidden border border-zinc-200 relative min-h-[500px]">
                 <SheetMusic 
                     musicXML={musicXML}
+                    notes={notes}
                     currentTime={audioState.currentTime}
                     bpm={bpm}
+                    tempoMap={tempoMap}
+                    timeSignature={timeSignature}
+                    keySignature={detectedKey ?? undefined}
+                    keyRegions={keyRegions}
+                    chords={chords}
                 />
-                {!musicXML && !isProcessing && (
+                {!musicXML && notes.length === 0 && !isProcessing && (
                     <div className="absolute inset-0 flex items-center justify-center text-zinc-400 text-sm">
                         Upload an audio file to generate sheet music
                     </div>
@@ -511,15 +1591,43 @@ const App: React.FC = () => {
                     <div className="absolute inset-0 flex items-center justify-center bg-white/80 backdrop-blur-sm z-10">
                         <div className="flex flex-col items-center gap-2">
                              <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
-                             <span className="text-indigo-600 font-medium">Transcribing...</span>
+                             <span className="text-indigo-600 font-medium">
+                                 Transcribing...{analysisProgress !== null && ` ${Math.round(analysisProgress * 100)}%`}
+                             </span>
+                             {analysisProgress !== null && (
+                                 <>
+                                     <div className="w-48 h-1.5 bg-indigo-100 rounded-full overflow-hidden">
+                                         <div className="h-full bg-indigo-600 transition-all" style={{ width: `${Math.round(analysisProgress * 100)}%` }}></div>
+                                     </div>
+                                     <button
+                                         onClick={handleCancelAnalysis}
+                                         className="mt-1 px-3 py-1 text-xs font-medium text-zinc-600 hover:text-zinc-900 border border-zinc-300 rounded-full transition-colors"
+                                     >
+                                         Cancel
+                                     </button>
+                                 </>
+                             )}
                         </div>
                     </div>
                 )}
             </div>
 
+            {/* Intonation & Chord Timeline */}
+            <ConfidenceHeatmap
+                notes={notes}
+                currentTime={audioState.currentTime}
+                totalDuration={audioState.duration || 60}
+                scrollRef={heatmapScrollRef}
+                keySignature={detectedKey ?? undefined}
+                keyRegions={keyRegions}
+                chords={chords}
+                tonic={isSargam ? saMidi : undefined}
+                performance={performance}
+            />
+
             {/* Visualizer */}
             <div className="h-32 mt-auto">
-                <Equalizer isPlaying={audioState.isPlaying} />
+                <Equalizer isPlaying={audioState.isPlaying} keySignature={detectedKey ?? undefined} keyRegions={keyRegions} currentTime={audioState.currentTime} />
             </div>
 
             {/* Youtube Player Hidden Overlay */}
@@ -9,10 +9,12 @@ import {
   CartesianGrid, 
   Tooltip, 
   ReferenceLine,
+  ReferenceArea,
   ResponsiveContainer
 } from 'recharts';
-import { NoteEvent } from '../types';
+import { NoteEvent, KeyContext, KeyRegion, ChordEvent, PerformanceScore, NoteGrade } from '../types';
 import { formatPitch } from '../utils/pitchUtils';
+import { keyAt } from '../utils/keyDetection';
 import { PIXELS_PER_SECOND } from './constants';
 
 interface HeatmapProps {
@@ -21,9 +23,17 @@ interface HeatmapProps {
   totalDuration?: number;
   scrollRef?: React.RefObject<HTMLDivElement>;
   onScroll?: (e: React.UIEvent<HTMLDivElement>) => void;
+  keySignature?: KeyContext; // Spell note names in the detected key
+  keyRegions?: KeyRegion[]; // Modulations; each note is spelled in the key of its region
+  chords?: ChordEvent[]; // Chord timeline drawn as a lane above the contour
+  tonic?: number; // Madhya Sa (MIDI); labels notes in sargam when set
+  performance?: PerformanceScore | null; // Sing/play-along grades drawn over the reference notes
 }
 
-const ConfidenceHeatmap: React.FC<HeatmapProps> = ({ notes, currentTime = 0, totalDuration = 60, scrollRef, onScroll }) => {
+const GRADE_COLORS: Record<NoteGrade, string> = { hit: '#10b981', off_pitch: '#f59e0b', missed: '#f43f5e' };
+const EXTRA_COLOR = '#a855f7';
+
+const ConfidenceHeatmap: React.FC<HeatmapProps> = ({ notes, currentTime = 0, totalDuration = 60, scrollRef, onScroll, keySignature, keyRegions = [], chords = [], tonic, performance }) => {
 
   // Sync scroll with playhead
   useEffect(() => {
@@ -45,12 +55,15 @@ const ConfidenceHeatmap: React.FC<HeatmapProps> = ({ notes, currentTime = 0, tot
 
   const data = useMemo(() => {
       return notes.map(n => {
+        const key = keyAt(keyRegions, n.start_time) ?? keySignature;
         const roundedPitch = Math.round(n.midi_pitch);
-        const cents = (n.midi_pitch - roundedPitch) * 100; 
+        const cents = n.cents_deviation ?? (n.midi_pitch - roundedPitch) * 100;
         const noteLabel = formatPitch(n.midi_pitch, { 
-            format: 'scientific', 
+            format: tonic !== undefined ? 'sargam' : 'scientific', 
             accidentalStyle: 'sharp', 
-            showOctave: true 
+            showOctave: true,
+            key,
+            tonic
         });
 
         return {
@@ -59,10 +72,13 @@ const ConfidenceHeatmap: React.FC<HeatmapProps> = ({ notes, currentTime = 0, tot
           pitch: n.midi_pitch,
           noteName: noteLabel.display,
           cents: cents,
-          deviationLabel: cents > 0 ? `+${Math.round(cents)}` : `${Math.round(cents)}`
+          deviationLabel: cents > 0 ? `+${Math.round(cents)}` : `${Math.round(cents)}`,
+          ornaments: (n.ornaments ?? []).map(o => o.type === 'glide'
+              ? `Glide from ${formatPitch(o.fromMidi ?? n.midi_pitch, { format: tonic !== undefined ? 'sargam' : 'scientific', accidentalStyle: 'sharp', showOctave: true, key, tonic }).display}`
+              : `${o.type === 'gamaka' ? 'Gamaka' : 'Vibrato'} ${o.rateHz?.toFixed(1)} Hz ±${Math.round(o.extentCents ?? 0)}c`)
         };
       });
-  }, [notes]);
+  }, [notes, keySignature, keyRegions, tonic]);
 
   if (notes.length === 0) return (
       <div className="h-64 w-full bg-zinc-900 rounded-b-lg p-4 flex items-center justify-center text-zinc-600 text-sm border-t-0 border border-zinc-800">
@@ -159,6 +175,16 @@ const ConfidenceHeatmap: React.FC<HeatmapProps> = ({ notes, currentTime = 0, tot
                     </span>
                 </div>
              </div>
+
+             {/* Ornaments Section */}
+             {d.ornaments.length > 0 && (
+                 <div className="pt-1 border-t border-zinc-800/50">
+                    <span className="text-zinc-400 text-[10px] uppercase tracking-wide">Ornaments</span>
+                    {d.ornaments.map((label: string) => (
+                        <div key={label} className="text-violet-300 font-mono text-[10px]">{label}</div>
+                    ))}
+                 </div>
+             )}
           </div>
         </div>
       );
@@ -183,6 +209,30 @@ const ConfidenceHeatmap: React.FC<HeatmapProps> = ({ notes, currentTime = 0, tot
                 <div className="w-2 h-2 rounded bg-emerald-500/20 border border-emerald-500/30"></div> 
                 <span>Confidence Signal</span>
             </div>
+            {chords.length > 0 && (
+                <div className="flex items-center gap-1.5">
+                    <div className="w-2 h-2 rounded bg-amber-500/20 border border-amber-500/30"></div>
+                    <span>Chords</span>
+                </div>
+            )}
+            {performance && (
+                <>
+                    <div className="flex items-center gap-1.5">
+                        <div className="w-2 h-0.5 bg-orange-400"></div>
+                        <span>Your Pitch</span>
+                    </div>
+                    {([['hit', 'Hit'], ['off_pitch', 'Off Pitch'], ['missed', 'Missed']] as [NoteGrade, string][]).map(([grade, label]) => (
+                        <div key={grade} className="flex items-center gap-1.5">
+                            <div className="w-2 h-2 rounded" style={{ backgroundColor: GRADE_COLORS[grade], opacity: 0.6 }}></div>
+                            <span>{label}</span>
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-1.5">
+                        <div className="w-2 h-2 rounded border border-dashed" style={{ borderColor: EXTRA_COLOR }}></div>
+                        <span>Extra</span>
+                    </div>
+                </>
+            )}
         </div>
       </div>
       
@@ -190,6 +240,25 @@ const ConfidenceHeatmap: React.FC<HeatmapProps> = ({ notes, currentTime = 0, tot
       <div ref={scrollRef} onScroll={onScroll} className="flex-1 w-full overflow-x-auto overflow-y-hidden relative scrollbar-hide">
         <div style={{ width: chartWidth, height: '100%', position: 'relative' }}>
             
+            {/* Chord Lane (same time axis as the chart) */}
+            {chords.length > 0 && (
+                <div className="absolute left-0 right-0 z-10 h-5 pointer-events-none" style={{ top: 48 }}>
+                    {chords.filter(c => c.root !== null).map(c => (
+                        <div
+                            key={c.startTime}
+                            className="absolute top-0 h-full px-1.5 flex items-center rounded border border-amber-500/30 bg-amber-500/10 text-[10px] font-bold text-amber-300 overflow-hidden whitespace-nowrap"
+                            style={{
+                                left: `${120 + (c.startTime * PIXELS_PER_SECOND)}px`,
+                                width: `${Math.max(2, (c.endTime - c.startTime) * PIXELS_PER_SECOND - 2)}px`,
+                                opacity: 0.5 + 0.5 * c.confidence
+                            }}
+                        >
+                            {c.symbol}
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Playhead Overlay */}
             <div 
                 className="absolute top-0 bottom-0 z-10 transition-all duration-75 ease-linear pointer-events-none"
@@ -238,7 +307,7 @@ const ConfidenceHeatmap: React.FC<HeatmapProps> = ({ notes, currentTime = 0, tot
                     tick={{ fontSize: 10, fill: '#71717a', fontWeight: 500 }}
                     tickFormatter={(val) => {
                         try {
-                            return formatPitch(val, { format: 'scientific', accidentalStyle: 'sharp', showOctave: true }).display;
+                            return formatPitch(val, { format: tonic !== undefined ? 'sargam' : 'scientific', accidentalStyle: 'sharp', showOctave: true, key: keyAt(keyRegions, currentTime) ?? keySignature, tonic }).display;
                         } catch { return ''; }
                     }}
                     tickLine={false}
@@ -266,6 +335,66 @@ const ConfidenceHeatmap: React.FC<HeatmapProps> = ({ notes, currentTime = 0, tot
                     isAnimationActive={false}
                 />
 
+                {/* Sing/play-along overlays: graded reference notes, performed onsets, extra notes */}
+                {performance?.notes.map(n => (
+                    <ReferenceArea
+                        key={`grade_${n.noteId}`}
+                        yAxisId="pitch"
+                        x1={n.start_time}
+                        x2={n.start_time + n.duration}
+                        y1={n.midi_pitch - 0.5}
+                        y2={n.midi_pitch + 0.5}
+                        fill={GRADE_COLORS[n.grade]}
+                        fillOpacity={0.3}
+                        stroke={GRADE_COLORS[n.grade]}
+                        strokeOpacity={0.8}
+                        ifOverflow="hidden"
+                    />
+                ))}
+                {performance?.notes.filter(n => n.timingErrorSec !== null).map(n => (
+                    <ReferenceLine
+                        key={`onset_${n.noteId}`}
+                        yAxisId="pitch"
+                        segment={[
+                            { x: n.start_time + n.timingErrorSec!, y: n.midi_pitch - 0.7 },
+                            { x: n.start_time + n.timingErrorSec!, y: n.midi_pitch + 0.7 }
+                        ]}
+                        stroke="#fafafa"
+                        strokeWidth={1.5}
+                        ifOverflow="hidden"
+                    />
+                ))}
+                {performance?.extras.map(e => (
+                    <ReferenceArea
+                        key={`extra_${e.start_time}`}
+                        yAxisId="pitch"
+                        x1={e.start_time}
+                        x2={e.start_time + e.duration}
+                        y1={e.midi_pitch - 0.5}
+                        y2={e.midi_pitch + 0.5}
+                        fill={EXTRA_COLOR}
+                        fillOpacity={0.15}
+                        stroke={EXTRA_COLOR}
+                        strokeDasharray="3 2"
+                        ifOverflow="hidden"
+                    />
+                ))}
+                {performance && (
+                    <Line
+                        yAxisId="pitch"
+                        data={performance.track}
+                        dataKey="midi"
+                        type="linear"
+                        stroke="#fb923c"
+                        strokeWidth={1.5}
+                        dot={false}
+                        activeDot={false}
+                        connectNulls={false}
+                        tooltipType="none"
+                        isAnimationActive={false}
+                    />
+                )}
+
                 <Line 
                     yAxisId="pitch"
                     type="monotone" 
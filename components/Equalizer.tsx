@@ -1,19 +1,27 @@
 import React, { useEffect, useRef } from 'react';
 import { audioEngine } from '../services/audioEngine';
+import { KeyContext, KeyRegion } from '../types';
 import { formatPitch } from '../utils/pitchUtils';
+import { keyAt } from '../utils/keyDetection';
 
 interface EqualizerProps {
   isPlaying: boolean;
+  keySignature?: KeyContext; // Spell note names in the detected key
+  keyRegions?: KeyRegion[]; // Modulations; names follow the key at `currentTime`
+  currentTime?: number;
 }
 
-const Equalizer: React.FC<EqualizerProps> = ({ isPlaying }) => {
+const Equalizer: React.FC<EqualizerProps> = ({ isPlaying, keySignature, keyRegions = [], currentTime = 0 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | undefined>(undefined);
+  // The draw loop outlives the render that started it, so it reads the key through a ref
+  const keyRef = useRef<KeyContext | undefined>(keySignature);
+  keyRef.current = keyAt(keyRegions, currentTime) ?? keySignature;
 
   const getNoteName = (hz: number) => {
     if (hz === 0) return '';
     const midi = 69 + 12 * Math.log2(hz / 440);
-    return formatPitch(midi, { format: 'note_only', accidentalStyle: 'sharp', showOctave: true }).display;
+    return formatPitch(midi, { format: 'note_only', accidentalStyle: 'sharp', showOctave: true, key: keyRef.current }).display;
   };
 
   const draw = () => {
@@ -4,6 +4,7 @@ import {
   MusicIcon, DownloadIcon, EditIcon, CopyIcon, TagIcon, SaveIcon 
 } from './Icons';
 import { HistoryService } from '../services/historyService';
+import { AudioStoreService } from '../services/audioStoreService';
 import { HistoryEntry, RetentionPolicy } from '../types';
 
 interface HistoryModalProps {
@@ -19,7 +20,7 @@ const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, onLoadEntr
 
   // Filter States
   const [filterText, setFilterText] = useState('');
-  const [filterSource, setFilterSource] = useState<'all' | 'youtube' | 'file'>('all');
+  const [filterSource, setFilterSource] = useState<'all' | 'youtube' | 'file' | 'mic'>('all');
   const [filterMinConfidence, setFilterMinConfidence] = useState(0);
   const [filterBPM, setFilterBPM] = useState<[number, number]>([0, 300]);
   const [showFilters, setShowFilters] = useState(false);
@@ -30,6 +31,9 @@ const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, onLoadEntr
   const [newTag, setNewTag] = useState('');
   const [isAddingTag, setIsAddingTag] = useState(false);
 
+  // Object URL for the selected entry's recorded take
+  const [takeUrl, setTakeUrl] = useState<string | null>(null);
+
   const refreshData = () => {
     setHistory(HistoryService.getHistory());
     setRetentionPolicy(HistoryService.getRetentionPolicy());
@@ -42,6 +46,24 @@ const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, onLoadEntr
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    setTakeUrl(null);
+    if (!selectedEntry?.audio_stored) return;
+    let url: string | null = null;
+    let cancelled = false;
+    AudioStoreService.getTake(selectedEntry.id)
+      .then(blob => {
+        if (!blob || cancelled) return;
+        url = URL.createObjectURL(blob);
+        setTakeUrl(url);
+      })
+      .catch(e => console.warn("Failed to load recorded take", e));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [selectedEntry?.id, selectedEntry?.audio_stored]);
+
   // Actions
   const handleDelete = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
@@ -175,6 +197,7 @@ const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, onLoadEntr
                             <option value="all">All Sources</option>
                             <option value="youtube">YouTube</option>
                             <option value="file">Upload</option>
+                            <option value="mic">Recording</option>
                         </select>
                     </div>
                     <div>
@@ -238,6 +261,7 @@ const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, onLoadEntr
                         <span>•</span>
                         <span>{Math.floor(entry.audio_duration_sec / 60)}:{(entry.audio_duration_sec % 60).toString().padStart(2, '0')}</span>
                         {entry.source_type === 'youtube' && <span className="text-red-400/80">YT</span>}
+                        {entry.source_type === 'mic' && <span className="text-emerald-400/80">MIC</span>}
                       </div>
                       {/* Mini Confidence Bar */}
                       <div className="mt-2 h-1 w-full bg-zinc-800 rounded-full overflow-hidden">
@@ -352,8 +376,47 @@ const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, onLoadEntr
                         <div className="text-xs text-zinc-500 uppercase font-bold mb-1">Instrument</div>
                         <div className="text-2xl font-bold text-white truncate">{selectedEntry.instrument_estimate || '-'}</div>
                     </div>
+                    <div className="bg-zinc-950 p-4 rounded-xl border border-zinc-800/60 shadow-sm relative overflow-hidden">
+                        <div className="absolute top-0 left-0 w-1 h-full bg-sky-500/50"></div>
+                        <div className="text-xs text-zinc-500 uppercase font-bold mb-1">Key</div>
+                        <div className="text-2xl font-bold text-white truncate">
+                            {selectedEntry.key_detected || '-'}
+                            {selectedEntry.key_confidence !== undefined && <span className="text-sm text-zinc-600"> {(selectedEntry.key_confidence * 100).toFixed(0)}%</span>}
+                        </div>
+                    </div>
+                    <div className="bg-zinc-950 p-4 rounded-xl border border-zinc-800/60 shadow-sm relative overflow-hidden">
+                        <div className="absolute top-0 left-0 w-1 h-full bg-pink-500/50"></div>
+                        <div className="text-xs text-zinc-500 uppercase font-bold mb-1">Time Signature</div>
+                        <div className="text-2xl font-bold text-white">{selectedEntry.time_signature || '-'}</div>
+                    </div>
+                    <div className="bg-zinc-950 p-4 rounded-xl border border-zinc-800/60 shadow-sm relative overflow-hidden">
+                        <div className="absolute top-0 left-0 w-1 h-full bg-amber-500/50"></div>
+                        <div className="text-xs text-zinc-500 uppercase font-bold mb-1">Reference A4</div>
+                        <div className="text-2xl font-bold text-white">
+                            {selectedEntry.reference_hz ? selectedEntry.reference_hz.toFixed(1) : '-'}
+                            {selectedEntry.reference_hz && <span className="text-sm text-zinc-600"> Hz</span>}
+                        </div>
+                    </div>
                 </div>
 
+                {/* Recorded Take */}
+                {takeUrl && (
+                    <div>
+                        <h3 className="text-sm font-semibold text-zinc-300 mb-3">Recorded Take</h3>
+                        <div className="flex items-center gap-3">
+                            <audio src={takeUrl} controls className="flex-1 h-10" />
+                            <a
+                                href={takeUrl}
+                                download={`${selectedEntry.title || 'recording'}.wav`}
+                                className="p-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md transition-colors border border-zinc-700"
+                                title="Download Take (WAV)"
+                            >
+                                <DownloadIcon className="w-5 h-5" />
+                            </a>
+                        </div>
+                    </div>
+                )}
+
                 {/* Tags Section */}
                 <div>
                     <h3 className="text-sm font-semibold text-zinc-300 mb-3 flex items-center gap-2">
@@ -231,3 +231,11 @@ export const StyleIcon = ({ className }: { className?: string }) => (
     <path d="M2 16h3"></path>
   </svg>
 );
+
+export const TunerIcon = ({ className }: { className?: string }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+    <path d="M3 17a9 9 0 0 1 18 0"></path>
+    <line x1="12" y1="17" x2="15.5" y2="10"></line>
+    <circle cx="12" cy="17" r="1"></circle>
+  </svg>
+);
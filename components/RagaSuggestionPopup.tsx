@@ -0,0 +1,75 @@
+import React from 'react';
+import { RagaCandidate } from '../utils/ragaIdentification';
+import { CheckIcon, CloseIcon, MusicIcon } from './Icons';
+
+interface RagaSuggestionPopupProps {
+  isOpen: boolean;
+  candidates: RagaCandidate[];
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const RagaSuggestionPopup: React.FC<RagaSuggestionPopupProps> = ({ isOpen, candidates, onAccept, onReject }) => {
+  const [best, ...others] = candidates;
+  if (!isOpen || !best) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-5 right-5 z-[110] bg-zinc-800 border border-zinc-700 rounded-xl shadow-2xl max-w-sm w-full animate-in slide-in-from-bottom-5">
+      <div className="p-5">
+        <div className="flex items-start gap-4">
+          <div className="w-10 h-10 bg-orange-500 rounded-full flex items-center justify-center flex-shrink-0">
+            <MusicIcon className="w-6 h-6 text-white" />
+          </div>
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-white mb-1">Raga Suggestion</h3>
+            <p className="text-zinc-400 text-sm mb-4">
+              Based on the swaras and their movement, this sounds like:
+            </p>
+            <div className="mb-3">
+              <p className="font-semibold text-white">
+                {best.raga.name}
+                <span className="text-zinc-500 font-normal text-sm"> · {best.raga.thaat} thaat · {Math.round(best.score * 100)}%</span>
+              </p>
+              <div className="grid grid-cols-2 gap-x-3 gap-y-1 mt-2 text-xs font-mono">
+                <span className="text-zinc-500 uppercase">Aroha</span>
+                <span className="text-zinc-300">{best.raga.aroha.join(' ')}</span>
+                <span className="text-zinc-500 uppercase">Avaroha</span>
+                <span className="text-zinc-300">{best.raga.avaroha.join(' ')}</span>
+                <span className="text-zinc-500 uppercase">Vadi / Samvadi</span>
+                <span className="text-zinc-300">{best.raga.vadi} / {best.raga.samvadi}</span>
+              </div>
+              {best.foreignSwaras.length > 0 && (
+                <p className="text-xs text-amber-400 mt-2">Also heard: {best.foreignSwaras.join(' ')}</p>
+              )}
+            </div>
+            {others.length > 0 && (
+              <p className="text-xs text-zinc-500 mb-5">
+                Also possible: {others.map(c => `${c.raga.name} (${Math.round(c.score * 100)}%)`).join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onReject}
+            className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <CloseIcon className="w-4 h-4" />
+            Reject
+          </button>
+          <button
+            onClick={onAccept}
+            className="px-4 py-2 bg-green-600 hover:bg-green-500 text-white font-medium rounded-lg shadow-lg flex items-center gap-2"
+          >
+            <CheckIcon className="w-4 h-4" />
+            Accept
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RagaSuggestionPopup;
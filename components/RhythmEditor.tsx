@@ -0,0 +1,388 @@
+import React, { useEffect, useState } from 'react';
+import { XIcon, PlayIcon, PauseIcon, SaveIcon, TrashIcon, CopyIcon, PlusIcon, CheckIcon } from './Icons';
+import { STYLES, RhythmPattern, RhythmStep, CustomRhythmPattern } from './constants';
+import { audioEngine } from '../services/audioEngine';
+import { HistoryService } from '../services/historyService';
+import { listPercussion } from '../services/percussion';
+import { CUSTOM_STYLE_PREFIX, customStyleId, resolvePattern, patternResolution, quantizeSteps, encodePattern, decodePattern } from '../utils/rhythmPatterns';
+
+interface RhythmEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  styleId: string; // Pattern the editor opens on, built-in or custom
+  bpm: number; // Preview tempo
+  customPatterns: CustomRhythmPattern[];
+  onPatternsChange: (patterns: CustomRhythmPattern[]) => void;
+  onUsePattern: (styleId: string) => void;
+}
+
+type Section = 'main' | 'variation' | 'fill';
+type Draft = Omit<CustomRhythmPattern, 'id' | 'updated'> & { id?: string };
+
+const RESOLUTIONS = [
+  { value: 1, name: 'Quarters' },
+  { value: 2, name: 'Eighths' },
+  { value: 3, name: 'Triplets' },
+  { value: 4, name: 'Sixteenths' },
+  { value: 6, name: 'Sextuplets' }
+];
+const MAX_LENGTH = 32;
+const VELOCITY_CYCLE = [0.8, 1.0, 0.5]; // A click steps through these, then clears the cell
+const SAME_BEAT = 1e-3;
+
+const sectionSteps = (draft: Draft, section: Section): RhythmStep[] =>
+  section === 'main' ? draft.steps : section === 'variation' ? draft.variations?.[0] ?? [] : draft.fill ?? [];
+
+// An emptied variation or fill is dropped rather than stored as a silent bar
+const withSection = (draft: Draft, section: Section, steps: RhythmStep[]): Draft => {
+  if (section === 'main') return { ...draft, steps };
+  if (section === 'fill') return { ...draft, fill: steps.length ? steps : undefined };
+  const variations = [steps, ...(draft.variations ?? []).slice(1)].filter(v => v.length);
+  return { ...draft, variations: variations.length ? variations : undefined };
+};
+
+// Every section moved onto a grid of `resolution` steps per beat over `length` beats
+const regrid = (draft: Draft, resolution: number, length: number): Draft => {
+  const fit = (steps: RhythmStep[]) => quantizeSteps(steps, resolution, length);
+  const variations = (draft.variations ?? []).map(fit).filter(v => v.length);
+  const fill = draft.fill && fit(draft.fill);
+  return {
+    ...draft,
+    length,
+    resolution,
+    steps: fit(draft.steps),
+    variations: variations.length ? variations : undefined,
+    fill: fill && fill.length ? fill : undefined
+  };
+};
+
+const draftFrom = (styleId: string, custom: CustomRhythmPattern[]): Draft => {
+  const pattern = resolvePattern(styleId, custom) ?? resolvePattern('none', custom)!;
+  const saved = custom.find(p => customStyleId(p) === styleId);
+  const name = saved?.name ?? `${STYLES.find(s => s.id === styleId)?.name ?? 'Rhythm'} (Custom)`;
+  const { id, updated, ...rest } = saved ?? { ...pattern, id: undefined, updated: undefined };
+  return regrid({ ...rest, id, name }, patternResolution(pattern), pattern.length);
+};
+
+const cellColor = (velocity: number) =>
+  velocity >= 0.95 ? 'bg-indigo-400' : velocity >= 0.7 ? 'bg-indigo-500/80' : 'bg-indigo-500/40';
+
+const RhythmEditor: React.FC<RhythmEditorProps> = ({ isOpen, onClose, styleId, bpm, customPatterns, onPatternsChange, onUsePattern }) => {
+  const [draft, setDraft] = useState<Draft>(() => draftFrom(styleId, customPatterns));
+  const [section, setSection] = useState<Section>('main');
+  const [extraRows, setExtraRows] = useState<string[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+  const [shareCode, setShareCode] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const load = (id: string) => {
+    setDraft(draftFrom(id, customPatterns));
+    setSection('main');
+    setExtraRows([]);
+    setStatus(null);
+  };
+
+  useEffect(() => {
+    if (isOpen) load(styleId);
+    else setShareCode('');
+  }, [isOpen]);
+
+  // The preview loops the section being edited and follows every edit
+  const preview: RhythmPattern = { length: draft.length, steps: sectionSteps(draft, section) };
+  useEffect(() => {
+    if (previewing) audioEngine.setRhythmPattern(preview);
+  }, [previewing, draft, section]);
+
+  const stopPreview = () => {
+    if (!previewing) return;
+    audioEngine.stopRhythm();
+    setPreviewing(false);
+  };
+
+  // Stopped before the parent hears of the close, so it reads the engine's real state
+  const close = () => {
+    stopPreview();
+    onClose();
+  };
+
+  useEffect(() => {
+    if (!isOpen) stopPreview();
+  }, [isOpen]);
+
+  const togglePreview = () => {
+    // Whatever rhythm was playing gives way to the preview
+    audioEngine.stopRhythm();
+    if (!previewing) audioEngine.startRhythm(preview, bpm);
+    setPreviewing(!previewing);
+  };
+
+  const toggleCell = (sound: string, cell: number) => {
+    const beat = cell / draft.resolution!;
+    const steps = sectionSteps(draft, section);
+    const hit = steps.find(s => s.sound === sound && Math.abs(s.beat - beat) < SAME_BEAT);
+    let next: RhythmStep[];
+    if (!hit) {
+      next = [...steps, { beat, sound, velocity: VELOCITY_CYCLE[0] }];
+    } else {
+      // Velocities off the cycle (from built-in patterns) restart it
+      const i = VELOCITY_CYCLE.findIndex(v => Math.abs(v - hit.velocity) < 0.05);
+      next = i === VELOCITY_CYCLE.length - 1
+        ? steps.filter(s => s !== hit)
+        : steps.map(s => s === hit ? { ...s, velocity: VELOCITY_CYCLE[i + 1] } : s);
+    }
+    setDraft(withSection(draft, section, next.sort((a, b) => a.beat - b.beat)));
+  };
+
+  const save = (): CustomRhythmPattern => {
+    const saved = HistoryService.saveCustomPattern({ ...draft, name: draft.name.trim() || 'Untitled Pattern' });
+    setDraft({ ...draft, id: saved.id, name: saved.name });
+    onPatternsChange(HistoryService.getCustomPatterns());
+    setStatus(`Saved "${saved.name}"`);
+    return saved;
+  };
+
+  const remove = () => {
+    if (!draft.id || !confirm(`Delete "${draft.name}"?`)) return;
+    HistoryService.deleteCustomPattern(draft.id);
+    onPatternsChange(HistoryService.getCustomPatterns());
+    setDraft({ ...draft, id: undefined });
+    setStatus("Pattern deleted");
+  };
+
+  const share = () => {
+    const code = encodePattern({ ...draft, name: draft.name.trim() || 'Untitled Pattern' });
+    setShareCode(code);
+    // The code stays in the field to copy by hand where the clipboard is not available
+    navigator.clipboard?.writeText(code)
+      .then(() => setStatus("Share code copied to clipboard"))
+      .catch(() => setStatus("Copy the share code below"));
+  };
+
+  const importCode = () => {
+    try {
+      const saved = HistoryService.saveCustomPattern(decodePattern(shareCode));
+      const patterns = HistoryService.getCustomPatterns();
+      onPatternsChange(patterns);
+      setDraft(draftFrom(customStyleId(saved), patterns));
+      setSection('main');
+      setShareCode('');
+      setStatus(`Imported "${saved.name}"`);
+    } catch (e: unknown) {
+      setStatus(e instanceof Error ? e.message : "The share code could not be imported");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const resolution = draft.resolution!;
+  const cells = draft.length * resolution;
+  const steps = sectionSteps(draft, section);
+  const sounds = listPercussion();
+  const used = new Set([draft.steps, ...(draft.variations ?? []), draft.fill ?? []].flat().map(s => s.sound));
+  const rows = sounds.filter(s => used.has(s.id) || extraRows.includes(s.id));
+  const velocityAt = (sound: string, cell: number) =>
+    steps.find(s => s.sound === sound && Math.abs(s.beat - cell / resolution) < SAME_BEAT)?.velocity;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={close} />
+
+      <div className="relative bg-zinc-900 w-full max-w-4xl max-h-[90vh] rounded-xl border border-zinc-800 shadow-2xl flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900/50">
+          <div className="flex gap-4">
+            {(['main', 'variation', 'fill'] as Section[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setSection(s)}
+                className={`text-sm font-semibold capitalize transition-colors ${section === s ? 'text-white border-b-2 border-indigo-500' : 'text-zinc-500 hover:text-zinc-300'}`}
+              >
+                {s === 'main' ? 'Main Bar' : s}
+              </button>
+            ))}
+          </div>
+          <button onClick={close} className="p-1 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[10rem]">
+              <label htmlFor="rhythm-source" className="block text-[10px] uppercase font-bold text-zinc-500 mb-1">Start From</label>
+              <select
+                id="rhythm-source"
+                value={draft.id ? `${CUSTOM_STYLE_PREFIX}${draft.id}` : ''}
+                onChange={(e) => e.target.value && load(e.target.value)}
+                className="w-full bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+              >
+                <option value="">Choose a pattern…</option>
+                <optgroup label="Styles">
+                  {STYLES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </optgroup>
+                {customPatterns.length > 0 && (
+                  <optgroup label="My Patterns">
+                    {customPatterns.map(p => <option key={p.id} value={customStyleId(p)}>{p.name}</option>)}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+            <div className="flex-1 min-w-[10rem]">
+              <label htmlFor="rhythm-name" className="block text-[10px] uppercase font-bold text-zinc-500 mb-1">Name</label>
+              <input
+                id="rhythm-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="rhythm-length" className="block text-[10px] uppercase font-bold text-zinc-500 mb-1">Beats</label>
+              <input
+                id="rhythm-length"
+                type="number"
+                min={1}
+                max={MAX_LENGTH}
+                value={draft.length}
+                onChange={(e) => {
+                  const length = parseInt(e.target.value, 10);
+                  if (length >= 1 && length <= MAX_LENGTH) setDraft(regrid(draft, resolution, length));
+                }}
+                className="w-16 bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="rhythm-resolution" className="block text-[10px] uppercase font-bold text-zinc-500 mb-1">Grid</label>
+              <select
+                id="rhythm-resolution"
+                value={resolution}
+                onChange={(e) => setDraft(regrid(draft, parseInt(e.target.value, 10), draft.length))}
+                className="bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+              >
+                {/* Keep a finer grid from a loaded pattern selectable */}
+                {[...RESOLUTIONS, ...(RESOLUTIONS.some(r => r.value === resolution) ? [] : [{ value: resolution, name: `${resolution} per beat` }])].map(r => (
+                  <option key={r.value} value={r.value}>{r.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="rhythm-fill-every" className="block text-[10px] uppercase font-bold text-zinc-500 mb-1">Fill Every</label>
+              <input
+                id="rhythm-fill-every"
+                type="number"
+                min={2}
+                max={16}
+                value={draft.fillEvery ?? 4}
+                disabled={!draft.fill}
+                onChange={(e) => {
+                  const fillEvery = parseInt(e.target.value, 10);
+                  if (fillEvery >= 2 && fillEvery <= 16) setDraft({ ...draft, fillEvery });
+                }}
+                className="w-16 bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+              />
+            </div>
+          </div>
+
+          {/* Step grid: one row per sound, a cell per grid step; beats are marked by spacing */}
+          <div className="overflow-x-auto bg-zinc-950 rounded-lg border border-zinc-800 p-3">
+            <table className="border-separate" style={{ borderSpacing: 0 }}>
+              <tbody>
+                {rows.map(sound => (
+                  <tr key={sound.id}>
+                    <td className="pr-3 text-xs text-zinc-400 whitespace-nowrap sticky left-0 bg-zinc-950">{sound.name}</td>
+                    {Array.from({ length: cells }, (_, cell) => {
+                      const velocity = velocityAt(sound.id, cell);
+                      return (
+                        <td key={cell} className={`py-0.5 ${cell % resolution === 0 ? 'pl-1.5' : 'pl-0.5'}`}>
+                          <button
+                            title={`Beat ${Math.floor(cell / resolution) + 1}${cell % resolution ? ` + ${cell % resolution}/${resolution}` : ''}${velocity !== undefined ? ` · ${Math.round(velocity * 100)}%` : ''}`}
+                            onClick={() => toggleCell(sound.id, cell)}
+                            className={`block w-5 h-6 rounded-sm border transition-colors ${velocity !== undefined ? `${cellColor(velocity)} border-indigo-300/50` : cell % resolution === 0 ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700' : 'bg-zinc-900 border-zinc-800 hover:bg-zinc-700'}`}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length === 0 && <p className="text-xs text-zinc-500 text-center py-4">Add a sound to start the pattern</p>}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <PlusIcon className="w-4 h-4 text-zinc-500" />
+            <select
+              aria-label="Add sound"
+              value=""
+              onChange={(e) => e.target.value && setExtraRows([...extraRows, e.target.value])}
+              className="bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+            >
+              <option value="">Add sound…</option>
+              {sounds.filter(s => !rows.includes(s)).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+            <span className="text-[10px] text-zinc-600 ml-auto">Click a step to cycle 80% → 100% → 50% → off</span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-zinc-800">
+            <button
+              onClick={togglePreview}
+              className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-md border border-zinc-700 text-xs font-medium"
+            >
+              {previewing ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+              {previewing ? 'Stop' : `Preview at ${bpm} BPM`}
+            </button>
+            <button
+              onClick={save}
+              className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-md border border-zinc-700 text-xs font-medium"
+            >
+              <SaveIcon className="w-4 h-4" /> {draft.id ? 'Save' : 'Save as New'}
+            </button>
+            {draft.id && (
+              <button
+                onClick={remove}
+                className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800 hover:bg-red-900/50 text-zinc-300 hover:text-red-300 rounded-md border border-zinc-700 text-xs font-medium"
+              >
+                <TrashIcon className="w-4 h-4" /> Delete
+              </button>
+            )}
+            <button
+              onClick={share}
+              className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-md border border-zinc-700 text-xs font-medium"
+            >
+              <CopyIcon className="w-4 h-4" /> Share
+            </button>
+            <button
+              onClick={() => {
+                onUsePattern(customStyleId(save()));
+                close();
+              }}
+              className="ml-auto flex items-center gap-2 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-md text-xs font-medium"
+            >
+              <CheckIcon className="w-4 h-4" /> Save & Use
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              aria-label="Share code"
+              value={shareCode}
+              onChange={(e) => setShareCode(e.target.value)}
+              placeholder="Paste a share code to import"
+              className="flex-1 bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs font-mono text-zinc-300 focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              onClick={importCode}
+              disabled={!shareCode.trim()}
+              className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-md border border-zinc-700 text-xs font-medium disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+
+          {status && <p className="text-xs text-zinc-400">{status}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RhythmEditor;
@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { XIcon } from './Icons';
-import { LabelSettings } from '../types';
+import { LabelSettings, SoundFontInfo } from '../types';
 import { VOICES, STYLES } from './constants';
+import { audioEngine } from '../services/audioEngine';
+import { AudioStoreService } from '../services/audioStoreService';
+import { isSoundFontVoice } from '../services/soundFontPlayer';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -12,6 +15,14 @@ interface SettingsModalProps {
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, labelSettings, onLabelSettingsChange }) => {
   const [activeTab, setActiveTab] = useState<'keyboard'|'notation'|'sound'>('notation');
+  const [soundFont, setSoundFont] = useState<SoundFontInfo | null>(null);
+  const [soundFontStatus, setSoundFontStatus] = useState<string | null>(null);
+  const soundFontInputRef = useRef<HTMLInputElement>(null);
+
+  // The bank may have been restored from storage after mount
+  useEffect(() => {
+    if (isOpen) setSoundFont(audioEngine.soundFontInfo);
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
@@ -19,6 +30,33 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, labelSet
     onLabelSettingsChange({ ...labelSettings, [key]: value });
   };
 
+  const handleSoundFontFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setSoundFontStatus("Loading...");
+    try {
+      const info = audioEngine.loadSoundFont(await file.arrayBuffer());
+      setSoundFont(info);
+      handleChange('selectedVoice', info.presets[0].voiceId);
+      setSoundFontStatus(null);
+      AudioStoreService.saveSoundFont(file.name, file).catch(err => {
+        console.warn("Could not store SoundFont", err);
+        setSoundFontStatus("Loaded, but it could not be saved for the next visit.");
+      });
+    } catch (err) {
+      setSoundFontStatus(err instanceof Error ? err.message : "Could not read the SoundFont");
+    }
+  };
+
+  const handleRemoveSoundFont = () => {
+    audioEngine.unloadSoundFont();
+    AudioStoreService.deleteSoundFont().catch(err => console.warn("Could not delete stored SoundFont", err));
+    if (isSoundFontVoice(labelSettings.selectedVoice)) handleChange('selectedVoice', 'piano');
+    setSoundFont(null);
+    setSoundFontStatus(null);
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       {/* Backdrop */}
@@ -111,6 +149,15 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, labelSet
                                 />
                                 <span className="text-sm text-zinc-300">Solfège (Do, Re)</span>
                             </label>
+                            <label className="flex items-center space-x-2 p-2 rounded hover:bg-zinc-800/50 cursor-pointer">
+                                <input 
+                                    type="radio" 
+                                    checked={labelSettings.format === 'sargam'}
+                                    onChange={() => handleChange('format', 'sargam')}
+                                    className="text-indigo-500 bg-zinc-900 border-zinc-700" 
+                                />
+                                <span className="text-sm text-zinc-300">Sargam (Sa, Re, R̲e)</span>
+                            </label>
                         </div>
                     </div>
 
@@ -183,6 +230,26 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, labelSet
 
                 </div>
 
+                <div className="space-y-3 border-t border-zinc-800 pt-6">
+                    <h3 className="text-sm font-bold text-indigo-400 uppercase tracking-wider">Transcription Mode</h3>
+                    <div className="flex gap-2">
+                        {[
+                          { id: 'monophonic', label: 'Melody', hint: 'Single line (voice, flute, lead)' },
+                          { id: 'polyphonic', label: 'Chords', hint: 'Piano, harmonium, guitar' }
+                        ].map(opt => (
+                            <button
+                                key={opt.id}
+                                onClick={() => handleChange('analysisMode', opt.id)}
+                                className={`flex-1 flex flex-col items-start py-2 px-3 rounded-lg border text-left transition-colors ${labelSettings.analysisMode === opt.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:bg-zinc-800'}`}
+                            >
+                                <span className="text-sm font-bold">{opt.label}</span>
+                                <span className="text-[10px] opacity-70">{opt.hint}</span>
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-zinc-500">Applies to in-browser analysis of the next uploaded file.</p>
+                </div>
+
                 <div className="p-4 bg-zinc-950 rounded-lg border border-zinc-800 flex flex-col items-center">
                     <span className="text-xs text-zinc-500 uppercase font-bold mb-2">Preview</span>
                     <div className="flex gap-4 items-center">
@@ -195,7 +262,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, labelSet
                                     labelSettings.position === 'below' ? '-bottom-4' : 
                                     'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 mix-blend-difference'
                                 }`}>
-                                    {labelSettings.format === 'solfege' ? 'Do' : `C${labelSettings.accidentalStyle === 'sharp' ? '♯' : '#'}4`}
+                                    {labelSettings.format === 'solfege' ? 'Do' : labelSettings.format === 'sargam' ? 'Sa' : `C${labelSettings.accidentalStyle === 'sharp' ? '♯' : '#'}4`}
                                 </span>
                             )}
                         </div>
@@ -269,6 +336,40 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, labelSet
                         </div>
                     </div>
 
+                    <div className="border-t border-zinc-800 pt-6">
+                        <h3 className="text-sm font-bold text-indigo-400 uppercase tracking-wider mb-2">SoundFont (SF2)</h3>
+                        <p className="text-[10px] text-zinc-500 mb-4">Play notes through the samples of a local .sf2 bank instead of a synthesized voice. The bank is kept in this browser.</p>
+                        <input ref={soundFontInputRef} type="file" accept=".sf2" className="hidden" onChange={handleSoundFontFile} />
+                        {soundFont ? (
+                            <div className="space-y-3">
+                                <div className="flex items-center justify-between gap-3">
+                                    <span className="text-sm text-zinc-300 truncate">{soundFont.name || 'Untitled bank'} <span className="text-zinc-500">· {soundFont.presets.length} presets</span></span>
+                                    <div className="flex gap-2 shrink-0">
+                                        <button onClick={() => soundFontInputRef.current?.click()} className="px-3 py-1.5 text-xs rounded border border-zinc-700 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 transition-colors">Replace</button>
+                                        <button onClick={handleRemoveSoundFont} className="px-3 py-1.5 text-xs rounded border border-zinc-700 text-zinc-400 hover:bg-red-900/30 hover:text-red-300 transition-colors">Remove</button>
+                                    </div>
+                                </div>
+                                <select
+                                    value={isSoundFontVoice(labelSettings.selectedVoice) ? labelSettings.selectedVoice : ''}
+                                    onChange={(e) => handleChange('selectedVoice', e.target.value)}
+                                    className="w-full bg-zinc-950 border border-zinc-800 rounded-md px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-indigo-500"
+                                >
+                                    <option value="" disabled>Choose a preset to use it as the voice</option>
+                                    {soundFont.presets.map(p => (
+                                        <option key={p.voiceId} value={p.voiceId}>
+                                            {String(p.bank).padStart(3, '0')}:{String(p.program).padStart(3, '0')} {p.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        ) : (
+                            <button onClick={() => soundFontInputRef.current?.click()} className="px-4 py-2 text-sm rounded-lg border border-zinc-700 bg-zinc-900 text-zinc-300 hover:bg-zinc-800 transition-colors">
+                                Load .sf2 File
+                            </button>
+                        )}
+                        {soundFontStatus && <p className="text-xs text-zinc-400 mt-2">{soundFontStatus}</p>}
+                    </div>
+
                     <div className="border-t border-zinc-800 pt-6">
                         <h3 className="text-sm font-bold text-indigo-400 uppercase tracking-wider mb-4">Rhythm / Style</h3>
                         <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
@@ -1,30 +1,41 @@
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { OpenSheetMusicDisplay } from 'opensheetmusicdisplay';
-import { TranscriptionService } from '../services/transcriptionService';
+import { NoteEvent, TempoMap, KeyContext, KeyRegion, ChordEvent } from '../types';
+import { MusicNotationService } from '../services/musicNotationService';
 
 interface SheetMusicProps {
-  musicXML?: string; // Content string
+  musicXML?: string; // Content string (backend). Takes precedence over notes.
+  notes?: NoteEvent[]; // Local analysis, rendered via MusicNotationService
   currentTime?: number;
   bpm?: number;
+  tempoMap?: TempoMap; // Variable tempo from beat tracking
+  timeSignature?: string; // Detected or user-selected meter
+  keySignature?: KeyContext; // Detected key; drives the key signature and spelling
+  keyRegions?: KeyRegion[]; // Modulations; key signature changes at the affected measures
+  chords?: ChordEvent[]; // Rendered as chord symbols above the treble staff
+  title?: string;
 }
 
 const SheetMusic: React.FC<SheetMusicProps> = ({ 
-    musicXML, currentTime, bpm
+    musicXML, notes = [], currentTime, bpm = 120, tempoMap, timeSignature, keySignature, keyRegions, chords, title
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const osmdRef = useRef<OpenSheetMusicDisplay | null>(null);
   const [isReady, setIsReady] = useState(false);
 
-  // Constants
-  const BASE_MEASURE_WIDTH = 220; // Recommended minimum
-  const STAFF_SPACE = 10;
-  
   // Memoize measures for rendering efficiency and to use in axis generation
   const { measures, diagnostics } = useMemo(() => {
-      const result = MusicNotationService.processNotes(notes, bpm);
+      const result = MusicNotationService.processNotes(notes, bpm, { tempoMap, timeSignature, key: keySignature, keyRegions, chords });
       return result;
-  }, [notes, bpm]);
+  }, [notes, bpm, tempoMap, timeSignature, keySignature, keyRegions, chords]);
+
+  // Backend XML wins; otherwise render the local analysis
+  const scoreXML = useMemo(() => {
+      if (musicXML) return musicXML;
+      if (notes.length === 0) return undefined;
+      return MusicNotationService.toMusicXML(measures, { title, bpm, key: keySignature });
+  }, [musicXML, notes.length, measures, title, bpm, keySignature]);
 
   // Logic: Sync scroll to playhead
   useEffect(() => {
@@ -60,10 +71,10 @@ const SheetMusic: React.FC<SheetMusicProps> = ({
 
   // Load XML when available
   useEffect(() => {
-      if (isReady && osmdRef.current && musicXML) {
+      if (isReady && osmdRef.current && scoreXML) {
           const loadScore = async () => {
               try {
-                  await osmdRef.current!.load(musicXML);
+                  await osmdRef.current!.load(scoreXML);
                   osmdRef.current!.render();
 
                   // Reset cursor
@@ -75,7 +86,7 @@ const SheetMusic: React.FC<SheetMusicProps> = ({
           };
           loadScore();
       }
-  }, [isReady, musicXML]);
+  }, [isReady, scoreXML]);
 
   // Sync Cursor logic (Basic implementation)
   // OSMD Cursor is note-based, not time-based continuous.
@@ -0,0 +1,306 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { XIcon, PlayIcon, RefreshIcon } from './Icons';
+import { KeyContext, PitchReading } from '../types';
+import { audioEngine } from '../services/audioEngine';
+import { LiveTranscriptionService } from '../services/liveTranscriptionService';
+import { PitchTrackerService } from '../services/pitchTrackerService';
+import { formatPitch } from '../utils/pitchUtils';
+import { STANDARD_REFERENCE_HZ } from '../utils/tuning';
+import { readIntonation, centsFromTarget, pitchStability, scoreHold, HoldSample, HoldScore } from '../utils/intonation';
+
+interface TunerPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  referenceHz?: number; // A4 the tuner reads against, e.g. the recording's detected tuning
+  voice: string; // Voice for practice targets
+  keySignature?: KeyContext; // Spell note names in the detected key
+}
+
+const HISTORY_SECONDS = 4; // Width of the stability trace
+const STABILITY_SECONDS = 1; // Readings the stability figure is computed over
+const TARGET_TONE_SECONDS = 1.5;
+const ATTEMPT_SECONDS = 5;
+const HOLD_SECONDS = 3; // Unbroken in-tune hold that earns full hold marks
+const TOLERANCE_CENTS = 25;
+const PRACTICE_RANGE: [number, number] = [48, 84]; // C3-C6
+
+type PracticePhase = 'idle' | 'target' | 'singing' | 'done';
+
+// Green when in tune, amber when close, red otherwise
+const centsColor = (cents: number) => Math.abs(cents) <= 5 ? '#22c55e' : Math.abs(cents) <= 15 ? '#f59e0b' : '#ef4444';
+
+const TunerPanel: React.FC<TunerPanelProps> = ({ isOpen, onClose, referenceHz = STANDARD_REFERENCE_HZ, voice, keySignature }) => {
+  const [activeTab, setActiveTab] = useState<'tuner' | 'practice'>('tuner');
+  const [error, setError] = useState<string | null>(null);
+  const [latest, setLatest] = useState<PitchReading | null>(null);
+  const [history, setHistory] = useState<{ time: number; cents: number | null }[]>([]);
+
+  const [targetMidi, setTargetMidi] = useState(69);
+  const [phase, setPhase] = useState<PracticePhase>('idle');
+  const [result, setResult] = useState<HoldScore | null>(null);
+  const phaseRef = useRef<PracticePhase>('idle');
+  const attemptRef = useRef<HoldSample[]>([]);
+  const timersRef = useRef<number[]>([]);
+  // The reading callback outlives renders; it reads the current target through a ref
+  const targetRef = useRef(targetMidi);
+  targetRef.current = targetMidi;
+
+  const noteName = (midi: number) =>
+    formatPitch(midi, { format: 'note_only', accidentalStyle: 'sharp', showOctave: true, key: keySignature }).display;
+
+  const setPracticePhase = (next: PracticePhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  };
+
+  const clearTimers = () => {
+    timersRef.current.forEach(id => clearTimeout(id));
+    timersRef.current = [];
+  };
+
+  // Microphone and pitch tracking run only while the panel is open
+  useEffect(() => {
+    if (!isOpen) return;
+    let stopTracking: (() => void) | null = null;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setError(null);
+
+    const onReading = (reading: PitchReading) => {
+      setLatest(reading);
+      const cents = reading.frequency > 0 ? readIntonation(reading.frequency, referenceHz).cents : null;
+      setHistory(prev => [...prev.filter(h => h.time > reading.time - HISTORY_SECONDS), { time: reading.time, cents }]);
+      if (phaseRef.current === 'singing') {
+        // Practice targets are played at A4 = 440 Hz, so attempts are judged against it too
+        attemptRef.current.push({
+          time: reading.time,
+          cents: reading.frequency > 0 ? centsFromTarget(reading.frequency, targetRef.current) : null
+        });
+      }
+    };
+
+    (async () => {
+      try {
+        await audioEngine.ensureContext();
+        const opened = await LiveTranscriptionService.requestMicrophone();
+        if (cancelled) {
+          // Closed while the permission prompt was up; the cleanup has already run
+          opened.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = opened;
+        stopTracking = PitchTrackerService.start(stream, onReading);
+      } catch (e: unknown) {
+        console.error(e);
+        setError(e instanceof DOMException && e.name === 'NotAllowedError' ? "Microphone permission denied" : "Microphone unavailable");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      stopTracking?.();
+      stream?.getTracks().forEach(track => track.stop());
+      clearTimers();
+      setPracticePhase('idle');
+      setLatest(null);
+      setHistory([]);
+    };
+  }, [isOpen, referenceHz]);
+
+  const playTarget = () => {
+    audioEngine.ensureContext().then(() => audioEngine.playTone(targetMidi, TARGET_TONE_SECONDS, voice));
+  };
+
+  const startAttempt = () => {
+    clearTimers();
+    setResult(null);
+    setPracticePhase('target');
+    playTarget();
+    timersRef.current.push(window.setTimeout(() => {
+      attemptRef.current = [];
+      setPracticePhase('singing');
+    }, (TARGET_TONE_SECONDS + 0.5) * 1000));
+    timersRef.current.push(window.setTimeout(() => {
+      setResult(scoreHold(attemptRef.current, { toleranceCents: TOLERANCE_CENTS, targetSeconds: HOLD_SECONDS }));
+      setPracticePhase('done');
+    }, (TARGET_TONE_SECONDS + 0.5 + ATTEMPT_SECONDS) * 1000));
+  };
+
+  const randomTarget = () => {
+    const [low, high] = PRACTICE_RANGE;
+    setTargetMidi(low + 7 + Math.floor(Math.random() * (high - low - 14)));
+    setResult(null);
+    setPracticePhase('idle');
+  };
+
+  if (!isOpen) return null;
+
+  const voiced = latest !== null && latest.frequency > 0;
+  const practicing = activeTab === 'practice' && phase === 'singing';
+  // In practice the needle shows the distance to the target rather than to the nearest note
+  const needleCents = !voiced ? 0 : practicing
+      ? Math.max(-50, Math.min(50, centsFromTarget(latest!.frequency, targetMidi)))
+      : readIntonation(latest!.frequency, referenceHz).cents;
+  const shownMidi = practicing ? targetMidi : voiced ? readIntonation(latest!.frequency, referenceHz).midi : null;
+
+  const recent = history.filter(h => h.cents !== null && latest && h.time > latest.time - STABILITY_SECONDS).map(h => h.cents!);
+  const stability = pitchStability(recent);
+
+  // Stability trace: cents over the last few seconds, broken where the input was unvoiced
+  const now = latest?.time ?? 0;
+  const trace = history.map((h, i) => {
+    if (h.cents === null) return '';
+    const x = ((h.time - (now - HISTORY_SECONDS)) / HISTORY_SECONDS) * 200;
+    const y = 30 - (h.cents / 50) * 28;
+    return `${i > 0 && history[i - 1].cents !== null ? 'L' : 'M'}${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+  const angle = needleCents * 1.2; // ±50 cents spans ±60 degrees
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative bg-zinc-900 w-full max-w-md rounded-xl border border-zinc-800 shadow-2xl flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800 bg-zinc-900/50">
+          <div className="flex gap-4">
+            <button
+              onClick={() => setActiveTab('tuner')}
+              className={`text-sm font-semibold transition-colors ${activeTab === 'tuner' ? 'text-white border-b-2 border-indigo-500' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              Tuner
+            </button>
+            <button
+              onClick={() => setActiveTab('practice')}
+              className={`text-sm font-semibold transition-colors ${activeTab === 'practice' ? 'text-white border-b-2 border-indigo-500' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              Intonation Practice
+            </button>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+
+          {/* Cents Needle */}
+          <div className="flex flex-col items-center">
+            <div className="text-4xl font-bold text-white h-12">{shownMidi !== null ? noteName(shownMidi) : '–'}</div>
+            <svg viewBox="0 0 200 115" className="w-full max-w-xs">
+              <path d="M 22 100 A 90 90 0 0 1 178 100" fill="none" stroke="#3f3f46" strokeWidth="2" />
+              {[-50, -40, -30, -20, -10, 0, 10, 20, 30, 40, 50].map(c => {
+                const rad = (c * 1.2 - 90) * Math.PI / 180;
+                const inner = c % 50 === 0 ? 74 : 80;
+                return (
+                  <line
+                    key={c}
+                    x1={100 + inner * Math.cos(rad)} y1={110 + inner * Math.sin(rad)}
+                    x2={100 + 88 * Math.cos(rad)} y2={110 + 88 * Math.sin(rad)}
+                    stroke={c === 0 ? '#22c55e' : '#52525b'} strokeWidth={c === 0 ? 2 : 1}
+                  />
+                );
+              })}
+              <line
+                x1="100" y1="110" x2="100" y2="30"
+                stroke={voiced ? centsColor(needleCents) : '#52525b'} strokeWidth="3" strokeLinecap="round"
+                transform={`rotate(${angle} 100 110)`}
+                style={{ transition: 'transform 80ms linear' }}
+              />
+              <circle cx="100" cy="110" r="4" fill="#e4e4e7" />
+            </svg>
+            <div className="flex justify-between w-full max-w-xs text-xs font-mono text-zinc-500 -mt-1">
+              <span>-50¢</span>
+              <span className={voiced ? 'text-zinc-200' : ''}>
+                {voiced ? `${needleCents >= 0 ? '+' : ''}${Math.round(needleCents)}¢ · ${latest!.frequency.toFixed(1)} Hz` : 'Play or sing a note'}
+              </span>
+              <span>+50¢</span>
+            </div>
+          </div>
+
+          {/* Stability over time */}
+          <div>
+            <div className="flex justify-between text-[10px] uppercase font-bold text-zinc-500 mb-1">
+              <span>Stability</span>
+              <span className="font-mono normal-case">
+                {stability ? `${Math.round(stability.stability * 100)}% · ±${stability.spreadCents.toFixed(1)}¢` : '-'}
+              </span>
+            </div>
+            <svg viewBox="0 0 200 60" preserveAspectRatio="none" className="w-full h-14 bg-zinc-950 rounded border border-zinc-800">
+              <line x1="0" y1="30" x2="200" y2="30" stroke="#3f3f46" strokeDasharray="3 3" />
+              <path d={trace} fill="none" stroke="#a5b4fc" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+            </svg>
+            <div className="text-[10px] text-zinc-600 mt-1">
+              A4 = {referenceHz.toFixed(1)} Hz · last {HISTORY_SECONDS}s
+            </div>
+          </div>
+
+          {activeTab === 'practice' && (
+            <div className="space-y-3 pt-4 border-t border-zinc-800">
+              <div className="flex items-center gap-2">
+                <label htmlFor="practice-target" className="text-xs font-medium text-zinc-400">Target</label>
+                <select
+                  id="practice-target"
+                  value={targetMidi}
+                  disabled={phase === 'target' || phase === 'singing'}
+                  onChange={(e) => { setTargetMidi(parseInt(e.target.value, 10)); setResult(null); setPracticePhase('idle'); }}
+                  className="flex-1 bg-zinc-950 border border-zinc-700 rounded-md px-3 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                >
+                  {Array.from({ length: PRACTICE_RANGE[1] - PRACTICE_RANGE[0] + 1 }, (_, i) => PRACTICE_RANGE[0] + i).map(midi => (
+                    <option key={midi} value={midi}>{noteName(midi)}</option>
+                  ))}
+                </select>
+                <button
+                  title="Random target"
+                  onClick={randomTarget}
+                  disabled={phase === 'target' || phase === 'singing'}
+                  className="p-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md border border-zinc-700 disabled:opacity-50"
+                >
+                  <RefreshIcon className="w-4 h-4" />
+                </button>
+                <button
+                  title="Hear the target"
+                  onClick={playTarget}
+                  className="p-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md border border-zinc-700"
+                >
+                  <PlayIcon className="w-4 h-4" />
+                </button>
+              </div>
+
+              <button
+                onClick={startAttempt}
+                disabled={!!error || phase === 'target' || phase === 'singing'}
+                className="w-full py-2 text-sm font-bold rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 transition-colors"
+              >
+                {phase === 'target' ? 'Listen…' : phase === 'singing' ? `Hold ${noteName(targetMidi)}…` : 'Start Attempt'}
+              </button>
+              <p className="text-[10px] text-zinc-500">
+                The target plays, then hold it for {ATTEMPT_SECONDS}s. Any octave counts; within ±{TOLERANCE_CENTS}¢ is in tune.
+              </p>
+
+              {phase === 'done' && result && (
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  <div className="bg-zinc-950 p-3 rounded-lg border border-zinc-800">
+                    <div className="text-[10px] text-zinc-500 uppercase font-bold">Score</div>
+                    <div className="text-2xl font-bold text-white">{result.score}</div>
+                  </div>
+                  <div className="bg-zinc-950 p-3 rounded-lg border border-zinc-800">
+                    <div className="text-[10px] text-zinc-500 uppercase font-bold">Avg Off</div>
+                    <div className="text-2xl font-bold text-white">{result.voicedRatio > 0 ? `${Math.round(result.meanCents)}¢` : '-'}</div>
+                  </div>
+                  <div className="bg-zinc-950 p-3 rounded-lg border border-zinc-800">
+                    <div className="text-[10px] text-zinc-500 uppercase font-bold">Held</div>
+                    <div className="text-2xl font-bold text-white">{result.heldSeconds.toFixed(1)}s</div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TunerPanel;
@@ -40,6 +40,9 @@ export const STYLES = [
     { id: 'waltz', name: 'Waltz', timeSignature: '3/4' }
 ];
 
+// Meters offered for manual override of the detected time signature
+export const TIME_SIGNATURES = ['2/4', '3/4', '4/4', '5/4', '6/8', '7/4', '9/8', '12/8'];
+
 export const GENRES = [
     'Ballad',
     'Pop',
@@ -50,63 +53,131 @@ export const GENRES = [
     'Ambient'
 ];
 
+export interface RhythmStep {
+    beat: number; // 0-based, fractional for off-beats, sixteenths and triplets
+    sound: string; // A registered percussion sound (services/percussion.ts), e.g. 'kick', 'tabla_dha'
+    velocity: number;
+}
+
 export interface RhythmPattern {
     length: number; // in beats
-    steps: {
-        beat: number; // 0-based
-        sound: 'kick' | 'snare' | 'hihat_closed' | 'hihat_open' | 'tabla_dha' | 'tabla_tin' | 'tabla_na' | 'tabla_ge' | 'tabla_ke';
-        velocity: number;
-    }[];
+    steps: RhythmStep[];
+    resolution?: number; // Editor grid in steps per beat (2 = eighths, 3 = triplets, 4 = sixteenths); inferred when absent
+    variations?: RhythmStep[][]; // Alternate bars, played in turn with the main steps
+    fill?: RhythmStep[]; // Replaces the bar that closes every `fillEvery` bars
+    fillEvery?: number; // Default 4
 }
 
+// A pattern made in the editor, stored with the history
+export interface CustomRhythmPattern extends RhythmPattern {
+    id: string;
+    name: string;
+    updated: string; // ISO string
+}
+
+// Taal structure for sargam notation: vibhag (section) lengths in matras and the mark written
+// under each vibhag (X = sam, 0 = khali, numbers = tali)
+export interface Taal {
+    name: string;
+    matras: number;
+    vibhags: number[];
+    marks: string[];
+    matraBeats: number; // Quarter notes per matra: 0.5 for taals counted in eighths, matching their 6/8 style
+}
+
+export const TAALS: Record<string, Taal> = {
+    'teen_taal': { name: 'Teen Taal', matras: 16, vibhags: [4, 4, 4, 4], marks: ['X', '2', '0', '3'], matraBeats: 1 },
+    'dadra': { name: 'Dadra', matras: 6, vibhags: [3, 3], marks: ['X', '0'], matraBeats: 0.5 },
+    'keherwa': { name: 'Keherwa', matras: 8, vibhags: [4, 4], marks: ['X', '0'], matraBeats: 1 },
+    'rupak': { name: 'Rupak', matras: 7, vibhags: [3, 2, 2], marks: ['0', '1', '2'], matraBeats: 1 }, // Sam falls on khali
+    'bhajan': { name: 'Bhajani', matras: 8, vibhags: [4, 4], marks: ['X', '0'], matraBeats: 1 },
+};
+
+// Tabla theka from bols, one per matra: '-' rests, 'te.te' splits a matra evenly. Sam is
+// accented and the strokes inside a split matra are played lighter.
+const theka = (bols: string): RhythmStep[] => {
+    const steps: RhythmStep[] = [];
+    bols.split(/\s+/).filter(m => m && m !== '|').forEach((matra, i) => {
+        const strokes = matra.split('.');
+        strokes.forEach((bol, j) => {
+            if (bol === '-') return;
+            steps.push({ beat: i + j / strokes.length, sound: `tabla_${bol}`, velocity: i === 0 && j === 0 ? 1.0 : j === 0 ? 0.8 : 0.6 });
+        });
+    });
+    return steps;
+};
+
+// One sound at each of `beats`
+const hits = (sound: string, beats: number[], velocity: number): RhythmStep[] => beats.map(beat => ({ beat, sound, velocity }));
+
+// Beats 0, 1/n, 2/n ... up to `length`
+const grid = (length: number, perBeat: number, from = 0): number[] =>
+    Array.from({ length: Math.round((length - from) * perBeat) }, (_, i) => from + i / perBeat);
+
 export const RHYTHM_PATTERNS: Record<string, RhythmPattern> = {
+    'none': {
+        length: 4,
+        steps: [...hits('click', [0], 1.0), ...hits('click', [1, 2, 3], 0.5)]
+    },
     'teen_taal': {
         length: 16,
-        steps: [
-            { beat: 0, sound: 'tabla_dha', velocity: 1.0 }, // Dha
-            { beat: 1, sound: 'tabla_dha', velocity: 0.8 }, // Dhin
-            { beat: 2, sound: 'tabla_dha', velocity: 0.8 }, // Dhin
-            { beat: 3, sound: 'tabla_dha', velocity: 1.0 }, // Dha
-            { beat: 4, sound: 'tabla_dha', velocity: 1.0 }, // Dha
-            { beat: 5, sound: 'tabla_dha', velocity: 0.8 }, // Dhin
-            { beat: 6, sound: 'tabla_dha', velocity: 0.8 }, // Dhin
-            { beat: 7, sound: 'tabla_dha', velocity: 1.0 }, // Dha
-            { beat: 8, sound: 'tabla_dha', velocity: 1.0 }, // Dha
-            { beat: 9, sound: 'tabla_tin', velocity: 0.8 }, // Tin
-            { beat: 10, sound: 'tabla_tin', velocity: 0.8 }, // Tin
-            { beat: 11, sound: 'tabla_na', velocity: 0.9 }, // Na
-            { beat: 12, sound: 'tabla_na', velocity: 0.9 }, // Ta
-            { beat: 13, sound: 'tabla_dha', velocity: 0.8 }, // Dhin
-            { beat: 14, sound: 'tabla_dha', velocity: 0.8 }, // Dhin
-            { beat: 15, sound: 'tabla_dha', velocity: 1.0 }, // Dha
-        ]
+        resolution: 4,
+        steps: theka('dha dhin dhin dha | dha dhin dhin dha | dha tin tin ta | ta dhin dhin dha'),
+        variations: [theka('dha dhin.na dhin dha | dha dhin.na dhin dha | dha tin.na tin ta | ta dhin.na dhin dha')],
+        fill: theka('dha dhin dhin dha | dha dhin dhin dha | dha tin tin ta | te.te.ke.ta dha te.te dha')
     },
     'dadra': {
         length: 6,
-        steps: [
-            { beat: 0, sound: 'tabla_dha', velocity: 1.0 },
-            { beat: 1, sound: 'tabla_dha', velocity: 0.7 }, // Dhin
-            { beat: 2, sound: 'tabla_na', velocity: 0.8 },
-            { beat: 3, sound: 'tabla_dha', velocity: 1.0 },
-            { beat: 4, sound: 'tabla_tin', velocity: 0.7 },
-            { beat: 5, sound: 'tabla_na', velocity: 0.8 },
-        ]
+        resolution: 2,
+        steps: theka('dha dhin na | dha tin na'),
+        variations: [theka('dha dhin.dhin na | dha tin.tin na')],
+        fill: theka('dha dhin na | dha.te te.te dha')
     },
     'keherwa': {
         length: 8,
-        steps: [
-            { beat: 0, sound: 'tabla_dha', velocity: 1.0 },
-            { beat: 1, sound: 'tabla_ge', velocity: 0.7 },
-            { beat: 2, sound: 'tabla_na', velocity: 0.8 },
-            { beat: 3, sound: 'tabla_tin', velocity: 0.7 },
-            { beat: 4, sound: 'tabla_na', velocity: 0.8 },
-            { beat: 5, sound: 'tabla_ke', velocity: 0.6 },
-            { beat: 6, sound: 'tabla_dha', velocity: 0.9 },
-            { beat: 7, sound: 'tabla_ge', velocity: 0.7 },
-        ]
+        resolution: 4,
+        steps: theka('dha ge na te | na ke dhin na'),
+        variations: [theka('dha ge.ge na te | na ke dhin.na na')],
+        fill: theka('dha ge na te | te.te.ke.ta dha te.te dha')
+    },
+    'rupak': {
+        length: 7,
+        resolution: 6,
+        steps: theka('tin tin na | dhi na | dhi na'),
+        variations: [theka('tin tin.na na | dhi na.na | dhi na')],
+        fill: theka('tin tin na | dhi na | dha.te.te dha')
+    },
+    'bhajan': {
+        length: 8,
+        resolution: 4,
+        steps: theka('dhin - na dhin | dhin na tin na'),
+        variations: [theka('dhin na.na na dhin | dhin na tin.na na')],
+        fill: theka('dhin - na dhin | te.te.ke.ta dha te.te dha')
+    },
+    'garba': {
+        length: 6,
+        resolution: 4,
+        steps: [...hits('dhol_dagga', [0], 1.0), ...hits('dhol_dagga', [3], 0.9), ...hits('dhol_dagga', [5], 0.7), ...hits('dhol_tilli', [1, 2, 4], 0.6), ...hits('clap', [0, 3], 0.5)],
+        variations: [[...hits('dhol_dagga', [0], 1.0), ...hits('dhol_dagga', [2.5, 5], 0.7), ...hits('dhol_dagga', [3], 0.9), ...hits('dhol_tilli', [1, 2, 4], 0.6), ...hits('clap', [0, 3], 0.5)]],
+        fill: [...hits('dhol_dagga', [0], 1.0), ...hits('dhol_tilli', [1, 2], 0.6), ...hits('dhol_tilli', grid(6, 4, 3), 0.7), ...hits('dhol_dagga', [3, 5.5], 0.9)]
+    },
+    'dandiya': {
+        length: 4,
+        resolution: 2,
+        steps: [...hits('dhol_dagga', [0, 2], 1.0), ...hits('dhol_dagga', [2.5], 0.7), ...hits('dhol_tilli', [0.5, 1.5, 3.5], 0.6), ...hits('rimshot', [1, 3], 0.8)],
+        variations: [[...hits('dhol_dagga', [0, 2], 1.0), ...hits('dhol_dagga', [2.5], 0.7), ...hits('dhol_tilli', [0.5, 3.5], 0.6), ...hits('rimshot', [1, 1.5, 3], 0.8)]],
+        fill: [...hits('dhol_dagga', [0, 3], 1.0), ...hits('dhol_tilli', [0.5, 1.5], 0.6), ...hits('rimshot', [1], 0.8), ...hits('rimshot', grid(4, 2, 2), 0.9)]
+    },
+    'bhangra': {
+        length: 4,
+        resolution: 4,
+        steps: [...hits('dhol_dagga', [0], 1.0), ...hits('dhol_dagga', [1.5, 3.5], 0.8), ...hits('dhol_dagga', [2], 0.9), ...hits('dhol_tilli', [0.5, 1, 1.75, 2.5, 3, 3.75], 0.7)],
+        variations: [[...hits('dhol_dagga', [0], 1.0), ...hits('dhol_dagga', [1.5, 2.75, 3.5], 0.8), ...hits('dhol_dagga', [2], 0.9), ...hits('dhol_tilli', [0.5, 1, 1.75, 2.5, 3, 3.75], 0.7)]],
+        fill: [...hits('dhol_dagga', [0, 2, 2.5, 3], 1.0), ...hits('dhol_tilli', [0.5, 1, 1.5], 0.7), ...hits('dhol_tilli', grid(4, 4, 3), 0.8), ...hits('dhol_dagga', [3.5], 0.9)]
     },
     'pop_8beat': {
         length: 4,
+        resolution: 4,
         steps: [
             { beat: 0, sound: 'kick', velocity: 1.0 },
             { beat: 0.5, sound: 'hihat_closed', velocity: 0.6 },
@@ -116,6 +187,74 @@ export const RHYTHM_PATTERNS: Record<string, RhythmPattern> = {
             { beat: 2.5, sound: 'hihat_closed', velocity: 0.6 },
             { beat: 3, sound: 'snare', velocity: 0.9 },
             { beat: 3.5, sound: 'hihat_open', velocity: 0.7 },
-        ]
+        ],
+        variations: [[...hits('kick', [0, 2], 1.0), ...hits('kick', [2.5], 0.8), ...hits('snare', [1, 3], 0.9), ...hits('hihat_closed', [0.5, 1.5, 2.5], 0.6), ...hits('hihat_open', [3.5], 0.7)]],
+        fill: [...hits('kick', [0, 2], 1.0), ...hits('snare', [1], 0.9), ...hits('hihat_closed', [0.5, 1.5, 2.5], 0.6), { beat: 3, sound: 'snare', velocity: 0.6 }, { beat: 3.25, sound: 'snare', velocity: 0.7 }, { beat: 3.5, sound: 'snare', velocity: 0.85 }, { beat: 3.75, sound: 'snare', velocity: 1.0 }]
+    },
+    'rock_standard': {
+        length: 4,
+        resolution: 4,
+        steps: [...hits('kick', [0, 2, 2.5], 1.0), ...hits('snare', [1, 3], 1.0), ...hits('hihat_closed', [0, 1, 2, 3], 0.8), ...hits('hihat_closed', [0.5, 1.5, 2.5, 3.5], 0.55)],
+        variations: [[...hits('crash', [0], 0.9), ...hits('kick', [0, 2, 2.5], 1.0), ...hits('snare', [1, 3], 1.0), ...hits('hihat_closed', [1, 2, 3], 0.8), ...hits('hihat_closed', [0.5, 1.5, 2.5, 3.5], 0.55)]],
+        fill: [...hits('kick', [0], 1.0), ...hits('snare', [1], 1.0), ...hits('hihat_closed', [0, 0.5, 1, 1.5], 0.7), ...hits('tom_high', grid(3, 4, 2), 0.9), ...hits('tom_low', [3, 3.25, 3.5], 0.95), ...hits('snare', [3.75], 1.0)]
+    },
+    'disco': {
+        length: 4,
+        resolution: 4,
+        steps: [...hits('kick', [0, 1, 2, 3], 1.0), ...hits('clap', [1, 3], 0.8), ...hits('hihat_open', [0.5, 1.5, 2.5, 3.5], 0.6), ...hits('hihat_closed', [0, 1, 2, 3], 0.4)],
+        variations: [[...hits('kick', [0, 1, 2, 3], 1.0), ...hits('clap', [1, 3], 0.8), ...hits('hihat_open', [0.5, 1.5, 2.5, 3.5], 0.6), ...hits('hihat_closed', [0.25, 0.75, 1.25, 1.75, 2.25, 2.75, 3.25, 3.75], 0.35)]],
+        fill: [...hits('kick', [0, 1, 2, 3], 1.0), ...hits('clap', [1], 0.8), ...hits('hihat_open', [0.5, 1.5, 2.5], 0.6), ...hits('snare', grid(4, 4, 3), 0.85)]
+    },
+    // Written on triplets: the ride's skip note falls on the last third of the beat
+    'swing': {
+        length: 4,
+        resolution: 3,
+        steps: [...hits('ride', [0, 1, 2, 3], 0.7), ...hits('ride', [5 / 3, 11 / 3], 0.5), ...hits('hihat_closed', [1, 3], 0.6), ...hits('kick', [0, 1, 2, 3], 0.3)],
+        variations: [[...hits('ride', [0, 1, 2, 3], 0.7), ...hits('ride', [5 / 3, 11 / 3], 0.5), ...hits('hihat_closed', [1, 3], 0.6), ...hits('kick', [0, 1, 2, 3], 0.3), ...hits('snare', [8 / 3], 0.45)]],
+        fill: [...hits('ride', [0, 1, 2], 0.7), ...hits('ride', [5 / 3], 0.5), ...hits('hihat_closed', [1], 0.6), ...hits('kick', [0, 1, 2], 0.3), ...hits('snare', [3, 10 / 3, 11 / 3], 0.8), ...hits('tom_low', [8 / 3], 0.7)]
+    },
+    'waltz': {
+        length: 3,
+        resolution: 2,
+        steps: [...hits('kick', [0], 1.0), ...hits('hihat_closed', [1, 2], 0.6), ...hits('snare', [1, 2], 0.35)],
+        variations: [[...hits('kick', [0], 1.0), ...hits('ride', [1, 2], 0.5), ...hits('hihat_closed', [1.5, 2.5], 0.4), ...hits('snare', [1, 2], 0.35)]],
+        fill: [...hits('kick', [0], 1.0), ...hits('hihat_closed', [1], 0.6), ...hits('tom_high', [2], 0.8), ...hits('tom_low', [2.5], 0.85)]
+    }
+};
+
+// Groove: how a straight grid is pushed and accented in playback. Swing warps time inside
+// each swung pair; offsets and accents then apply per grid step, repeating every
+// offsets.length (accents.length) steps.
+export interface GrooveTemplate {
+    id: string;
+    name: string;
+    swing: number; // Share of each swung pair its first half takes: 0.5 straight, 0.667 triplet swing
+    swingUnit: number; // Beats per swung pair: 1 swings eighths, 0.5 sixteenths
+    resolution: number; // Steps per beat that offsets and accents are laid out on
+    offsets: number[]; // Timing per step in beats, positive = late
+    accents: number[]; // Velocity multiplier per step
+}
+
+export const GROOVE_TEMPLATES: Record<string, GrooveTemplate> = {
+    'straight': { id: 'straight', name: 'Straight', swing: 0.5, swingUnit: 1, resolution: 1, offsets: [0], accents: [1] },
+    'swing_light': { id: 'swing_light', name: 'Light Swing (58%)', swing: 0.58, swingUnit: 1, resolution: 1, offsets: [0], accents: [1] },
+    'swing_medium': { id: 'swing_medium', name: 'Medium Swing (62%)', swing: 0.62, swingUnit: 1, resolution: 1, offsets: [0], accents: [1] },
+    'swing_triplet': { id: 'swing_triplet', name: 'Triplet Swing (67%)', swing: 0.667, swingUnit: 1, resolution: 2, offsets: [0], accents: [1, 0.8] },
+    'swing_16': { id: 'swing_16', name: 'Sixteenth Swing (57%)', swing: 0.57, swingUnit: 0.5, resolution: 4, offsets: [0], accents: [1, 0.75, 0.9, 0.75] },
+    'laid_back': {
+        id: 'laid_back', name: 'Laid Back', swing: 0.54, swingUnit: 1, resolution: 1,
+        offsets: [0, 0.04, 0.01, 0.04], // Backbeats drag
+        accents: [1, 0.95, 0.9, 0.95]
+    },
+    'push': {
+        id: 'push', name: 'Pushed', swing: 0.5, swingUnit: 1, resolution: 2,
+        offsets: [0, -0.03], // Off-beats anticipate
+        accents: [1, 0.85]
+    },
+    'backbeat': { id: 'backbeat', name: 'Backbeat Accent', swing: 0.5, swingUnit: 1, resolution: 1, offsets: [0], accents: [0.9, 1.1, 0.9, 1.1] },
+    'theka_lilt': {
+        id: 'theka_lilt', name: 'Theka Lilt', swing: 0.55, swingUnit: 1, resolution: 2,
+        offsets: [0, 0, 0.015, 0],
+        accents: [1.1, 0.85, 1, 0.85]
     }
 };
@@ -0,0 +1,122 @@
+import { NoteEvent, AnalysisMode, AnalysisResult, AnalysisWorkerRequest, AnalysisWorkerResponse } from '../types';
+import { audioEngine } from './audioEngine';
+
+export interface AnalysisJobOptions {
+  mode?: AnalysisMode;
+  startTime?: number;
+  duration?: number;
+  onProgress?: (progress: number) => void; // 0-1
+  onPartial?: (notes: NoteEvent[]) => void;
+}
+
+export interface AnalysisJob {
+  promise: Promise<AnalysisResult>;
+  cancel: () => void;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const listeners = new Map<number, (message: AnalysisWorkerResponse) => void>();
+
+const getWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  if (!worker) {
+    try {
+      worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+        listeners.get(event.data.jobId)?.(event.data);
+      };
+    } catch (e) {
+      console.warn("Analysis worker unavailable, falling back to main thread", e);
+      return null;
+    }
+  }
+  return worker;
+};
+
+const cancelledError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+// True for the rejection of a cancelled job
+export const isAbortError = (e: unknown): boolean => e instanceof DOMException && e.name === 'AbortError';
+
+export const AnalysisWorkerService = {
+  /**
+   * Analyze an AudioBuffer in a dedicated worker. Channel data is copied and transferred.
+   * Cancelling rejects the promise with an AbortError.
+   */
+  analyze(buffer: AudioBuffer, options: AnalysisJobOptions = {}): AnalysisJob {
+    const mode = options.mode ?? 'monophonic';
+    const startTime = options.startTime ?? 0;
+    const duration = options.duration ?? buffer.duration - startTime;
+    const w = getWorker();
+
+    if (!w) {
+      // No worker support: run synchronously (blocks the UI, but still completes)
+      let cancelled = false;
+      const promise = new Promise<AnalysisResult>((resolve, reject) => {
+        setTimeout(() => {
+          if (cancelled) return reject(cancelledError());
+          try {
+            const result = audioEngine.analyzeChannelData(buffer.getChannelData(0), buffer.sampleRate, startTime, duration, mode);
+            options.onProgress?.(1);
+            resolve(result);
+          } catch (e) {
+            reject(e);
+          }
+        }, 0);
+      });
+      return { promise, cancel: () => { cancelled = true; } };
+    }
+
+    const jobId = nextJobId++;
+    let rejectJob: (reason: unknown) => void = () => {};
+
+    const promise = new Promise<AnalysisResult>((resolve, reject) => {
+      rejectJob = reject;
+      listeners.set(jobId, message => {
+        switch (message.type) {
+          case 'progress':
+            options.onProgress?.(message.progress);
+            break;
+          case 'partial':
+            options.onPartial?.(message.notes);
+            break;
+          case 'done':
+            listeners.delete(jobId);
+            resolve(message.result);
+            break;
+          case 'cancelled':
+            listeners.delete(jobId);
+            reject(cancelledError());
+            break;
+          case 'error':
+            listeners.delete(jobId);
+            reject(new Error(message.message));
+            break;
+        }
+      });
+    });
+
+    const channelData = buffer.getChannelData(0).slice(); // Copy: AudioBuffer memory must not be detached
+    const request: AnalysisWorkerRequest = {
+      type: 'analyze',
+      jobId,
+      channelData,
+      sampleRate: buffer.sampleRate,
+      startTime,
+      duration,
+      mode
+    };
+    w.postMessage(request, [channelData.buffer]);
+
+    return {
+      promise,
+      cancel: () => {
+        if (!listeners.has(jobId)) return;
+        listeners.delete(jobId);
+        w.postMessage({ type: 'cancel', jobId } as AnalysisWorkerRequest);
+        rejectJob(cancelledError());
+      }
+    };
+  }
+};
@@ -1,11 +1,61 @@
 
 
-import { RhythmPattern } from '../components/constants';
-import { NoteEvent } from '../types';
+import { RhythmPattern, GrooveTemplate, GROOVE_TEMPLATES } from '../components/constants';
+import { NoteEvent, AnalysisMode, AnalysisResult, TempoEstimate, TempoMap, MeterEstimate, KeyEstimate, KeyRegion, ChordEvent, TuningEstimate, PitchContour, SoundFontInfo, MixerChannel, MixerSettings } from '../types';
+import { hannWindow, magnitudeSpectrum } from '../utils/fft';
+import { logCompress, spectralFlux, pickOnsets } from '../utils/onsetDetection';
+import { estimateMultiPitch, PitchCandidate } from '../utils/multiPitch';
+import { trackBeats } from '../utils/beatTracking';
+import { beatAccents, detectMeter } from '../utils/meterDetection';
+import { tempoMapFromBeats, secondsToBeats, beatsToSeconds } from '../utils/tempoMap';
+import { estimateKey, trackKeyRegions, keyAt, pitchClassProfile, PitchClassObservation } from '../utils/keyDetection';
+import { spectralChroma, recognizeChords } from '../utils/chordRecognition';
+import { estimateTonic } from '../utils/sargam';
+import { annotateOrnaments } from '../utils/pitchContour';
+import { estimateTuning, frequencyToMidi, STANDARD_REFERENCE_HZ, STANDARD_TUNING, MIN_TUNING_CONFIDENCE, TuningObservation } from '../utils/tuning';
+import { getVoice, registerVoice, unregisterVoice } from './voiceRegistry';
+import { soundFontVoice, soundFontVoiceId } from './soundFontPlayer';
+import { getPercussion, tablaTuning, PercussionTuning } from './percussion';
+import { patternBar } from '../utils/rhythmPatterns';
+import { grooveStep, grooveNotes, createHumanizer, Humanize, Humanizer } from '../utils/groove';
+import { parseSoundFont, SoundFont } from '../utils/soundFont';
+
+export interface AnalysisFrame {
+  time: number;
+  frequency: number; // 0 = unvoiced
+  confidence: number;
+  rms: number;
+  isOnset?: boolean;
+  pitches?: PitchCandidate[]; // Polyphonic mode only
+  chroma?: number[]; // 12-bin spectral chroma (C = 0), for chord recognition
+}
+
+// Output of the frame-extraction pass, consumed by finalizeAnalysis
+export interface FrameAnalysis {
+  frames: AnalysisFrame[];
+  novelty: number[]; // Spectral flux per frame
+  sampleRate: number;
+  hopSize: number;
+  windowSize: number;
+  mode: AnalysisMode;
+  startTime: number;
+  lastSpectrum: Float32Array | null;
+  nextSample: number; // Absolute sample index where the next block's first frame starts
+}
+
+// One mixer channel: its dry signal through pan to the master, and a reverb send that follows
+// the same level so a muted channel leaves no tail
+interface ChannelStrip {
+  input: GainNode;
+  send: GainNode;
+  panner: StereoPannerNode;
+}
 
-// Krumhansl-Schmuckler Key-Finding Profiles
-const PROFILE_MAJOR = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
-const PROFILE_MINOR = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+const MIXER_RAMP_SECONDS = 0.02; // Level changes glide over this to avoid clicks
+const MASTER_LEVEL = 0.8;
+// The recording played straight to the speakers before it had a channel; its strip makes up the
+// master's cut so it is no quieter through the mixer
+const CHANNEL_MAKEUP: Record<MixerChannel, number> = { original: 1 / MASTER_LEVEL, synth: 1, rhythm: 1 };
 
 export class AudioEngine {
   private audioContext: AudioContext | null = null;
@@ -13,17 +63,24 @@ export class AudioEngine {
   private source: MediaElementAudioSourceNode | null = null;
   private dataArray: Uint8Array | null = null;
   private connectedElements = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
-  private activeOscillators = new Set<OscillatorNode | AudioBufferSourceNode>();
+  private activeOscillators = new Set<AudioScheduledSourceNode>();
   private reverbNode: ConvolverNode | null = null;
   private masterGain: GainNode | null = null;
+  private soundFont: SoundFont | null = null;
+  private channels: Partial<Record<MixerChannel, ChannelStrip>> = {};
 
   // Rhythm Engine
-  private nextNoteTime: number = 0;
-  private currentBeatIndex: number = 0;
+  private rhythmStartTime: number = 0; // Context time of beat 0
+  private scheduledBeat: number = 0; // Beats since the start scheduled so far
+  private barOrigin: number = 0; // Beat where bar 0 of the current pattern began
   private rhythmTimerID: number | null = null;
   private isRhythmPlaying: boolean = false;
   private currentPattern: RhythmPattern | null = null;
   private currentBpm: number = 120;
+  private percussionTuning: PercussionTuning = tablaTuning(60);
+  private groove: GrooveTemplate = GROOVE_TEMPLATES['straight'];
+  private humanize: Humanize | null = null;
+  private rhythmHumanizer: Humanizer | null = null; // Restarted with each rhythm playback
 
   constructor() {
     if (typeof window !== 'undefined') {
@@ -37,7 +94,7 @@ export class AudioEngine {
         
         // Master Bus Setup
         this.masterGain = this.audioContext.createGain();
-        this.masterGain.gain.value = 0.8;
+        this.masterGain.gain.value = MASTER_LEVEL;
         
         // Create Reverb
         this.reverbNode = this.audioContext.createConvolver();
@@ -50,6 +107,18 @@ export class AudioEngine {
         this.masterGain.connect(this.audioContext.destination);
         this.reverbNode.connect(reverbGain);
         reverbGain.connect(this.masterGain);
+
+        // Mixer channels into the master: the original recording, the transcription, the rhythm
+        (['original', 'synth', 'rhythm'] as MixerChannel[]).forEach(channel => {
+          const context = this.audioContext!;
+          const input = context.createGain();
+          const send = context.createGain();
+          const panner = context.createStereoPanner();
+          input.gain.value = CHANNEL_MAKEUP[channel];
+          input.connect(panner).connect(this.masterGain!);
+          send.connect(this.reverbNode!);
+          this.channels[channel] = { input, send, panner };
+        });
       }
     }
   }
@@ -107,7 +176,8 @@ export class AudioEngine {
         try {
           existingSource.disconnect();
           existingSource.connect(this.analyser);
-          this.analyser.connect(this.audioContext.destination);
+          this.analyser.disconnect();
+          this.analyser.connect(this.channels.original?.input ?? this.audioContext.destination);
         } catch (e) {}
       }
       return;
@@ -116,7 +186,8 @@ export class AudioEngine {
     try {
       const source = this.audioContext.createMediaElementSource(element);
       source.connect(this.analyser);
-      this.analyser.connect(this.audioContext.destination);
+      this.analyser.disconnect();
+      this.analyser.connect(this.channels.original?.input ?? this.audioContext.destination);
       this.connectedElements.set(element, source);
       this.source = source;
     } catch (e) {
@@ -130,8 +201,11 @@ export class AudioEngine {
     return this.dataArray;
   }
 
-  playTone(midiPitch: number, duration: number = 0.5, voice: string = 'piano') {
-    if (!this.audioContext || !this.masterGain || !this.reverbNode || !isFinite(midiPitch) || duration <= 0) return;
+  // `startAt` (AudioContext seconds) schedules the note ahead of time; default is immediately.
+  // Notes given a mixer `channel` play through it, others straight to the master. Returns the
+  // sources started, so a caller can cut its own notes short.
+  playTone(midiPitch: number, duration: number = 0.5, voice: string = 'piano', startAt?: number, velocity: number = 0.7, channel?: MixerChannel): AudioScheduledSourceNode[] {
+    if (!this.audioContext || !this.masterGain || !this.reverbNode || !isFinite(midiPitch) || duration <= 0) return [];
     
     // IMPORTANT: Context must be running. We assume ensureContext() was called by the click handler.
     // If not, we try to resume, but it might not work in some browsers if not triggered by user.
@@ -139,140 +213,155 @@ export class AudioEngine {
         this.audioContext.resume().catch(() => {});
     }
 
-    const now = this.audioContext.currentTime;
+    const now = Math.max(this.audioContext.currentTime, startAt ?? 0);
     const frequency = 440 * Math.pow(2, (midiPitch - 69) / 12);
-    
-    // Note Node Setup
+    const definition = getVoice(voice);
+
+    // Note bus: dry to the master, wet through the voice's send to the reverb
+    const strip = channel && this.channels[channel];
     const noteGain = this.audioContext.createGain();
-    
-    // Send to Master (Dry) and Reverb (Wet)
-    noteGain.connect(this.masterGain);
-    noteGain.connect(this.reverbNode);
-
-    // Simulating Piano Physics
-    // 1. Hammer Strike (Harder strike = brighter tone)
-    // We simulate velocity based on pitch (higher notes are often played lighter/piercingly, lower heavier)
-    const velocity = 0.7; 
-
-    // 2. Dynamic Low Pass Filter (Simulate string dampening)
-    const filter = this.audioContext.createBiquadFilter();
-    filter.type = 'lowpass';
-    // Key tracking: Higher notes need higher cutoff
-    // Velocity tracking: Harder hits open the filter
-    const cutoff = frequency * (2 + (velocity * 3)); 
-    filter.frequency.setValueAtTime(cutoff, now);
-    filter.frequency.exponentialRampToValueAtTime(cutoff * 0.5, now + duration); // Filter closes as note decays
-    filter.connect(noteGain);
-
-    // 3. Envelope (ADSR)
-    // Piano has sharp attack, immediate decay to sustain, then long release
-    noteGain.gain.setValueAtTime(0, now);
-    noteGain.gain.linearRampToValueAtTime(velocity, now + 0.01); // Attack
-    noteGain.gain.exponentialRampToValueAtTime(velocity * 0.6, now + 0.1); // Decay to Sustain
-    noteGain.gain.exponentialRampToValueAtTime(0.001, now + duration + 0.5); // Release tail
-
-    // 4. Oscillators (Detuned Strings)
-    // Pianos have 2-3 strings per key, slightly detuned for chorus/warmth
-    const osc1 = this.audioContext.createOscillator();
-    const osc2 = this.audioContext.createOscillator();
-    const osc3 = this.audioContext.createOscillator(); // Sub-harmonics for body
-
-    osc1.type = 'triangle'; // Smoother base
-    osc2.type = 'sawtooth'; // Brightness
-    osc3.type = 'sine';     // Fundamental body
-
-    osc1.frequency.value = frequency;
-    osc2.frequency.value = frequency;
-    osc3.frequency.value = frequency;
-
-    // Detuning (Cents)
-    osc1.detune.value = -3;
-    osc2.detune.value = 3; 
-
-    // Mix Oscillators
-    const osc1Gain = this.audioContext.createGain(); osc1Gain.gain.value = 0.5;
-    const osc2Gain = this.audioContext.createGain(); osc2Gain.gain.value = 0.2; // Sawtooth is loud, mix lower
-    const osc3Gain = this.audioContext.createGain(); osc3Gain.gain.value = 0.4;
-
-    osc1.connect(osc1Gain).connect(filter);
-    osc2.connect(osc2Gain).connect(filter);
-    osc3.connect(osc3Gain).connect(filter);
-
-    osc1.start(now);
-    osc2.start(now);
-    osc3.start(now);
-
-    const stopTime = now + duration + 0.5;
-    osc1.stop(stopTime);
-    osc2.stop(stopTime);
-    osc3.stop(stopTime);
-
-    // 5. Hammer Noise (Thump at start)
-    const bufferSize = this.audioContext.sampleRate * 0.02; // 20ms
-    const buffer = this.audioContext.createBuffer(1, bufferSize, this.audioContext.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) data[i] = Math.random() * 2 - 1;
-    
-    const noise = this.audioContext.createBufferSource();
-    noise.buffer = buffer;
-    const noiseGain = this.audioContext.createGain();
-    noiseGain.gain.value = 0.15;
-    const noiseFilter = this.audioContext.createBiquadFilter();
-    noiseFilter.type = 'lowpass';
-    noiseFilter.frequency.value = 800;
-    
-    noise.connect(noiseFilter).connect(noiseGain).connect(noteGain);
-    noise.start(now);
+    noteGain.connect(strip ? strip.input : this.masterGain);
+    const reverbSend = this.audioContext.createGain();
+    reverbSend.gain.value = definition.reverbSend ?? 1;
+    noteGain.connect(reverbSend).connect(strip ? strip.send : this.reverbNode);
+
+    const sources = definition.play({
+      context: this.audioContext,
+      output: noteGain,
+      frequency,
+      startTime: now,
+      duration,
+      velocity
+    });
+
+    // Free the bus once every source the voice started has finished
+    let remaining = sources.length;
+    sources.forEach(source => {
+      this.activeOscillators.add(source);
+      source.onended = () => {
+        this.activeOscillators.delete(source);
+        if (--remaining === 0) noteGain.disconnect();
+      };
+    });
+    return sources;
+  }
 
-    this.activeOscillators.add(osc1);
-    this.activeOscillators.add(osc2);
-    this.activeOscillators.add(osc3);
-    
-    const cleanup = () => {
-        this.activeOscillators.delete(osc1);
-        this.activeOscillators.delete(osc2);
-        this.activeOscillators.delete(osc3);
+  // A transcribed note, at its own velocity
+  playNote(note: NoteEvent, voice: string = 'piano', startAt?: number, channel?: MixerChannel): AudioScheduledSourceNode[] {
+    return this.playTone(note.midi_pitch, note.duration, voice, startAt, note.velocity, channel);
+  }
+
+  /**
+   * Load an SF2 bank as the sample backend: each of its presets is registered as a voice
+   * (`sf2:<bank>:<program>`) alongside the synthesized ones, replacing any bank loaded before.
+   */
+  loadSoundFont(data: ArrayBuffer): SoundFontInfo {
+    const font = parseSoundFont(data);
+    if (font.presets.length === 0) throw new Error("SoundFont has no playable presets");
+    this.unloadSoundFont();
+    font.presets.forEach(preset => registerVoice(soundFontVoice(font, preset)));
+    this.soundFont = font;
+    return this.soundFontInfo!;
+  }
+
+  unloadSoundFont() {
+    this.soundFont?.presets.forEach(preset => unregisterVoice(soundFontVoiceId(preset)));
+    this.soundFont = null;
+  }
+
+  get soundFontInfo(): SoundFontInfo | null {
+    if (!this.soundFont) return null;
+    return {
+      name: this.soundFont.name,
+      presets: this.soundFont.presets.map(p => ({ voiceId: soundFontVoiceId(p), name: p.name, bank: p.bank, program: p.program }))
     };
-    osc1.onended = cleanup;
   }
 
-  playDrumSound(sound: string, velocity: number) {
-      if (!this.audioContext || !this.masterGain) return;
-      const t = this.audioContext.currentTime;
-      const osc = this.audioContext.createOscillator();
-      const gain = this.audioContext.createGain();
-      
-      gain.connect(this.masterGain);
-      
-      gain.gain.setValueAtTime(velocity, t);
-      gain.gain.exponentialRampToValueAtTime(0.01, t + 0.1);
-      
-      if (sound === 'kick') {
-          osc.frequency.setValueAtTime(150, t);
-          osc.frequency.exponentialRampToValueAtTime(50, t + 0.1);
-      } else {
-          osc.type = 'square';
-          osc.frequency.setValueAtTime(200, t);
-          gain.gain.value = velocity * 0.3;
+  // `startAt` (AudioContext seconds) schedules the stroke ahead of time; unknown sounds are
+  // silent. Strokes play through the rhythm channel of the mixer.
+  playDrumSound(sound: string, velocity: number, startAt?: number): AudioScheduledSourceNode[] {
+      if (!this.audioContext || !this.masterGain) return [];
+      const definition = getPercussion(sound);
+      if (!definition) return [];
+      const sources = definition.play({
+          context: this.audioContext,
+          output: this.channels.rhythm?.input ?? this.masterGain,
+          startTime: Math.max(this.audioContext.currentTime, startAt ?? 0),
+          velocity,
+          tuning: this.percussionTuning
+      });
+      sources.forEach(source => {
+          this.activeOscillators.add(source);
+          source.onended = () => this.activeOscillators.delete(source);
+      });
+      return sources;
+  }
+
+  /**
+   * Channel levels, pans and mutes. At the crossfader's centre the original and the
+   * transcription both play at their own levels; towards either end the other side fades out
+   * along an equal-power curve.
+   */
+  setMixer(settings: MixerSettings) {
+      if (!this.audioContext) return;
+      const angle = ((Math.max(-1, Math.min(1, settings.crossfade)) + 1) * Math.PI) / 4;
+      const crossfade: Record<MixerChannel, number> = {
+          original: Math.min(1, Math.SQRT2 * Math.cos(angle)),
+          synth: Math.min(1, Math.SQRT2 * Math.sin(angle)),
+          rhythm: 1
+      };
+      const now = this.audioContext.currentTime;
+      (Object.keys(this.channels) as MixerChannel[]).forEach(channel => {
+          const strip = this.channels[channel]!;
+          const { gain, pan, muted } = settings.strips[channel];
+          const level = muted ? 0 : gain * crossfade[channel];
+          strip.input.gain.setTargetAtTime(level * CHANNEL_MAKEUP[channel], now, MIXER_RAMP_SECONDS);
+          strip.send.gain.setTargetAtTime(level, now, MIXER_RAMP_SECONDS);
+          strip.panner.pan.setTargetAtTime(Math.max(-1, Math.min(1, pan)), now, MIXER_RAMP_SECONDS);
+      });
+  }
+
+  // Tune the tabla to Sa, e.g. the detected tonic
+  setPercussionTonic(tonicMidi: number) {
+      this.percussionTuning = tablaTuning(tonicMidi);
+  }
+
+  /**
+   * Play every stroke of `pattern` from `fromBeat` up to `toBeat`, each at its own time, so
+   * steps may sit on any fraction of a beat (sixteenths, triplets). `timeOf` maps a beat to
+   * context time; bar 0 starts at `barOrigin`. Returns the sources started.
+   */
+  scheduleRhythm(pattern: RhythmPattern, fromBeat: number, toBeat: number, timeOf: (beat: number) => number, barOrigin: number = 0): AudioScheduledSourceNode[] {
+      const sources: AudioScheduledSourceNode[] = [];
+      if (pattern.length <= 0) return sources;
+      let beat = fromBeat;
+      while (beat < toBeat) {
+          const bar = Math.floor((beat - barOrigin) / pattern.length + 1e-9);
+          const barStart = barOrigin + bar * pattern.length;
+          const windowEnd = Math.min(toBeat, barStart + pattern.length);
+          patternBar(pattern, bar).forEach(step => {
+              const at = barStart + step.beat;
+              if (at < beat || at >= windowEnd) return;
+              // The window is chosen on the straight grid; the groove moves the stroke from there
+              const grooved = grooveStep(step.beat, step.velocity, this.groove);
+              const jitter = this.rhythmHumanizer?.(grooved.velocity);
+              const time = timeOf(barStart + grooved.beat) + (jitter?.offset ?? 0);
+              sources.push(...this.playDrumSound(step.sound, jitter?.velocity ?? grooved.velocity, time));
+          });
+          beat = windowEnd;
       }
-      
-      osc.start(t);
-      osc.stop(t + 0.1);
+      return sources;
   }
 
+  // Look-ahead scheduler of the free-running rhythm
   private scheduleNote() {
-      if (!this.currentPattern || !this.audioContext) return;
+      const pattern = this.currentPattern;
+      if (!pattern || !this.audioContext) return;
       const secondsPerBeat = 60.0 / this.currentBpm;
-      
-      while (this.nextNoteTime < this.audioContext.currentTime + 0.1) {
-          const currentBeatInBar = this.currentBeatIndex % this.currentPattern.length;
-          this.currentPattern.steps.forEach(step => {
-              if (Math.abs(step.beat - currentBeatInBar) < 0.01) {
-                   this.playDrumSound(step.sound, step.velocity);
-              }
-          });
-          this.nextNoteTime += (secondsPerBeat * 0.5);
-          this.currentBeatIndex += 0.5;
+      const horizon = (this.audioContext.currentTime + 0.1 - this.rhythmStartTime) / secondsPerBeat;
+      if (this.scheduledBeat < horizon) {
+          this.scheduleRhythm(pattern, this.scheduledBeat, horizon, beat => this.rhythmStartTime + beat * secondsPerBeat, this.barOrigin);
+          this.scheduledBeat = horizon;
       }
       if (this.isRhythmPlaying) {
           this.rhythmTimerID = window.setTimeout(() => this.scheduleNote(), 25);
@@ -281,16 +370,44 @@ export class AudioEngine {
 
   startRhythm(pattern: RhythmPattern, bpm: number) {
       if (this.isRhythmPlaying) return;
+      this.isRhythmPlaying = true;
       this.ensureContext().then(() => {
+          if (!this.isRhythmPlaying) return; // Stopped while resuming
           this.currentPattern = pattern;
           this.currentBpm = bpm;
-          this.currentBeatIndex = 0;
-          this.nextNoteTime = this.audioContext?.currentTime || 0;
-          this.isRhythmPlaying = true;
+          this.rhythmStartTime = this.audioContext?.currentTime || 0;
+          this.scheduledBeat = 0;
+          this.barOrigin = 0;
+          this.rhythmHumanizer = this.humanize && createHumanizer(this.humanize);
           this.scheduleNote();
       });
   }
 
+  // Swap the pattern while playing; a pattern of another length starts its bar 0 right away
+  setRhythmPattern(pattern: RhythmPattern) {
+      if (this.currentPattern && this.currentPattern.length !== pattern.length) this.barOrigin = this.scheduledBeat;
+      this.currentPattern = pattern;
+  }
+
+  /**
+   * Feel for both rhythm and score playback. A playing rhythm takes it from the next scheduled
+   * stroke; humanization restarts from its seed.
+   */
+  setGroove(groove: GrooveTemplate, humanize: Humanize | null = null) {
+      this.groove = groove;
+      this.humanize = humanize;
+      this.rhythmHumanizer = humanize && createHumanizer(humanize);
+  }
+
+  // Transcribed notes as the current groove plays them, for score playback
+  grooveNotes(notes: NoteEvent[], tempo: { bpm: number; tempoMap?: TempoMap }): NoteEvent[] {
+      return grooveNotes(notes, this.groove, { ...tempo, humanize: this.humanize });
+  }
+
+  get isRhythmRunning() {
+      return this.isRhythmPlaying;
+  }
+
   stopRhythm() {
       this.isRhythmPlaying = false;
       if (this.rhythmTimerID) clearTimeout(this.rhythmTimerID);
@@ -313,74 +430,298 @@ export class AudioEngine {
 
   /**
    * ADVANCED ANALYZER: Spectral Flux Onset + HPS Pitch Detection
+   * 'polyphonic' mode replaces the single-f0 detector with harmonic-sum multi-pitch estimation.
    */
-  analyzeAudioSegment(audioBuffer: AudioBuffer, startTime: number, duration: number): NoteEvent[] {
-      const sampleRate = audioBuffer.sampleRate;
+  analyzeAudioSegment(audioBuffer: AudioBuffer, startTime: number, duration: number, mode: AnalysisMode = 'monophonic'): NoteEvent[] {
+      return this.analyzeChannelData(audioBuffer.getChannelData(0), audioBuffer.sampleRate, startTime, duration, mode).notes;
+  }
+
+  /**
+   * Same pipeline on raw (mono) samples, so it can run where no AudioBuffer exists (Web Worker).
+   * Returns notes plus the global tempo / beat estimate.
+   */
+  analyzeChannelData(
+      channelData: Float32Array,
+      sampleRate: number,
+      startTime: number,
+      duration: number,
+      mode: AnalysisMode = 'monophonic',
+      onProgress?: (fraction: number) => void
+  ): AnalysisResult {
+      const frameData = this.extractFrames(channelData, sampleRate, startTime, duration, mode, onProgress);
+      return this.finalizeAnalysis(frameData);
+  }
+
+  /**
+   * PASS 1 (expensive): per-frame pitch, RMS and spectral-flux novelty.
+   * Pass the previous block's result as `previous` to continue the flux curve across blocks.
+   * `onProgress` receives the fraction (0-1) of analysis frames processed.
+   */
+  extractFrames(
+      channelData: Float32Array,
+      sampleRate: number,
+      startTime: number,
+      duration: number,
+      mode: AnalysisMode = 'monophonic',
+      onProgress?: (fraction: number) => void,
+      previous?: FrameAnalysis
+  ): FrameAnalysis {
       const startSample = Math.floor(startTime * sampleRate);
       const endSample = Math.floor((startTime + duration) * sampleRate);
-      const channelData = audioBuffer.getChannelData(0); // Mono analysis
-      const segmentData = channelData.slice(Math.max(0, startSample), Math.min(channelData.length, endSample));
       
-      const windowSize = 2048; // Good balance for Bass/Treble
+      const isPolyphonic = mode === 'polyphonic';
+      // Chords need finer bin resolution to separate neighbouring bass pitches
+      const windowSize = isPolyphonic ? 4096 : 2048; // 2048: Good balance for Bass/Treble
       const hopSize = 512; // 75% Overlap
+
+      // Read one window past the end so consecutive blocks tile without dropping frames
+      const segmentData = channelData.slice(Math.max(0, startSample), Math.min(channelData.length, endSample + windowSize));
+      const frameLimit = Math.min(endSample - startSample, segmentData.length - windowSize);
       
-      const frames: { time: number, frequency: number, confidence: number }[] = [];
+      const frames: AnalysisFrame[] = [];
+      const novelty: number[] = [];
+      let prevSpectrum: Float32Array | null = previous?.lastSpectrum ?? null;
       
-      // Helper: Simple FFT magnitude calculator (Real-valued, Hanning window)
-      // For performance, we'll use a pre-calculated cosine table for windowing
-      const hanning = new Float32Array(windowSize);
-      for(let i=0; i<windowSize; i++) hanning[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (windowSize - 1)));
+      const hanning = hannWindow(windowSize);
+
+      // Continue the previous block's hop grid so frames stay evenly spaced
+      const firstOffset = previous ? Math.max(0, previous.nextSample - startSample) : 0;
+      const totalFrames = Math.max(1, Math.ceil((frameLimit - firstOffset) / hopSize));
 
       // Processing Loop
-      for (let i = 0; i < segmentData.length - windowSize; i += hopSize) {
+      let i = firstOffset;
+      for (; i < frameLimit; i += hopSize) {
+          if (onProgress && frames.length % 64 === 0) onProgress(frames.length / totalFrames);
+
           const chunk = new Float32Array(windowSize);
           for(let j=0; j<windowSize; j++) chunk[j] = segmentData[i+j] * hanning[j];
 
-          // 1. Calculate Spectrum (Magnitude)
-          // Using a simplified spectrum estimation for performance (Zero Crossing approx is too bad, need Frequency)
-          // We will use the YIN algorithm again BUT with improved pre-filtering 
-          // because JS FFT is too slow for 1000s of frames without WebAssembly.
-          
-          // Actually, let's implement HPS using a lightweight autocorr-like heuristic 
-          // which simulates HPS in time domain (NSDF).
-          
-          const result = this.harmonicPitchDetection(chunk, sampleRate);
-          
-          // 2. Spectral Flux (Simulated by RMS difference for now to save CPU)
-          // Real Spectral Flux requires FFT. 
+          const magnitudes = magnitudeSpectrum(chunk);
+
+          // 1. Spectral Flux: log-magnitude FFT difference against previous frame
+          const spectrum = logCompress(magnitudes);
+          novelty.push(spectralFlux(prevSpectrum, spectrum));
+          prevSpectrum = spectrum;
+
           let rms = 0;
           for(let s=0; s<windowSize; s++) rms += chunk[s] * chunk[s];
           rms = Math.sqrt(rms / windowSize);
 
+          // Frames are stamped at the window centre so onsets line up with the attack
+          const frameTime = (startSample + i + windowSize / 2) / sampleRate;
+          const chroma = rms > 0.01 ? spectralChroma(magnitudes, sampleRate) : undefined;
+
+          // 2a. Polyphonic: several simultaneous pitches per frame
+          if (isPolyphonic) {
+              const pitches = rms > 0.01 ? estimateMultiPitch(magnitudes, sampleRate) : [];
+              const top = pitches[0];
+              frames.push({
+                  time: frameTime,
+                  frequency: top ? top.frequency : 0,
+                  confidence: top ? 1 : 0,
+                  rms,
+                  pitches,
+                  chroma
+              });
+              continue;
+          }
+
+          // 2b. Monophonic: YIN-style difference function in time domain
+          const result = this.harmonicPitchDetection(chunk, sampleRate);
+
           if (rms > 0.01 && result.confidence > 0.4) {
               frames.push({
-                  time: startTime + (i / sampleRate),
+                  time: frameTime,
                   frequency: result.frequency,
-                  confidence: result.confidence
+                  confidence: result.confidence,
+                  rms,
+                  chroma
               });
           } else {
-              frames.push({ time: startTime + (i / sampleRate), frequency: 0, confidence: 0 });
+              frames.push({ time: frameTime, frequency: 0, confidence: 0, rms, chroma });
           }
       }
 
-      // PASS 3: Key Estimation
-      const detectedKey = this.detectKey(frames);
+      onProgress?.(1);
+
+      return {
+          frames: previous ? previous.frames.concat(frames) : frames,
+          novelty: previous ? previous.novelty.concat(novelty) : novelty,
+          sampleRate,
+          hopSize,
+          windowSize,
+          mode,
+          startTime: previous ? previous.startTime : startTime,
+          lastSpectrum: prevSpectrum,
+          nextSample: startSample + i
+      };
+  }
+
+  /**
+   * PASSES 2-7 (cheap, global): onsets, tuning, tempo & beats, key, segmentation, quantization, chords.
+   */
+  finalizeAnalysis(frameData: FrameAnalysis): AnalysisResult {
+      const { frames: rawFrames, novelty, sampleRate, hopSize, windowSize, mode, startTime } = frameData;
+      const isPolyphonic = mode === 'polyphonic';
+      const frameRate = sampleRate / hopSize;
+
+      // PASS 2: Onset Detection (adaptive peak picking on the novelty curve)
+      rawFrames.forEach(f => { f.isOnset = false; });
+      pickOnsets(novelty).forEach(idx => { rawFrames[idx].isOnset = true; });
+
+      // PASS 2a: Reference Tuning; frames are re-expressed against A4 = 440 Hz so every later
+      // pass rounds to the intended semitone
+      const tuning = this.estimateReferenceTuning(rawFrames);
+      const frames = this.retuneFrames(rawFrames, tuning);
+
+      // PASS 2b: Continuous pitch contour, kept unsmoothed for ornament analysis and export
+      const contour: PitchContour = {
+          referenceHz: tuning.referenceHz,
+          hopSeconds: hopSize / sampleRate,
+          points: frames.map((f, i) => ({
+              time: f.time,
+              frequency: rawFrames[i].frequency,
+              midi: f.frequency > 0 ? frequencyToMidi(f.frequency) : null,
+              confidence: f.confidence
+          }))
+      };
+
+      // PASS 2c: Beat Tracking on the same onset-strength envelope
+      const beatResult = trackBeats(novelty, frameRate);
+
+      // PASS 2d: Meter & downbeats from per-beat accent patterns
+      const meter = this.estimateMeter(frames, novelty, beatResult.beatFrames);
+
+      // Tempo in quarter notes, like the tempo map; compound meters track dotted-quarter beats
+      const tempo: TempoEstimate = {
+          bpm: Math.round(beatResult.bpm * meter.beatUnit * 10) / 10,
+          confidence: beatResult.confidence,
+          beatTimes: beatResult.beatFrames.map(idx => frames[idx].time)
+      };
+
+      // PASS 3: Key Estimation (global, plus key regions to follow modulations)
+      const keyFrames = isPolyphonic
+          ? frames.flatMap(f => {
+              const pitches = f.pitches ?? [];
+              const top = pitches.length ? pitches[0].salience : 0;
+              return top > 0 ? pitches.map(p => ({ ...f, frequency: p.frequency, confidence: p.salience / top })) : [];
+          })
+          : frames;
+      const keyObservations = this.keyObservations(keyFrames);
+      const detectedKey = estimateKey(pitchClassProfile(keyObservations));
+      const keyRegions = trackKeyRegions(keyObservations, startTime, frames.length ? frames[frames.length - 1].time : startTime);
 
       // PASS 4: Smoothing & Segmentation
-      const smoothedFrames = this.smoothFrames(frames);
-      let notes = this.segmentNotes(smoothedFrames, hopSize / sampleRate);
+      let notes = isPolyphonic
+          ? this.segmentPolyphonicNotes(frames, hopSize / sampleRate, Math.round(windowSize / hopSize / 2))
+          : this.segmentNotes(this.smoothFrames(frames), hopSize / sampleRate);
+
+      // PASS 5: Harmonic Quantization (Scale Snapping to each region's key)
+      notes = this.harmonicQuantization(notes, keyRegions, detectedKey);
+
+      // PASS 5a: Ornaments (vibrato, gamaka, glides) from the contour; the contour follows a single line
+      if (!isPolyphonic) notes = annotateOrnaments(notes, contour);
+
+      // PASS 5b: Tonic (Sa) for sargam labels, from the duration-weighted pitch histogram
+      const tonic = estimateTonic(notes.map(n => ({ midi: n.midi_pitch, weight: n.duration * n.confidence })));
+
+      // PASS 6: Rhythmic Cleanup & Snapping to beat subdivisions (via the tempo map, barlines on downbeats)
+      const tempoMap = tempoMapFromBeats(tempo.beatTimes, tempo.bpm, meter);
+      notes = this.cleanupAndQuantize(notes, tempoMap);
+
+      // PASS 7: Chords from per-beat chroma, spelled in the local key
+      const chords = this.estimateChords(frames, tempo.beatTimes, keyRegions, detectedKey);
+
+      return {
+          notes: notes.map((n, i) => ({ ...n, id: `note_${Math.floor(startTime)}_${i}` })),
+          tempo,
+          meter,
+          key: detectedKey,
+          keyRegions,
+          chords,
+          tempoMap,
+          tuning,
+          tonic,
+          contour
+      };
+  }
+
+  // Weak estimates (too little voiced material, or pitch spread evenly by vibrato/glides) keep A4 = 440 Hz
+  private estimateReferenceTuning(frames: AnalysisFrame[]): TuningEstimate {
+      const observations: TuningObservation[] = frames.flatMap(f => {
+          if (!f.pitches) return f.frequency > 0 && f.confidence > 0.3 ? [{ midi: frequencyToMidi(f.frequency), weight: f.confidence }] : [];
+          // Weights relative to the frame's strongest pitch; silent frames carry none
+          const top = f.pitches.length ? f.pitches[0].salience : 0;
+          return top > 0 ? f.pitches.map(p => ({ midi: p.midi, weight: p.salience / top })) : [];
+      });
+      const estimate = estimateTuning(observations);
+      return estimate.confidence >= MIN_TUNING_CONFIDENCE ? estimate : { ...STANDARD_TUNING, confidence: estimate.confidence };
+  }
+
+  private retuneFrames(frames: AnalysisFrame[], tuning: TuningEstimate): AnalysisFrame[] {
+      if (tuning.centsOffset === 0) return frames;
+      const ratio = STANDARD_REFERENCE_HZ / tuning.referenceHz;
+      const shift = tuning.centsOffset / 100;
+      return frames.map(f => ({
+          ...f,
+          frequency: f.frequency * ratio,
+          pitches: f.pitches?.map(p => ({ ...p, frequency: p.frequency * ratio, midi: p.midi - shift }))
+      }));
+  }
+
+  // Loudness and pitch-class profile of each beat span feed the bar-length scoring
+  private estimateMeter(frames: AnalysisFrame[], novelty: number[], beatFrames: number[]): MeterEstimate {
+      const energy: number[] = [];
+      const chroma: number[][] = [];
+      beatFrames.forEach((start, i) => {
+          const end = i + 1 < beatFrames.length ? beatFrames[i + 1] : frames.length;
+          const profile = new Array(12).fill(0);
+          let rms = 0;
+          for (let f = start; f < end; f++) {
+              const frame = frames[f];
+              rms += frame.rms;
+              const candidates = frame.pitches
+                  ?? (frame.frequency > 0 && frame.confidence > 0.3 ? [{ frequency: frame.frequency, salience: frame.confidence }] : []);
+              candidates.forEach(p => {
+                  const pitchClass = ((Math.round(69 + 12 * Math.log2(p.frequency / 440)) % 12) + 12) % 12;
+                  profile[pitchClass] += p.salience;
+              });
+          }
+          energy.push(rms / Math.max(1, end - start));
+          chroma.push(profile);
+      });
 
-      // PASS 5: Harmonic Quantization (Scale Snapping)
-      notes = this.harmonicQuantization(notes, detectedKey);
+      const result = detectMeter(novelty, beatFrames, beatAccents(novelty, beatFrames, energy, chroma));
+      return {
+          ...result,
+          downbeatTimes: beatFrames
+              .filter((_, i) => i >= result.downbeat && (i - result.downbeat) % result.beatsPerBar === 0)
+              .map(idx => frames[idx].time)
+      };
+  }
 
-      // PASS 6: Rhythmic Cleanup & Grid Snapping
-      notes = this.cleanupAndQuantize(notes);
+  /**
+   * Single-f0 estimate for one block of live input (tuner, practice). The block is windowed
+   * and gated like a monophonic analysis frame; unvoiced or quiet input reports 0 Hz.
+   */
+  detectPitch(samples: Float32Array, sampleRate: number): { frequency: number, confidence: number, rms: number } {
+      const hanning = hannWindow(samples.length);
+      const chunk = new Float32Array(samples.length);
+      let rms = 0;
+      for (let j = 0; j < samples.length; j++) {
+          chunk[j] = samples[j] * hanning[j];
+          rms += chunk[j] * chunk[j];
+      }
+      rms = Math.sqrt(rms / samples.length);
 
-      return notes.map((n, i) => ({ ...n, id: `note_${Math.floor(startTime)}_${i}` }));
+      const result = this.harmonicPitchDetection(chunk, sampleRate);
+      return rms > 0.01 && result.confidence > 0.4
+          ? { frequency: result.frequency, confidence: result.confidence, rms }
+          : { frequency: 0, confidence: 0, rms };
   }
 
   // Harmonic Product Spectrum approximation using Time-Domain filtering
-  // This is better than raw YIN for chords.
+  // Single-f0 only; chords go through estimateMultiPitch in polyphonic mode.
   private harmonicPitchDetection(buffer: Float32Array, sampleRate: number): { frequency: number, confidence: number } {
       // 1. Pre-processing: Low-pass filter to remove cymbal noise (above 1500Hz)
       // Simple Moving Average acts as Low Pass
@@ -452,25 +793,26 @@ export class AudioEngine {
       };
   }
 
-  public cleanupAndQuantize(notes: NoteEvent[]): NoteEvent[] {
+  public cleanupAndQuantize(notes: NoteEvent[], tempoMap: TempoMap): NoteEvent[] {
       if (notes.length === 0) return [];
 
       // 1. Remove very short "ghost" notes (< 80ms) - slightly more lenient for fast chords
       let cleanNotes = notes.filter(n => n.duration > 0.08);
 
-      // 2. Rhythmic Quantization (Snap to 1/16th grid approx 125ms)
-      const GRID_SIZE = 0.125; 
+      // 2. Rhythmic Quantization in beat space: snap to 1/16th notes through the tempo map, so
+      // rubato keeps its grid
+      const SUBDIVISION = 0.25;
       cleanNotes = cleanNotes.map(n => {
-          // Snap start time
-          const snappedStart = Math.round(n.start_time / GRID_SIZE) * GRID_SIZE;
-          // Snap duration (minimum 1 grid unit)
-          let snappedDuration = Math.round(n.duration / GRID_SIZE) * GRID_SIZE;
-          if (snappedDuration < GRID_SIZE) snappedDuration = GRID_SIZE;
-          
+          const startBeat = Math.round(secondsToBeats(tempoMap, n.start_time) / SUBDIVISION) * SUBDIVISION;
+          let endBeat = Math.round(secondsToBeats(tempoMap, n.start_time + n.duration) / SUBDIVISION) * SUBDIVISION;
+          if (endBeat <= startBeat) endBeat = startBeat + SUBDIVISION; // Minimum one subdivision
+          const start = beatsToSeconds(tempoMap, startBeat);
           return {
               ...n,
-              start_time: snappedStart,
-              duration: snappedDuration
+              start_time: start,
+              duration: beatsToSeconds(tempoMap, endBeat) - start,
+              startBeat,
+              durationBeats: endBeat - startBeat
           };
       });
 
@@ -493,7 +835,8 @@ export class AudioEngine {
               const gap = note.start_time - (prev.start_time + prev.duration);
               
               // If gap is tiny (< 0.15s) and it's the same pitch, merge them
-              if (gap < 0.15) {
+              // unless the note was re-attacked (repeated note)
+              if (gap < 0.15 && !note.isOnset) {
                   // Extend previous note
                   const newEnd = Math.max(prev.start_time + prev.duration, note.start_time + note.duration);
                   prev.duration = newEnd - prev.start_time;
@@ -511,58 +854,57 @@ export class AudioEngine {
       return merged;
   }
 
-  private detectKey(frames: any[]): { root: number, scale: 'major'|'minor', confidence: number } {
-      const chroma = new Array(12).fill(0);
-      let totalWeight = 0;
+  // Beat-synchronous chroma segments (fixed half-second segments when no beats were tracked)
+  private estimateChords(frames: AnalysisFrame[], beatTimes: number[], keyRegions: KeyRegion[], fallbackKey: KeyEstimate): ChordEvent[] {
+      if (frames.length === 0) return [];
+      const start = frames[0].time;
+      const end = frames[frames.length - 1].time;
+      let boundaries: number[];
+      if (beatTimes.length >= 2) {
+          boundaries = beatTimes[0] - start > 0.1 ? [start, ...beatTimes] : beatTimes.slice();
+          if (end > boundaries[boundaries.length - 1]) boundaries.push(end);
+      } else {
+          boundaries = [];
+          for (let t = start; t < end; t += 0.5) boundaries.push(t);
+          boundaries.push(end);
+      }
+      if (boundaries.length < 2) return [];
 
+      const segments = boundaries.slice(1).map(() => new Array(12).fill(0));
+      let segment = 0;
       frames.forEach(f => {
-          if (f.frequency > 0 && f.confidence > 0.3) {
-              const midi = 69 + 12 * Math.log2(f.frequency / 440);
-              const pitchClass = Math.round(midi) % 12;
-              chroma[pitchClass] += f.confidence;
-              totalWeight += f.confidence;
+          while (segment < segments.length - 1 && f.time >= boundaries[segment + 1]) segment++;
+          if (f.chroma && f.time >= boundaries[0]) {
+              for (let k = 0; k < 12; k++) segments[segment][k] += f.chroma[k];
           }
       });
 
-      if (totalWeight === 0) return { root: 0, scale: 'major', confidence: 0 };
-      const normalizedChroma = chroma.map(v => v / totalWeight);
-
-      let maxCorr = -Infinity;
-      let bestRoot = 0;
-      let bestScale: 'major' | 'minor' = 'major';
-
-      for (let root = 0; root < 12; root++) {
-          let corr = 0;
-          for (let i = 0; i < 12; i++) {
-              corr += normalizedChroma[(root + i) % 12] * PROFILE_MAJOR[i];
-          }
-          if (corr > maxCorr) { maxCorr = corr; bestRoot = root; bestScale = 'major'; }
-      }
-
-      for (let root = 0; root < 12; root++) {
-          let corr = 0;
-          for (let i = 0; i < 12; i++) {
-              corr += normalizedChroma[(root + i) % 12] * PROFILE_MINOR[i];
-          }
-          if (corr > maxCorr) { maxCorr = corr; bestRoot = root; bestScale = 'minor'; }
-      }
+      return recognizeChords(segments, boundaries, time => keyAt(keyRegions, time) ?? fallbackKey);
+  }
 
-      return { root: bestRoot, scale: bestScale, confidence: maxCorr };
+  private keyObservations(frames: AnalysisFrame[]): PitchClassObservation[] {
+      return frames
+          .filter(f => f.frequency > 0 && f.confidence > 0.3)
+          .map(f => {
+              const midi = 69 + 12 * Math.log2(f.frequency / 440);
+              return { time: f.time, pitchClass: ((Math.round(midi) % 12) + 12) % 12, weight: f.confidence };
+          });
   }
 
-  private harmonicQuantization(notes: NoteEvent[], key: { root: number, scale: 'major'|'minor' }): NoteEvent[] {
+  private harmonicQuantization(notes: NoteEvent[], keyRegions: KeyRegion[], fallbackKey: KeyEstimate): NoteEvent[] {
       const majorIntervals = [0, 2, 4, 5, 7, 9, 11];
       const minorIntervals = [0, 2, 3, 5, 7, 8, 10];
-      const intervals = key.scale === 'major' ? majorIntervals : minorIntervals;
 
       return notes.map(note => {
+          const key = keyAt(keyRegions, note.start_time) ?? fallbackKey;
+          const intervals = key.mode === 'major' ? majorIntervals : minorIntervals;
           const rawMidi = note.midi_pitch;
           const rounded = Math.round(rawMidi);
           const pitchClass = (rounded - key.root + 12) % 12;
           const isInScale = intervals.includes(pitchClass);
 
           if (isInScale) {
-              return { ...note, midi_pitch: rounded };
+              return { ...note, midi_pitch: rounded, cents_deviation: (rawMidi - rounded) * 100 };
           } else {
               let bestCandidate = rounded;
               let minDist = 100;
@@ -578,16 +920,13 @@ export class AudioEngine {
                   }
               }
               // Strong snap if it fixes the key, otherwise loose snap
-              if (minDist < 0.6) {
-                  return { ...note, midi_pitch: bestCandidate };
-              } else {
-                  return { ...note, midi_pitch: rounded };
-              }
+              const quantized = minDist < 0.6 ? bestCandidate : rounded;
+              return { ...note, midi_pitch: quantized, cents_deviation: (rawMidi - quantized) * 100 };
           }
       });
   }
 
-  private smoothFrames(frames: any[]) {
+  private smoothFrames(frames: AnalysisFrame[]): AnalysisFrame[] {
       const medianWindow = 7;
       const result = frames.map(f => ({ ...f }));
       
@@ -606,9 +945,9 @@ export class AudioEngine {
       return result;
   }
 
-  private segmentNotes(frames: any[], frameDuration: number): NoteEvent[] {
+  private segmentNotes(frames: AnalysisFrame[], frameDuration: number): NoteEvent[] {
       const notes: NoteEvent[] = [];
-      let currentNote: any = null;
+      let currentNote: NoteEvent | null = null;
       const minNoteDuration = 0.08;
 
       for (const frame of frames) {
@@ -622,33 +961,25 @@ export class AudioEngine {
 
           const midiPitch = 69 + 12 * Math.log2(frame.frequency / 440);
           
-          if (currentNote) {
-              // Merge if pitch is close
-              if (Math.abs(currentNote.midi_pitch - midiPitch) < 0.8) {
-                  const totalDuration = currentNote.duration + frameDuration;
-                  // Weighted average pitch
-                  currentNote.midi_pitch = (currentNote.midi_pitch * currentNote.duration + midiPitch * frameDuration) / totalDuration;
-                  currentNote.duration = totalDuration;
-                  currentNote.confidence = Math.max(currentNote.confidence, frame.confidence);
-              } else {
-                  if (currentNote.duration >= minNoteDuration) notes.push(currentNote);
-                  currentNote = {
-                      id: `gen_${Date.now()}_${notes.length}`,
-                      start_time: frame.time,
-                      duration: frameDuration,
-                      midi_pitch: midiPitch,
-                      velocity: Math.min(1, frame.confidence * 2),
-                      confidence: frame.confidence
-                  };
-              }
+          // Onsets split notes even at the same pitch (repeated notes), pitch jumps split legato lines
+          const isNewAttack = frame.isOnset && currentNote && currentNote.duration >= minNoteDuration;
+          
+          if (currentNote && !isNewAttack && Math.abs(currentNote.midi_pitch - midiPitch) < 0.8) {
+              const totalDuration = currentNote.duration + frameDuration;
+              // Weighted average pitch
+              currentNote.midi_pitch = (currentNote.midi_pitch * currentNote.duration + midiPitch * frameDuration) / totalDuration;
+              currentNote.duration = totalDuration;
+              currentNote.confidence = Math.max(currentNote.confidence, frame.confidence);
           } else {
+              if (currentNote && currentNote.duration >= minNoteDuration) notes.push(currentNote);
               currentNote = {
                   id: `gen_${Date.now()}_${notes.length}`,
                   start_time: frame.time,
                   duration: frameDuration,
                   midi_pitch: midiPitch,
                   velocity: Math.min(1, frame.confidence * 2),
-                  confidence: frame.confidence
+                  confidence: frame.confidence,
+                  isOnset: !!frame.isOnset
               };
           }
       }
@@ -656,6 +987,87 @@ export class AudioEngine {
       if (currentNote && currentNote.duration >= minNoteDuration) notes.push(currentNote);
       return notes;
   }
+
+  // Note tracking for multi-pitch frames: one track per semitone, tolerant of short dropouts.
+  // `attackFrames` is how long after an onset a re-struck note reaches full salience (half a window).
+  private segmentPolyphonicNotes(frames: AnalysisFrame[], frameDuration: number, attackFrames: number): NoteEvent[] {
+      const notes: NoteEvent[] = [];
+      // Long windows smear chord changes; tracks shorter than the smear are transition artefacts
+      const minNoteDuration = Math.max(0.08, 1.5 * attackFrames * frameDuration);
+      const maxGapFrames = 2;
+      const active = new Map<number, { note: NoteEvent; lastSeen: number; lastSalience: number; pitchSum: number; count: number; confidenceSum: number }>();
+
+      const salienceAt = (idx: number, key: number) => {
+          const frame = frames[Math.min(frames.length - 1, idx)];
+          const match = (frame.pitches || []).find(p => Math.round(p.midi) === key);
+          return match ? match.salience : 0;
+      };
+
+      const finish = (key: number) => {
+          const track = active.get(key)!;
+          active.delete(key);
+          if (track.note.duration < minNoteDuration) return;
+          const confidence = track.confidenceSum / track.count;
+          notes.push({
+              ...track.note,
+              midi_pitch: track.pitchSum / track.count,
+              confidence,
+              velocity: Math.min(1, confidence * 2)
+          });
+      };
+
+      frames.forEach((frame, idx) => {
+          const pitches = frame.pitches || [];
+          const topSalience = pitches.length ? pitches[0].salience : 1;
+
+          for (const p of pitches) {
+              const key = Math.round(p.midi);
+              const confidence = p.salience / topSalience;
+              let track = active.get(key);
+
+              // A sharp salience rise just after an onset is a re-struck note
+              const isReattack = frame.isOnset && track && track.note.duration >= minNoteDuration &&
+                  salienceAt(idx + attackFrames, key) > track.lastSalience * 1.3;
+              if (track && isReattack) {
+                  finish(key);
+                  track = undefined;
+              }
+
+              if (track) {
+                  track.note.duration = frame.time + frameDuration - track.note.start_time;
+                  track.lastSeen = idx;
+                  track.lastSalience = p.salience;
+                  track.pitchSum += p.midi;
+                  track.count++;
+                  track.confidenceSum += confidence;
+              } else {
+                  active.set(key, {
+                      note: {
+                          id: `gen_${Date.now()}_${notes.length}_${key}`,
+                          start_time: frame.time,
+                          duration: frameDuration,
+                          midi_pitch: p.midi,
+                          velocity: 0,
+                          confidence: 0,
+                          isOnset: !!frame.isOnset
+                      },
+                      lastSeen: idx,
+                      lastSalience: p.salience,
+                      pitchSum: p.midi,
+                      count: 1,
+                      confidenceSum: confidence
+                  });
+              }
+          }
+
+          Array.from(active.entries()).forEach(([key, track]) => {
+              if (idx - track.lastSeen > maxGapFrames) finish(key);
+          });
+      });
+
+      Array.from(active.keys()).forEach(finish);
+      return notes.sort((a, b) => a.start_time - b.start_time || a.midi_pitch - b.midi_pitch);
+  }
 }
 
 export const audioEngine = new AudioEngine();
\ No newline at end of file
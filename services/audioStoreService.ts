@@ -0,0 +1,72 @@
+// Binary audio for history entries. Takes are far too large for localStorage, so they live
+// in IndexedDB keyed by the history entry id; the entry only records that audio exists.
+// The loaded SoundFont bank is kept here too, so it survives reloads.
+
+const DB_NAME = 'mnc_audio_v1';
+const DB_VERSION = 2;
+const TAKES_STORE = 'takes';
+const SOUNDFONTS_STORE = 'soundfonts'; // v2
+const CURRENT_SOUNDFONT = 'current';
+
+export interface StoredSoundFont {
+  name: string; // File name
+  data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB unavailable'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TAKES_STORE)) db.createObjectStore(TAKES_STORE);
+        if (!db.objectStoreNames.contains(SOUNDFONTS_STORE)) db.createObjectStore(SOUNDFONTS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result once committed
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const AudioStoreService = {
+  saveTake: (entryId: string, audio: Blob): Promise<void> =>
+    run<IDBValidKey>(TAKES_STORE, 'readwrite', store => store.put(audio, entryId)).then(() => undefined),
+
+  getTake: (entryId: string): Promise<Blob | null> =>
+    run<Blob | undefined>(TAKES_STORE, 'readonly', store => store.get(entryId)).then(blob => blob ?? null),
+
+  deleteTake: (entryId: string): Promise<void> =>
+    run<undefined>(TAKES_STORE, 'readwrite', store => store.delete(entryId)),
+
+  clearTakes: (): Promise<void> =>
+    run<undefined>(TAKES_STORE, 'readwrite', store => store.clear()),
+
+  // Only one bank is kept; saving replaces it
+  saveSoundFont: (name: string, data: Blob): Promise<void> =>
+    run<IDBValidKey>(SOUNDFONTS_STORE, 'readwrite', store => store.put({ name, data }, CURRENT_SOUNDFONT)).then(() => undefined),
+
+  getSoundFont: (): Promise<StoredSoundFont | null> =>
+    run<StoredSoundFont | undefined>(SOUNDFONTS_STORE, 'readonly', store => store.get(CURRENT_SOUNDFONT)).then(entry => entry ?? null),
+
+  deleteSoundFont: (): Promise<void> =>
+    run<undefined>(SOUNDFONTS_STORE, 'readwrite', store => store.delete(CURRENT_SOUNDFONT))
+};
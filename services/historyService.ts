@@ -1,7 +1,18 @@
 import { HistoryEntry, ExportStatus, UserEdits, RetentionPolicy } from '../types';
+import { AudioStoreService } from './audioStoreService';
+import { CustomRhythmPattern } from '../components/constants';
+import { isCustomPattern } from '../utils/rhythmPatterns';
 
 const STORAGE_KEY = 'mnc_history_v1';
 const RETENTION_KEY = 'mnc_retention_policy';
+const PATTERNS_KEY = 'mnc_rhythm_patterns_v1';
+
+// Recorded takes are stored separately and must go with their entry
+const deleteStoredAudio = (entries: HistoryEntry[]) => {
+  entries.filter(h => h.audio_stored).forEach(h => {
+    AudioStoreService.deleteTake(h.id).catch(e => console.warn("Failed to delete recorded take", e));
+  });
+};
 
 // Safe ID generator that works in non-secure contexts
 const generateId = (): string => {
@@ -76,6 +87,9 @@ export const HistoryService = {
     // Always sort by date descending
     newHistory.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
+    const kept = new Set(newHistory.map(h => h.id));
+    deleteStoredAudio(history.filter(h => !kept.has(h.id)));
+
     localStorage.setItem(STORAGE_KEY, JSON.stringify(newHistory));
   },
 
@@ -124,6 +138,11 @@ export const HistoryService = {
     };
 
     HistoryService.addEntry(copy);
+    if (entry.audio_stored) {
+      AudioStoreService.getTake(entry.id)
+        .then(audio => audio && AudioStoreService.saveTake(copy.id, audio))
+        .catch(e => console.warn("Failed to copy recorded take", e));
+    }
     return copy;
   },
 
@@ -148,13 +167,45 @@ export const HistoryService = {
     const history = HistoryService.getHistory();
     const newHistory = history.filter(h => h.id !== id);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(newHistory));
+    deleteStoredAudio(history.filter(h => h.id === id));
   },
 
   clearHistory: () => {
     if (typeof window === 'undefined') return;
+    deleteStoredAudio(HistoryService.getHistory());
     localStorage.removeItem(STORAGE_KEY);
   },
 
+  // Rhythm patterns made in the editor; not subject to the retention policy
+  getCustomPatterns: (): CustomRhythmPattern[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(PATTERNS_KEY);
+      const data: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(data) ? data.filter(isCustomPattern) : [];
+    } catch (e) {
+      console.error("Failed to load rhythm patterns", e);
+      return [];
+    }
+  },
+
+  // Adds the pattern, or replaces the stored one with the same id. Returns the stored pattern.
+  saveCustomPattern: (pattern: Omit<CustomRhythmPattern, 'id' | 'updated'> & { id?: string }): CustomRhythmPattern => {
+    const saved: CustomRhythmPattern = { ...pattern, id: pattern.id ?? generateId(), updated: new Date().toISOString() };
+    if (typeof window === 'undefined') return saved;
+    const patterns = HistoryService.getCustomPatterns();
+    const index = patterns.findIndex(p => p.id === saved.id);
+    if (index !== -1) patterns[index] = saved;
+    else patterns.unshift(saved);
+    localStorage.setItem(PATTERNS_KEY, JSON.stringify(patterns));
+    return saved;
+  },
+
+  deleteCustomPattern: (id: string) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(PATTERNS_KEY, JSON.stringify(HistoryService.getCustomPatterns().filter(p => p.id !== id)));
+  },
+
   exportHistoryAsJSON: () => {
     const history = HistoryService.getHistory();
     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(history, null, 2));
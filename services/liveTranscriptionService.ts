@@ -0,0 +1,260 @@
+import { NoteEvent, AnalysisMode } from '../types';
+import { audioEngine, FrameAnalysis } from './audioEngine';
+import { audioBufferToWav } from '../utils/audioExport';
+
+// Live transcription from any MediaStream (microphone, or a decoded file for testing).
+// An AudioWorklet copies the input off the rendering thread in small mono batches; the
+// frame analysis then runs incrementally on the new samples only, and a short window of
+// recent frames is re-finalized to turn them into notes. Notes that ended more than
+// SETTLE_SECONDS ago are committed and never revised; the rest are shown provisionally.
+// The window never reaches back more than MAX_WINDOW_SECONDS, so each update costs the same
+// however long a note is held.
+
+export interface LiveTranscriptionOptions {
+  mode?: AnalysisMode;
+  onNotes?: (notes: NoteEvent[]) => void; // Committed plus provisional notes so far
+  onLevel?: (rms: number, elapsed: number) => void; // Input level per batch, seconds recorded
+}
+
+export interface LiveTake {
+  buffer: AudioBuffer; // Full-rate mono recording, for the final analysis and playback
+  audio: Blob; // WAV for storage
+  notes: NoteEvent[]; // Live transcription at the moment recording stopped
+}
+
+export interface LiveSession {
+  stop: () => Promise<LiveTake>;
+  cancel: () => void;
+}
+
+const CAPTURE_PROCESSOR = 'mnc-capture';
+const BATCH_SIZE = 2048; // Samples per message from the worklet
+const UPDATE_SECONDS = 0.5; // Analysis cadence
+const SETTLE_SECONDS = 0.4; // Notes ending this long before the newest frame are final
+const MAX_WINDOW_SECONDS = 5; // Longest stretch re-finalized on each update
+const DRAIN_TIMEOUT_MS = 1000; // Wait for the worklet's last batch no longer than this
+
+// Worklet modules must be plain JavaScript at a URL of their own, which the bundler does not
+// produce for us, so the processor is registered from a Blob URL
+const CAPTURE_WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = new Float32Array(${BATCH_SIZE});
+    this.filled = 0;
+    this.active = true;
+    this.port.onmessage = () => {
+      this.flush();
+      this.active = false;
+      this.port.postMessage('done');
+    };
+  }
+  flush() {
+    if (this.filled === 0) return;
+    const out = this.batch.slice(0, this.filled);
+    this.port.postMessage(out, [out.buffer]);
+    this.filled = 0;
+  }
+  process(inputs) {
+    const input = inputs[0];
+    if (!this.active || !input || input.length === 0) return this.active;
+    for (let i = 0; i < input[0].length; i++) {
+      let sum = 0;
+      for (let c = 0; c < input.length; c++) sum += input[c][i];
+      this.batch[this.filled++] = sum / input.length;
+      if (this.filled === this.batch.length) this.flush();
+    }
+    return true;
+  }
+}
+registerProcessor('${CAPTURE_PROCESSOR}', CaptureProcessor);
+`;
+
+const workletModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadCaptureWorklet = (context: AudioContext): Promise<void> => {
+  let loaded = workletModules.get(context);
+  if (!loaded) {
+    const url = URL.createObjectURL(new Blob([CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+    loaded = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    workletModules.set(context, loaded);
+  }
+  return loaded;
+};
+
+export const LiveTranscriptionService = {
+  /**
+   * Raw microphone input. Browser voice processing is switched off: it smears pitch and
+   * gates quiet note tails.
+   */
+  async requestMicrophone(): Promise<MediaStream> {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      throw new Error("Microphone access is not supported in this browser");
+    }
+    return navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+    });
+  },
+
+  /**
+   * Play a local file into a MediaStream, standing in for a microphone. The file is also
+   * heard through the speakers. `ended` resolves when playback finishes.
+   */
+  async streamFromFile(file: File): Promise<{ stream: MediaStream; ended: Promise<void>; stop: () => void }> {
+    const context = audioEngine.context;
+    if (!context) throw new Error("Audio Context not initialized");
+    const buffer = await audioEngine.loadAudioFile(file);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const destination = context.createMediaStreamDestination();
+    source.connect(destination);
+    source.connect(context.destination);
+    const ended = new Promise<void>(resolve => { source.onended = () => resolve(); });
+    source.start();
+    return {
+      stream: destination.stream,
+      ended,
+      stop: () => {
+        try { source.stop(); } catch (e) {}
+        source.disconnect();
+      }
+    };
+  },
+
+  /**
+   * Start capturing and transcribing `stream`. The stream's tracks are left running; the
+   * caller owns them.
+   */
+  async start(stream: MediaStream, options: LiveTranscriptionOptions = {}): Promise<LiveSession> {
+    const context = audioEngine.context;
+    if (!context) throw new Error("Audio Context not initialized");
+    if (stream.getAudioTracks().length === 0) throw new Error("The stream has no audio track");
+    await audioEngine.ensureContext();
+    await loadCaptureWorklet(context);
+
+    const mode = options.mode ?? 'monophonic';
+    const sampleRate = context.sampleRate;
+    const source = context.createMediaStreamSource(stream);
+    const capture = new AudioWorkletNode(context, CAPTURE_PROCESSOR, { numberOfOutputs: 1, outputChannelCount: [1] });
+    // The worklet only runs while pulled by the destination; its output is silence
+    const sink = context.createGain();
+    sink.gain.value = 0;
+    source.connect(capture).connect(sink).connect(context.destination);
+
+    let samples = new Float32Array(sampleRate * 30);
+    let length = 0;
+    let frameData: FrameAnalysis | undefined;
+    let committed: NoteEvent[] = [];
+    let provisional: NoteEvent[] = [];
+    let committedUntil = 0;
+    let analyzedUntil = 0;
+    let updateTimer: number | null = null;
+    let finished = false;
+    let resolveDrained: () => void = () => {};
+    const drained = new Promise<void>(resolve => { resolveDrained = resolve; });
+
+    const append = (batch: Float32Array) => {
+      if (length + batch.length > samples.length) {
+        const grown = new Float32Array(Math.max(samples.length * 2, length + batch.length));
+        grown.set(samples.subarray(0, length));
+        samples = grown;
+      }
+      samples.set(batch, length);
+      length += batch.length;
+    };
+
+    const update = () => {
+      updateTimer = null;
+      const recorded = length / sampleRate;
+      const from = frameData ? frameData.nextSample / sampleRate : 0;
+      // Frames need a full window of audio; extraction stops where the buffer runs out
+      frameData = audioEngine.extractFrames(samples.subarray(0, length), sampleRate, from, recorded - from, mode, undefined, frameData);
+      analyzedUntil = recorded;
+
+      const { frames, novelty } = frameData;
+      if (frames.length === 0) return;
+      const newest = frames[frames.length - 1].time;
+      const windowStart = newest - MAX_WINDOW_SECONDS;
+      if (windowStart > committedUntil) {
+        // Notes still sounding at the window's start are committed up to it and carry on as new notes
+        const held = provisional
+          .filter(n => n.start_time < windowStart)
+          .map((n, i) => ({ ...n, duration: Math.min(n.duration, windowStart - n.start_time), id: `live_${committed.length + i}` }));
+        committed = committed.concat(held);
+        committedUntil = windowStart;
+      }
+      const first = frames.findIndex(f => f.time >= committedUntil);
+      if (first < 0) return;
+
+      const windowNotes = audioEngine.finalizeAnalysis({
+        ...frameData,
+        frames: frames.slice(first),
+        novelty: novelty.slice(first),
+        startTime: committedUntil
+      }).notes;
+
+      const settleTime = newest - SETTLE_SECONDS;
+      const settled = windowNotes.filter(n => n.start_time + n.duration <= settleTime);
+      committed = committed.concat(settled.map((n, i) => ({ ...n, id: `live_${committed.length + i}` })));
+      provisional = windowNotes
+        .filter(n => n.start_time + n.duration > settleTime)
+        .map((n, i) => ({ ...n, id: `live_pending_${i}` }));
+      if (settled.length > 0) {
+        committedUntil = Math.max(...settled.map(n => n.start_time + n.duration));
+      } else if (provisional.length === 0) {
+        committedUntil = settleTime; // Silence: nothing left to revisit
+      }
+      options.onNotes?.(committed.concat(provisional));
+    };
+
+    capture.port.onmessage = (event: MessageEvent<Float32Array | 'done'>) => {
+      if (event.data === 'done') {
+        resolveDrained();
+        return;
+      }
+      const batch = event.data;
+      append(batch);
+      if (options.onLevel) {
+        let sum = 0;
+        for (let i = 0; i < batch.length; i++) sum += batch[i] * batch[i];
+        options.onLevel(Math.sqrt(sum / batch.length), length / sampleRate);
+      }
+      // Analysis runs outside the message handler so batches keep arriving in order
+      if (!finished && updateTimer === null && length / sampleRate - analyzedUntil >= UPDATE_SECONDS) {
+        updateTimer = window.setTimeout(update, 0);
+      }
+    };
+
+    const teardown = () => {
+      finished = true;
+      if (updateTimer !== null) clearTimeout(updateTimer);
+      updateTimer = null;
+      source.disconnect();
+      capture.disconnect();
+      sink.disconnect();
+      capture.port.onmessage = null;
+    };
+
+    return {
+      stop: async () => {
+        capture.port.postMessage('stop');
+        // A suspended context never answers; keep what has arrived
+        await Promise.race([drained, new Promise<void>(resolve => setTimeout(resolve, DRAIN_TIMEOUT_MS))]);
+        teardown();
+        if (length === 0) throw new Error("Nothing was recorded");
+
+        const buffer = context.createBuffer(1, length, sampleRate);
+        buffer.copyToChannel(samples.subarray(0, length), 0);
+        return {
+          buffer,
+          audio: audioBufferToWav(buffer, 0, buffer.duration),
+          notes: committed.concat(provisional)
+        };
+      },
+      cancel: () => {
+        capture.port.postMessage('stop');
+        teardown();
+      }
+    };
+  }
+};
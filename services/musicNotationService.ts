@@ -0,0 +1,609 @@
+import { NoteEvent, Diagnostics, Measure, TempoMap, KeyContext, KeyRegion, ChordEvent, ChordQuality } from '../types';
+import { constantTempoMap, secondsToBeats, beatsToSeconds, averageBpm } from '../utils/tempoMap';
+import { spellPitch, spellPitchClass, formatPitch } from '../utils/pitchUtils';
+import { keyAt, keyFromSignature } from '../utils/keyDetection';
+import { NO_CHORD_SYMBOL } from '../utils/chordRecognition';
+import { sargamSwara, swaraText, swaraWidth } from '../utils/sargam';
+import { Taal } from '../components/constants';
+
+export interface NotationOptions {
+  timeSignature?: string; // e.g. "3/4", defaults to "4/4"
+  gridBeats?: number; // Quantization grid in quarter-note beats
+  splitPitch?: number; // Notes at or above go to the treble staff
+  tempoMap?: TempoMap; // Variable tempo; overrides the constant bpm
+  key?: KeyContext; // Spelling of pitch labels, defaults to C major
+  keyRegions?: KeyRegion[]; // Modulations; each measure takes the key at its midpoint
+  chords?: ChordEvent[]; // Chord timeline, snapped to the grid and attached to measures
+}
+
+export interface NotationResult {
+  measures: Measure[];
+  diagnostics: Diagnostics;
+}
+
+export interface MusicXMLOptions {
+  title?: string;
+  bpm?: number;
+  key?: KeyContext; // Key signature and pitch spelling, defaults to C major
+}
+
+export interface LeadSheetOptions {
+  title?: string;
+  bpm?: number;
+  barsPerLine?: number;
+}
+
+export interface SargamSheetOptions {
+  tonic: number; // MIDI pitch of madhya Sa
+  taal: Taal;
+  title?: string;
+  bpm?: number;
+  tempoMap?: TempoMap;
+  matraBeats?: number; // Quarter-note beats per matra, defaults to the taal's
+}
+
+const DEFAULT_GRID_BEATS = 0.25; // 1/16th note
+const DEFAULT_SPLIT_PITCH = 60; // Middle C
+const UNCERTAIN_CONFIDENCE = 0.5;
+
+// Representable note values in quarter-note beats (plain & dotted)
+const NOTE_VALUES: { beats: number; type: string; dotted: boolean }[] = [
+  { beats: 6, type: 'whole', dotted: true },
+  { beats: 4, type: 'whole', dotted: false },
+  { beats: 3, type: 'half', dotted: true },
+  { beats: 2, type: 'half', dotted: false },
+  { beats: 1.5, type: 'quarter', dotted: true },
+  { beats: 1, type: 'quarter', dotted: false },
+  { beats: 0.75, type: 'eighth', dotted: true },
+  { beats: 0.5, type: 'eighth', dotted: false },
+  { beats: 0.375, type: '16th', dotted: true },
+  { beats: 0.25, type: '16th', dotted: false },
+  { beats: 0.125, type: '32nd', dotted: false },
+];
+
+const C_MAJOR: KeyContext = { fifths: 0, mode: 'major' };
+
+// MusicXML <kind> value and display text per chord quality
+const HARMONY_KINDS: Record<ChordQuality, { kind: string; text: string }> = {
+  maj: { kind: 'major', text: '' },
+  min: { kind: 'minor', text: 'm' },
+  '7': { kind: 'dominant', text: '7' },
+  sus4: { kind: 'suspended-fourth', text: 'sus4' },
+  sus2: { kind: 'suspended-second', text: 'sus2' },
+  dim: { kind: 'diminished', text: 'dim' },
+};
+
+const EPSILON = 1e-6;
+// Tempo drift (fraction) before a new metronome mark is written
+const TEMPO_CHANGE_THRESHOLD = 0.03;
+// Subdivisions tried per matra in sargam notation, simplest first
+const MATRA_DIVISIONS = [1, 2, 3, 4];
+// Largest onset displacement accepted by a subdivision, as a fraction of one of its slots
+const MATRA_SNAP_TOLERANCE = 0.25;
+const SARGAM_HOLD = 'ऽ'; // Avagraha: previous swara continues
+const SARGAM_REST = '-';
+
+const parseTimeSignature = (ts: string): { beats: number; beatType: number } => {
+  const [b, t] = ts.split('/').map(v => parseInt(v, 10));
+  if (!b || !t || b <= 0 || t <= 0) return { beats: 4, beatType: 4 };
+  return { beats: b, beatType: t };
+};
+
+const snap = (value: number, grid: number) => Math.round(value / grid) * grid;
+
+const escapeXml = (str: string) =>
+  str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Split a duration into tie-able note values that fit the grid
+const decomposeDuration = (beats: number, grid: number): number[] => {
+  const parts: number[] = [];
+  let remaining = beats;
+  const allowed = NOTE_VALUES.filter(v => Math.abs(v.beats / grid - Math.round(v.beats / grid)) < EPSILON);
+  while (remaining > EPSILON) {
+    const value = allowed.find(v => v.beats <= remaining + EPSILON);
+    if (!value) {
+      // Remainder below the smallest value; absorb it into the last part
+      if (parts.length) parts[parts.length - 1] += remaining;
+      else parts.push(remaining);
+      break;
+    }
+    parts.push(value.beats);
+    remaining -= value.beats;
+  }
+  return parts;
+};
+
+interface StaffEvent {
+  startBeat: number;
+  durationBeats: number;
+  notes: NoteEvent[]; // Empty => rest
+}
+
+const makeRest = (staff: 'treble' | 'bass', startBeat: number, durationBeats: number, tempoMap: TempoMap, id: string): NoteEvent => ({
+  id,
+  start_time: beatsToSeconds(tempoMap, startBeat),
+  duration: beatsToSeconds(tempoMap, startBeat + durationBeats) - beatsToSeconds(tempoMap, startBeat),
+  midi_pitch: 0,
+  velocity: 0,
+  confidence: 1,
+  startBeat,
+  durationBeats,
+  staff,
+  voice: staff === 'treble' ? 1 : 2,
+  isRest: true,
+  tie: null
+});
+
+export const MusicNotationService = {
+  /**
+   * Convert raw NoteEvents into quantized, barline-split measures.
+   * Notes crossing a barline (or not representable as a single value) are split and tied.
+   */
+  processNotes(notes: NoteEvent[], bpm: number = 120, options: NotationOptions = {}): NotationResult {
+    const tempoMap = options.tempoMap ?? constantTempoMap(bpm);
+    const toSeconds = (beat: number) => beatsToSeconds(tempoMap, beat);
+    const grid = options.gridBeats && options.gridBeats > 0 ? options.gridBeats : DEFAULT_GRID_BEATS;
+    const splitPitch = options.splitPitch ?? DEFAULT_SPLIT_PITCH;
+    const globalKey = options.key ?? C_MAJOR;
+    const keyRegions = options.keyRegions ?? [];
+    const keyFor = (seconds: number): KeyContext => keyAt(keyRegions, seconds) ?? globalKey;
+    const timeSignature = options.timeSignature || '4/4';
+    const { beats, beatType } = parseTimeSignature(timeSignature);
+    const measureBeats = beats * (4 / beatType);
+
+    const diagnostics: Diagnostics = {
+      slurValidation: {
+        totalSlursAttempted: 0,
+        slursKept: 0,
+        slursRemoved: 0,
+        reasonsSummary: {},
+        examples: [],
+        collisionSafetySkipped: false
+      },
+      quantizeStats: { gridBeats: grid, notesQuantized: 0, notesDropped: 0, meanErrorBeats: 0, maxErrorBeats: 0 },
+      staffAssignment: { splitPitch, treble: 0, bass: 0, chordsNormalized: 0, overlapsTruncated: 0 }
+    };
+
+    // 1. Quantize to beat grid
+    let totalError = 0;
+    const quantized: NoteEvent[] = [];
+    for (const n of notes) {
+      if (n.isRest || !Number.isFinite(n.midi_pitch) || !(n.duration > 0)) {
+        diagnostics.quantizeStats.notesDropped++;
+        continue;
+      }
+      const rawStart = secondsToBeats(tempoMap, n.start_time);
+      const rawDuration = secondsToBeats(tempoMap, n.start_time + n.duration) - rawStart;
+      const startBeat = Math.max(0, snap(rawStart, grid));
+      const durationBeats = Math.max(grid, snap(rawDuration, grid));
+      const error = Math.abs(rawStart - startBeat);
+      totalError += error;
+      diagnostics.quantizeStats.maxErrorBeats = Math.max(diagnostics.quantizeStats.maxErrorBeats, error);
+
+      const midi = Math.round(n.midi_pitch);
+      const spelling = spellPitch(midi, keyFor(n.start_time));
+      const staff: 'treble' | 'bass' = midi >= splitPitch ? 'treble' : 'bass';
+      diagnostics.staffAssignment[staff]++;
+
+      quantized.push({
+        ...n,
+        midi_pitch: midi,
+        pitch_label: `${spelling.step}${spelling.alter > 0 ? '#' : spelling.alter < 0 ? 'b' : ''}${spelling.octave}`,
+        startBeat,
+        durationBeats,
+        staff,
+        voice: staff === 'treble' ? 1 : 2,
+        tie: null,
+        isUncertain: n.confidence < UNCERTAIN_CONFIDENCE,
+        quantizeErrorBeats: error,
+        remediationFlags: [...(n.remediationFlags || [])]
+      });
+    }
+    diagnostics.quantizeStats.notesQuantized = quantized.length;
+    diagnostics.quantizeStats.meanErrorBeats = quantized.length ? totalError / quantized.length : 0;
+
+    // Chord symbols on the same grid; one per grid position
+    const harmony = (options.chords ?? [])
+      .map(c => ({ ...c, startBeat: Math.max(0, snap(secondsToBeats(tempoMap, c.startTime), grid)) }))
+      .filter((c, i, all) => i === 0 || c.startBeat > all[i - 1].startBeat + EPSILON);
+
+    // 2. Build non-overlapping chord sequences per staff
+    const lastEnd = [...quantized.map(n => n.startBeat! + n.durationBeats!), ...harmony.filter(c => c.root !== null).map(c => c.startBeat + grid)]
+      .reduce((max, end) => Math.max(max, end), 0);
+    const measureCount = Math.max(1, Math.ceil((lastEnd - EPSILON) / measureBeats));
+    const totalBeats = measureCount * measureBeats;
+
+    const staffEvents: Record<'treble' | 'bass', StaffEvent[]> = { treble: [], bass: [] };
+
+    (['treble', 'bass'] as const).forEach(staff => {
+      const staffNotes = quantized
+        .filter(n => n.staff === staff)
+        .sort((a, b) => a.startBeat! - b.startBeat! || a.midi_pitch - b.midi_pitch);
+
+      const chords: StaffEvent[] = [];
+      for (const n of staffNotes) {
+        const last = chords[chords.length - 1];
+        if (last && Math.abs(last.startBeat - n.startBeat!) < EPSILON) {
+          if (last.notes.some(c => c.midi_pitch === n.midi_pitch)) continue; // Duplicate pitch
+          if (Math.abs(last.durationBeats - n.durationBeats!) > EPSILON) {
+            diagnostics.staffAssignment.chordsNormalized++;
+            n.remediationFlags!.push('chord_duration_normalized');
+            last.durationBeats = Math.max(last.durationBeats, n.durationBeats!);
+          }
+          last.notes.push(n);
+        } else {
+          chords.push({ startBeat: n.startBeat!, durationBeats: n.durationBeats!, notes: [n] });
+        }
+      }
+
+      // Truncate overlaps so each staff reads as a single voice
+      for (let i = 0; i < chords.length - 1; i++) {
+        const gap = chords[i + 1].startBeat - chords[i].startBeat;
+        if (chords[i].durationBeats > gap + EPSILON) {
+          chords[i].durationBeats = gap;
+          diagnostics.staffAssignment.overlapsTruncated++;
+          chords[i].notes.forEach(n => n.remediationFlags!.push('overlap_truncated'));
+        }
+      }
+
+      // Fill gaps with rests
+      const events: StaffEvent[] = [];
+      let cursor = 0;
+      for (const chord of chords) {
+        if (chord.startBeat > cursor + EPSILON) {
+          events.push({ startBeat: cursor, durationBeats: chord.startBeat - cursor, notes: [] });
+        }
+        events.push(chord);
+        cursor = chord.startBeat + chord.durationBeats;
+      }
+      if (cursor < totalBeats - EPSILON) {
+        events.push({ startBeat: cursor, durationBeats: totalBeats - cursor, notes: [] });
+      }
+      staffEvents[staff] = events;
+    });
+
+    // 3. Split events at barlines and into representable values
+    const measures: Measure[] = Array.from({ length: measureCount }, (_, i) => ({
+      number: i + 1,
+      startBeat: i * measureBeats,
+      durationBeats: measureBeats,
+      timeSignature,
+      bpm: averageBpm(tempoMap, i * measureBeats, (i + 1) * measureBeats),
+      key: keyFor(toSeconds((i + 0.5) * measureBeats)),
+      chords: harmony.filter(c => c.startBeat >= i * measureBeats - EPSILON && c.startBeat < (i + 1) * measureBeats - EPSILON),
+      notes: []
+    }));
+
+    (['treble', 'bass'] as const).forEach(staff => {
+      let restCounter = 0;
+      for (const event of staffEvents[staff]) {
+        // Pieces: [start, duration] bounded by barlines, then decomposed
+        const pieces: { startBeat: number; durationBeats: number; measureIndex: number }[] = [];
+        let pos = event.startBeat;
+        const end = event.startBeat + event.durationBeats;
+        while (pos < end - EPSILON) {
+          const measureIndex = Math.min(measureCount - 1, Math.floor((pos + EPSILON) / measureBeats));
+          const barEnd = (measureIndex + 1) * measureBeats;
+          const segmentEnd = Math.min(end, barEnd);
+          // Whole-measure rests stay in one piece
+          const isFullRest = event.notes.length === 0 &&
+            Math.abs(pos - measureIndex * measureBeats) < EPSILON && Math.abs(segmentEnd - barEnd) < EPSILON;
+          const parts = isFullRest ? [segmentEnd - pos] : decomposeDuration(segmentEnd - pos, grid);
+          for (const part of parts) {
+            pieces.push({ startBeat: pos, durationBeats: part, measureIndex });
+            pos += part;
+          }
+          pos = segmentEnd;
+        }
+
+        pieces.forEach((piece, idx) => {
+          const measure = measures[piece.measureIndex];
+          if (event.notes.length === 0) {
+            measure.notes.push(makeRest(staff, piece.startBeat, piece.durationBeats, tempoMap, `rest_${staff}_${measure.number}_${restCounter++}`));
+            return;
+          }
+          let tie: NoteEvent['tie'] = null;
+          if (pieces.length > 1) {
+            tie = idx === 0 ? 'start' : idx === pieces.length - 1 ? 'stop' : 'continue';
+          }
+          event.notes.forEach(n => {
+            measure.notes.push({
+              ...n,
+              id: idx === 0 ? n.id : `${n.id}_${idx}`,
+              start_time: toSeconds(piece.startBeat),
+              duration: toSeconds(piece.startBeat + piece.durationBeats) - toSeconds(piece.startBeat),
+              startBeat: piece.startBeat,
+              durationBeats: piece.durationBeats,
+              tie
+            });
+          });
+        });
+      }
+    });
+
+    measures.forEach(m => m.notes.sort((a, b) =>
+      (a.staff === b.staff ? 0 : a.staff === 'treble' ? -1 : 1) ||
+      a.startBeat! - b.startBeat! ||
+      a.midi_pitch - b.midi_pitch
+    ));
+
+    return { measures, diagnostics };
+  },
+
+  /**
+   * Serialize measures into a two-staff MusicXML 3.1 partwise score (renderable by OSMD).
+   */
+  toMusicXML(measures: Measure[], options: MusicXMLOptions = {}): string {
+    const first = measures[0];
+    const { beats, beatType } = parseTimeSignature(first?.timeSignature || '4/4');
+    const grid = measures
+      .flatMap(m => m.notes)
+      .reduce((g, n) => Math.min(g, n.durationBeats ?? 1), DEFAULT_GRID_BEATS);
+    const divisions = Math.max(1, Math.round(1 / grid));
+    const toDivisions = (b: number) => Math.max(1, Math.round(b * divisions));
+    const defaultKey = options.key ?? C_MAJOR;
+
+    const lines: string[] = [];
+    lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+    lines.push('<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 3.1 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">');
+    lines.push('<score-partwise version="3.1">');
+    lines.push(`  <work><work-title>${escapeXml(options.title || 'Transcription')}</work-title></work>`);
+    lines.push('  <part-list>');
+    lines.push('    <score-part id="P1"><part-name>Piano</part-name></score-part>');
+    lines.push('  </part-list>');
+    lines.push('  <part id="P1">');
+
+    const writeHarmony = (chord: ChordEvent, offsetBeats: number, key: KeyContext) => {
+      if (chord.root === null || chord.quality === null) return []; // N.C. only appears in lead sheets
+      const { step, alter } = spellPitchClass(chord.root, key);
+      const { kind, text } = HARMONY_KINDS[chord.quality];
+      const out = ['      <harmony print-frame="no">'];
+      out.push(`        <root><root-step>${step}</root-step>${alter !== 0 ? `<root-alter>${alter}</root-alter>` : ''}</root>`);
+      out.push(`        <kind text="${text}">${kind}</kind>`);
+      if (offsetBeats > EPSILON) out.push(`        <offset>${toDivisions(offsetBeats)}</offset>`);
+      out.push('      </harmony>');
+      return out;
+    };
+
+    // A glide is written as a slide from the last piece of the preceding note on the same staff
+    const slideStarts = new Set<string>();
+    (['treble', 'bass'] as const).forEach(staff => {
+      const sounding = measures.flatMap(m => m.notes).filter(n => n.staff === staff && !n.isRest);
+      sounding.forEach((n, i) => {
+        const isFirstPiece = n.tie === null || n.tie === 'start';
+        if (i > 0 && isFirstPiece && n.ornaments?.some(o => o.type === 'glide')) slideStarts.add(sounding[i - 1].id);
+      });
+    });
+
+    const writeNote = (n: NoteEvent, isChord: boolean, measureDuration: number, key: KeyContext) => {
+      const out: string[] = [];
+      out.push('      <note>');
+      if (isChord) out.push('        <chord/>');
+      if (n.isRest) {
+        const isMeasureRest = Math.abs((n.durationBeats ?? 0) - measureDuration) < EPSILON;
+        out.push(isMeasureRest ? '        <rest measure="yes"/>' : '        <rest/>');
+      } else {
+        const spelling = spellPitch(n.midi_pitch, key);
+        out.push('        <pitch>');
+        out.push(`          <step>${spelling.step}</step>`);
+        if (spelling.alter !== 0) out.push(`          <alter>${spelling.alter}</alter>`);
+        out.push(`          <octave>${spelling.octave}</octave>`);
+        out.push('        </pitch>');
+      }
+      out.push(`        <duration>${toDivisions(n.durationBeats ?? 0)}</duration>`);
+      const tieTypes = n.tie === 'continue' ? ['stop', 'start'] : n.tie ? [n.tie] : [];
+      tieTypes.forEach(t => out.push(`        <tie type="${t}"/>`));
+      out.push(`        <voice>${n.voice ?? 1}</voice>`);
+      const value = NOTE_VALUES.find(v => Math.abs(v.beats - (n.durationBeats ?? 0)) < EPSILON);
+      const isMeasureRest = n.isRest && Math.abs((n.durationBeats ?? 0) - measureDuration) < EPSILON;
+      if (value && !isMeasureRest) {
+        out.push(`        <type>${value.type}</type>`);
+        if (value.dotted) out.push('        <dot/>');
+      }
+      out.push(`        <staff>${n.staff === 'bass' ? 2 : 1}</staff>`);
+      const notations = tieTypes.map(t => `          <tied type="${t}"/>`);
+      if (!n.isRest) {
+        const isFirstPiece = n.tie === null || n.tie === 'start';
+        const isLastPiece = n.tie === null || n.tie === 'stop';
+        if (isFirstPiece && n.ornaments?.some(o => o.type === 'glide')) notations.push('          <slide type="stop"/>');
+        if (slideStarts.has(n.id)) notations.push('          <slide type="start" line-type="solid"/>');
+        // Vibrato and gamaka as a wavy line over the whole (possibly tied) note
+        if (n.ornaments?.some(o => o.type === 'vibrato' || o.type === 'gamaka')) {
+          const wavy: string[] = [];
+          if (isFirstPiece) wavy.push('<wavy-line type="start"/>');
+          if (isLastPiece) wavy.push('<wavy-line type="stop"/>');
+          if (wavy.length) notations.push(`          <ornaments>${wavy.join('')}</ornaments>`);
+        }
+      }
+      if (notations.length) {
+        out.push('        <notations>');
+        out.push(...notations);
+        out.push('        </notations>');
+      }
+      out.push('      </note>');
+      return out;
+    };
+
+    let lastTempo: number | null = null;
+    let lastKey: KeyContext | null = null;
+    measures.forEach((measure, i) => {
+      lines.push(`    <measure number="${measure.number}">`);
+      const key = measure.key ?? defaultKey;
+      const keyXML = `<key><fifths>${key.fifths}</fifths><mode>${key.mode}</mode></key>`;
+      if (i === 0) {
+        lines.push('      <attributes>');
+        lines.push(`        <divisions>${divisions}</divisions>`);
+        lines.push(`        ${keyXML}`);
+        lines.push(`        <time><beats>${beats}</beats><beat-type>${beatType}</beat-type></time>`);
+        lines.push('        <staves>2</staves>');
+        lines.push('        <clef number="1"><sign>G</sign><line>2</line></clef>');
+        lines.push('        <clef number="2"><sign>F</sign><line>4</line></clef>');
+        lines.push('      </attributes>');
+      } else if (lastKey && (key.fifths !== lastKey.fifths || key.mode !== lastKey.mode)) {
+        // Modulation: key signature change at this barline
+        lines.push(`      <attributes>${keyXML}</attributes>`);
+      }
+      lastKey = key;
+
+      // Metronome mark on the first measure and wherever the tempo drifts
+      const measureBpm = measure.bpm ?? options.bpm;
+      if (measureBpm && (lastTempo === null || Math.abs(measureBpm - lastTempo) / lastTempo > TEMPO_CHANGE_THRESHOLD)) {
+        const rounded = Math.round(measureBpm);
+        lines.push('      <direction placement="above">');
+        lines.push('        <direction-type><metronome><beat-unit>quarter</beat-unit>' +
+          `<per-minute>${rounded}</per-minute></metronome></direction-type>`);
+        lines.push(`        <sound tempo="${rounded}"/>`);
+        lines.push('      </direction>');
+        lastTempo = measureBpm;
+      }
+
+      (['treble', 'bass'] as const).forEach((staff, staffIdx) => {
+        if (staffIdx > 0) {
+          lines.push(`      <backup><duration>${toDivisions(measure.durationBeats)}</duration></backup>`);
+        }
+        let prevStart = -1;
+        measure.notes.filter(n => n.staff === staff).forEach(n => {
+          const isChord = !n.isRest && Math.abs((n.startBeat ?? 0) - prevStart) < EPSILON;
+          if (staffIdx === 0 && !isChord) {
+            // Chord symbols sit above the treble staff, before the note they start under
+            const start = n.startBeat ?? 0;
+            (measure.chords ?? [])
+              .filter(c => c.startBeat! >= start - EPSILON && c.startBeat! < start + (n.durationBeats ?? 0) - EPSILON)
+              .forEach(c => lines.push(...writeHarmony(c, c.startBeat! - start, key)));
+          }
+          lines.push(...writeNote(n, isChord, measure.durationBeats, key));
+          prevStart = n.startBeat ?? 0;
+        });
+      });
+
+      lines.push('    </measure>');
+    });
+
+    lines.push('  </part>');
+    lines.push('</score-partwise>');
+    return lines.join('\n');
+  },
+
+  /**
+   * Plain-text lead sheet: one slot per beat ("." = chord continues), the sounding chord
+   * restated at every barline, key changes on their own line.
+   */
+  toLeadSheet(measures: Measure[], options: LeadSheetOptions = {}): string {
+    const first = measures[0];
+    const timeSignature = first?.timeSignature || '4/4';
+    const { beatType } = parseTimeSignature(timeSignature);
+    const slotBeats = 4 / beatType;
+    const barsPerLine = options.barsPerLine ?? 4;
+    const keyLabel = (key?: KeyContext) => keyFromSignature(key ?? C_MAJOR).name;
+
+    const lines: string[] = [];
+    lines.push(`Title: ${options.title || 'Transcription'}`);
+    const header = [`Key: ${keyLabel(first?.key)}`, `Time: ${timeSignature}`];
+    if (options.bpm) header.push(`Tempo: ${Math.round(options.bpm)}`);
+    lines.push(header.join(' | '));
+    lines.push('');
+
+    let sounding = NO_CHORD_SYMBOL;
+    let lastKey = first?.key;
+    let row: string[] = [];
+    const flush = () => {
+      if (row.length) lines.push(`| ${row.join(' | ')} |`);
+      row = [];
+    };
+
+    measures.forEach(measure => {
+      if (measure.key && lastKey && (measure.key.fifths !== lastKey.fifths || measure.key.mode !== lastKey.mode)) {
+        flush();
+        lines.push(`[Key: ${keyLabel(measure.key)}]`);
+      }
+      lastKey = measure.key ?? lastKey;
+
+      const slots = Math.max(1, Math.round(measure.durationBeats / slotBeats));
+      const tokens: string[] = new Array(slots).fill('.');
+      tokens[0] = sounding;
+      (measure.chords ?? []).forEach(c => {
+        const slot = Math.min(slots - 1, Math.floor((c.startBeat! - measure.startBeat + EPSILON) / slotBeats));
+        tokens[slot] = c.symbol;
+        sounding = c.symbol;
+      });
+      row.push(tokens.join(' '));
+      if (row.length === barsPerLine) flush();
+    });
+    flush();
+    return lines.join('\n') + '\n';
+  },
+
+  /**
+   * Bhatkhande-style sargam sheet: one row per taal cycle (avartan), vibhags separated by "|"
+   * with the sam/khali/tali marks underneath. Each matra holds the swaras starting in it
+   * (written together, at the simplest subdivision that fits), "ऽ" where a swara is held and
+   * "-" for silence. Only the top line is written when notes overlap.
+   */
+  toSargamSheet(notes: NoteEvent[], options: SargamSheetOptions): string {
+    const { taal, tonic } = options;
+    const tempoMap = options.tempoMap ?? constantTempoMap(options.bpm ?? 120);
+    const matraBeats = options.matraBeats ?? taal.matraBeats;
+    const toMatra = (seconds: number) => secondsToBeats(tempoMap, seconds) / matraBeats;
+
+    const events = notes
+      .filter(n => !n.isRest && Number.isFinite(n.midi_pitch) && n.duration > 0)
+      .map(n => ({ start: Math.max(0, toMatra(n.start_time)), end: toMatra(n.start_time + n.duration), midi: Math.round(n.midi_pitch) }))
+      .sort((a, b) => a.start - b.start || b.midi - a.midi);
+    const lastMatra = events.reduce((max, e) => Math.max(max, e.end), 0);
+    const cycles = Math.max(1, Math.ceil((lastMatra - EPSILON) / taal.matras));
+
+    // Onsets belong to the matra they are nearest the start of (slightly early attacks included).
+    // Events are sorted highest pitch first within a start, so the top line keeps each onset.
+    const onsetsByMatra = new Map<number, typeof events>();
+    events.forEach((e, i) => {
+      if (i > 0 && Math.abs(events[i - 1].start - e.start) < EPSILON) return;
+      const matra = Math.floor(e.start + 1 / (2 * MATRA_DIVISIONS[MATRA_DIVISIONS.length - 1]));
+      onsetsByMatra.set(matra, [...(onsetsByMatra.get(matra) ?? []), e]);
+    });
+    const soundingAt = (matra: number) => events.some(e => e.start < matra - EPSILON && e.end > matra + 0.1);
+
+    const cell = (matra: number): string => {
+      const onsets = onsetsByMatra.get(matra) ?? [];
+      const division = MATRA_DIVISIONS.find(d => {
+        const positions = onsets.map(e => (e.start - matra) * d);
+        return positions.every(p => Math.abs(p - Math.round(p)) <= MATRA_SNAP_TOLERANCE && Math.round(p) < d) &&
+          new Set(positions.map(p => Math.max(0, Math.round(p)))).size === positions.length;
+      }) ?? MATRA_DIVISIONS[MATRA_DIVISIONS.length - 1];
+
+      const tokens: (string | null)[] = new Array(division).fill(null);
+      onsets.forEach(e => {
+        const slot = Math.min(division - 1, Math.max(0, Math.round((e.start - matra) * division)));
+        tokens[slot] ??= swaraText(sargamSwara(e.midi, tonic), { short: true });
+      });
+      return tokens.map((token, i) => token ?? (soundingAt(matra + i / division) ? SARGAM_HOLD : SARGAM_REST)).join('');
+    };
+
+    const cells = Array.from({ length: cycles * taal.matras }, (_, m) => cell(m));
+    const width = Math.max(...cells.map(swaraWidth)) + 1;
+    const pad = (text: string) => text + ' '.repeat(Math.max(0, width - swaraWidth(text)));
+
+    const lines: string[] = [];
+    lines.push(`Title: ${options.title || 'Transcription'}`);
+    const header = [`Sa: ${formatPitch(tonic, { format: 'scientific', accidentalStyle: 'sharp', showOctave: true }).display}`, `Taal: ${taal.name} (${taal.matras} matras)`];
+    if (options.bpm) header.push(`Laya: ${Math.round(options.bpm)} BPM`);
+    lines.push(header.join(' | '));
+    lines.push(`Komal: underlined | Tivra Ma: M\u030D | Mandra: dot below | Taar: dot above | ${SARGAM_HOLD}: held | ${SARGAM_REST}: rest`);
+    lines.push('');
+
+    for (let c = 0; c < cycles; c++) {
+      let row = '';
+      let marks = '';
+      let matra = c * taal.matras;
+      taal.vibhags.forEach((length, v) => {
+        const vibhag = cells.slice(matra, matra + length).map(pad).join('');
+        row += `| ${vibhag}`;
+        marks += '  ' + pad(taal.marks[v] ?? '') + ' '.repeat(width * (length - 1));
+        matra += length;
+      });
+      lines.push(row + '|');
+      lines.push(marks.trimEnd());
+      lines.push('');
+    }
+    return lines.join('\n');
+  }
+};
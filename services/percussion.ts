@@ -0,0 +1,255 @@
+
+// Synthesized percussion for the rhythm engine. Every sound id a RhythmPattern step can use
+// (a tabla bol or a kit piece) is registered here with its own graph. Tabla strokes take
+// their pitch from the current tuning, so the dayan sits on Sa.
+
+export interface PercussionTuning {
+  dayanHz: number; // Treble drum, tuned to Sa
+  bayanHz: number; // Bass drum
+}
+
+export interface DrumHit {
+  context: BaseAudioContext;
+  output: AudioNode;
+  startTime: number; // Context seconds
+  velocity: number; // 0-1
+  tuning: PercussionTuning;
+}
+
+export interface PercussionSound {
+  id: string;
+  name: string;
+  // Build and schedule one stroke. Returns every source started, each already scheduled to stop.
+  play: (hit: DrumHit) => AudioScheduledSourceNode[];
+}
+
+const sounds = new Map<string, PercussionSound>();
+
+export const registerPercussion = (sound: PercussionSound) => {
+  sounds.set(sound.id, sound);
+};
+
+export const getPercussion = (id: string): PercussionSound | null => sounds.get(id) ?? null;
+
+export const listPercussion = (): PercussionSound[] => Array.from(sounds.values());
+
+/**
+ * Tabla tuning for a tonic: the dayan on Sa in the octave where tablas are usually tuned
+ * (G3 to F#4), the bayan loosely on the lower Pa, an octave and a fourth below it.
+ */
+export const tablaTuning = (tonicMidi: number): PercussionTuning => {
+  let dayanHz = 440 * Math.pow(2, (tonicMidi - 69) / 12);
+  while (dayanHz < 196) dayanHz *= 2;
+  while (dayanHz >= 392) dayanHz /= 2;
+  return { dayanHz, bayanHz: dayanHz * 3 / 8 };
+};
+
+// --- Building blocks ---
+
+/**
+ * One vibrating mode of a drum head or bar: a sine struck at `level` and falling 60 dB over
+ * `decay` seconds. `bend` starts it off-pitch by a ratio and settles it over `bendTime`,
+ * as a head does when struck hard or pressed.
+ */
+const mode = (
+  hit: DrumHit,
+  destination: AudioNode,
+  frequency: number,
+  level: number,
+  decay: number,
+  bend?: { from: number; time: number }
+): OscillatorNode => {
+  const { context, startTime: t } = hit;
+  const osc = context.createOscillator();
+  osc.frequency.setValueAtTime(frequency * (bend?.from ?? 1), t);
+  if (bend) osc.frequency.exponentialRampToValueAtTime(frequency, t + bend.time);
+  const amp = context.createGain();
+  amp.gain.setValueAtTime(level * hit.velocity, t);
+  amp.gain.setTargetAtTime(0, t, decay / 6.9);
+  osc.connect(amp).connect(destination);
+  osc.start(t);
+  osc.stop(t + decay);
+  return osc;
+};
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+// A burst of filtered white noise falling 60 dB over `decay` seconds
+const noiseHit = (
+  hit: DrumHit,
+  destination: AudioNode,
+  level: number,
+  decay: number,
+  filter: { type: BiquadFilterType; frequency: number; q?: number },
+  delay = 0
+): AudioBufferSourceNode => {
+  const { context } = hit;
+  const t = hit.startTime + delay;
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(context, buffer);
+  }
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  const shape = context.createBiquadFilter();
+  shape.type = filter.type;
+  shape.frequency.value = Math.min(filter.frequency, context.sampleRate / 2 - 100);
+  shape.Q.value = filter.q ?? 1;
+  const amp = context.createGain();
+  amp.gain.setValueAtTime(level * hit.velocity, t);
+  amp.gain.setTargetAtTime(0, t, decay / 6.9);
+  source.connect(shape).connect(amp).connect(destination);
+  source.start(t, Math.random() * 0.5);
+  source.stop(t + decay);
+  return source;
+};
+
+// Inharmonic square-wave cluster (the classic analogue cymbal) through a high band
+const METAL_RATIOS = [2, 3, 4.16, 5.43, 6.79, 8.21];
+
+const metal = (hit: DrumHit, level: number, decay: number, base: number, band: number): OscillatorNode[] => {
+  const { context, startTime: t } = hit;
+  const bandpass = context.createBiquadFilter();
+  bandpass.type = 'bandpass';
+  bandpass.frequency.value = Math.min(band, context.sampleRate / 2 - 100);
+  const highpass = context.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.value = Math.min(band * 0.7, context.sampleRate / 2 - 100);
+  const amp = context.createGain();
+  amp.gain.setValueAtTime(level * hit.velocity, t);
+  amp.gain.setTargetAtTime(0, t, decay / 6.9);
+  bandpass.connect(highpass).connect(amp).connect(hit.output);
+  return METAL_RATIOS.map(ratio => {
+    const osc = context.createOscillator();
+    osc.type = 'square';
+    osc.frequency.value = base * ratio;
+    osc.connect(bandpass);
+    osc.start(t);
+    osc.stop(t + decay);
+    return osc;
+  });
+};
+
+// --- Tabla ---
+// The syahi loads the dayan's head so its modes fall close to a harmonic series (Raman);
+// where it is struck decides which of them ring. The bayan is larger and unloaded at the
+// edge, a deep mode that the wrist can bend.
+
+interface DayanStroke {
+  modes: { ratio: number; level: number; decay: number }[];
+  click: number; // Level of the finger's contact noise
+}
+
+const DAYAN_STROKES: Record<string, DayanStroke> = {
+  // Rim stroke: the upper harmonics ring bright
+  na: { modes: [{ ratio: 1, level: 0.35, decay: 0.35 }, { ratio: 2, level: 0.5, decay: 0.3 }, { ratio: 3, level: 0.4, decay: 0.22 }, { ratio: 4, level: 0.25, decay: 0.15 }, { ratio: 5, level: 0.15, decay: 0.1 }], click: 0.3 },
+  // Near the rim with the fundamental damped by the ring finger
+  ta: { modes: [{ ratio: 2, level: 0.55, decay: 0.25 }, { ratio: 3, level: 0.45, decay: 0.2 }, { ratio: 4, level: 0.3, decay: 0.12 }], click: 0.35 },
+  // Open stroke on the maidan: a long second harmonic
+  tin: { modes: [{ ratio: 1, level: 0.25, decay: 0.5 }, { ratio: 2, level: 0.6, decay: 0.7 }, { ratio: 3, level: 0.15, decay: 0.3 }], click: 0.12 },
+  // Centre stroke: the fundamental alone, long
+  tun: { modes: [{ ratio: 1, level: 0.8, decay: 0.9 }, { ratio: 2, level: 0.15, decay: 0.4 }], click: 0.05 },
+  // Closed stroke on the syahi: damped at once
+  te: { modes: [{ ratio: 1, level: 0.3, decay: 0.06 }], click: 0.5 }
+};
+
+const dayan = (hit: DrumHit, stroke: DayanStroke): AudioScheduledSourceNode[] => [
+  ...stroke.modes.map(m => mode(hit, hit.output, hit.tuning.dayanHz * m.ratio, m.level, m.decay, { from: 1.01, time: 0.02 })),
+  noiseHit(hit, hit.output, stroke.click, 0.025, { type: 'bandpass', frequency: 4000 })
+];
+
+// Open bayan stroke, sliding up as the heel of the hand presses the head
+const ge = (hit: DrumHit): AudioScheduledSourceNode[] => [
+  mode(hit, hit.output, hit.tuning.bayanHz, 1, 0.9, { from: 0.85, time: 0.12 }),
+  mode(hit, hit.output, hit.tuning.bayanHz * 2.1, 0.15, 0.3),
+  noiseHit(hit, hit.output, 0.25, 0.05, { type: 'lowpass', frequency: 300 })
+];
+
+// Closed bayan slap: the flat hand kills the head
+const ke = (hit: DrumHit): AudioScheduledSourceNode[] => [
+  mode(hit, hit.output, hit.tuning.bayanHz * 1.2, 0.4, 0.05),
+  noiseHit(hit, hit.output, 0.6, 0.06, { type: 'lowpass', frequency: 700 })
+];
+
+const bol = (id: string, name: string, play: (hit: DrumHit) => AudioScheduledSourceNode[]) =>
+  registerPercussion({ id: `tabla_${id}`, name: `Tabla ${name}`, play });
+
+Object.entries(DAYAN_STROKES).forEach(([id, stroke]) => bol(id, id[0].toUpperCase() + id.slice(1), hit => dayan(hit, stroke)));
+bol('ge', 'Ge', ge);
+bol('ke', 'Ke', ke);
+// Bols on both drums at once
+bol('dha', 'Dha', hit => [...dayan(hit, DAYAN_STROKES.na), ...ge(hit)]);
+bol('dhin', 'Dhin', hit => [...dayan(hit, DAYAN_STROKES.tin), ...ge(hit)]);
+bol('dhi', 'Dhi', hit => [...dayan(hit, DAYAN_STROKES.tun), ...ge(hit)]);
+
+// --- Drum kit ---
+
+registerPercussion({
+  id: 'kick',
+  name: 'Kick',
+  play: hit => [
+    mode(hit, hit.output, 50, 1, 0.45, { from: 3, time: 0.1 }),
+    noiseHit(hit, hit.output, 0.15, 0.01, { type: 'highpass', frequency: 2000 })
+  ]
+});
+
+registerPercussion({
+  id: 'snare',
+  name: 'Snare',
+  play: hit => [
+    mode(hit, hit.output, 185, 0.5, 0.12),
+    mode(hit, hit.output, 330, 0.3, 0.08),
+    noiseHit(hit, hit.output, 0.6, 0.2, { type: 'highpass', frequency: 1200 })
+  ]
+});
+
+registerPercussion({ id: 'hihat_closed', name: 'Hi-Hat (Closed)', play: hit => metal(hit, 0.35, 0.05, 40, 10000) });
+registerPercussion({ id: 'hihat_open', name: 'Hi-Hat (Open)', play: hit => metal(hit, 0.3, 0.35, 40, 10000) });
+registerPercussion({ id: 'ride', name: 'Ride', play: hit => metal(hit, 0.2, 1.2, 60, 6000) });
+registerPercussion({
+  id: 'crash',
+  name: 'Crash',
+  play: hit => [...metal(hit, 0.25, 1.5, 45, 7000), noiseHit(hit, hit.output, 0.3, 1.2, { type: 'highpass', frequency: 5000 })]
+});
+
+// A few hands clapping a few milliseconds apart, then the room
+registerPercussion({
+  id: 'clap',
+  name: 'Clap',
+  play: hit => [
+    ...[0, 0.01, 0.02].map(delay => noiseHit(hit, hit.output, 0.5, 0.03, { type: 'bandpass', frequency: 1200, q: 1.5 }, delay)),
+    noiseHit(hit, hit.output, 0.3, 0.2, { type: 'bandpass', frequency: 1200, q: 1.5 }, 0.03)
+  ]
+});
+
+registerPercussion({
+  id: 'rimshot',
+  name: 'Rimshot',
+  play: hit => [mode(hit, hit.output, 1700, 0.4, 0.03), noiseHit(hit, hit.output, 0.4, 0.02, { type: 'bandpass', frequency: 3000 })]
+});
+
+registerPercussion({ id: 'tom_low', name: 'Tom (Low)', play: hit => [mode(hit, hit.output, 110, 0.8, 0.4, { from: 1.3, time: 0.08 })] });
+registerPercussion({ id: 'tom_high', name: 'Tom (High)', play: hit => [mode(hit, hit.output, 180, 0.7, 0.3, { from: 1.3, time: 0.06 })] });
+registerPercussion({ id: 'shaker', name: 'Shaker', play: hit => [noiseHit(hit, hit.output, 0.3, 0.08, { type: 'bandpass', frequency: 6000, q: 0.7 })] });
+
+// Dhol: the dagga (stick) side booms, the tilli (cane) side cracks
+registerPercussion({
+  id: 'dhol_dagga',
+  name: 'Dhol (Dagga)',
+  play: hit => [
+    mode(hit, hit.output, 70, 1, 0.6, { from: 1.4, time: 0.05 }),
+    noiseHit(hit, hit.output, 0.3, 0.08, { type: 'lowpass', frequency: 400 })
+  ]
+});
+registerPercussion({
+  id: 'dhol_tilli',
+  name: 'Dhol (Tilli)',
+  play: hit => [mode(hit, hit.output, 600, 0.3, 0.05), noiseHit(hit, hit.output, 0.5, 0.06, { type: 'bandpass', frequency: 2500, q: 2 })]
+});
+
+// Metronome tick
+registerPercussion({ id: 'click', name: 'Click', play: hit => [mode(hit, hit.output, 1500, 0.5, 0.03)] });
@@ -0,0 +1,42 @@
+import { PitchReading } from '../types';
+import { audioEngine } from './audioEngine';
+
+// Continuous pitch readings from a live MediaStream: an AnalyserNode exposes the latest
+// window of input, which is run through the engine's YIN detector once per hop.
+
+export interface PitchTrackerOptions {
+  windowSize?: number; // Samples per estimate; 2048 reaches down to ~60 Hz
+  hopSize?: number; // Samples between estimates
+}
+
+export const PitchTrackerService = {
+  /**
+   * Start reading pitch from `stream`. Returns a function that stops tracking; the stream's
+   * tracks are left running.
+   */
+  start(stream: MediaStream, onReading: (reading: PitchReading) => void, options: PitchTrackerOptions = {}): () => void {
+    const context = audioEngine.context;
+    if (!context) throw new Error("Audio Context not initialized");
+    const windowSize = options.windowSize ?? 2048;
+    const hopSize = options.hopSize ?? 1024;
+
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = windowSize;
+    analyser.smoothingTimeConstant = 0;
+    source.connect(analyser);
+    const samples = new Float32Array(windowSize);
+
+    const timer = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const { frequency, confidence, rms } = audioEngine.detectPitch(samples, context.sampleRate);
+      onReading({ time: context.currentTime - windowSize / 2 / context.sampleRate, frequency, confidence, rms });
+    }, (hopSize / context.sampleRate) * 1000);
+
+    return () => {
+      clearInterval(timer);
+      source.disconnect();
+      analyser.disconnect();
+    };
+  }
+};
@@ -0,0 +1,119 @@
+import { NoteEvent, PerformanceScore, TempoMap } from '../types';
+import { audioEngine } from './audioEngine';
+import { PitchTrackerService } from './pitchTrackerService';
+import { scorePerformance, PerformedPitch } from '../utils/performanceScoring';
+import { frequencyToMidi, STANDARD_REFERENCE_HZ } from '../utils/tuning';
+
+// Sing/play-along: the reference (the transcription through playNote, or the original
+// recording) plays while the microphone is pitch-tracked on the same clock. The readings are
+// graded against the transcription when the reference runs out or the user stops.
+
+export type PracticePlayback = 'notes' | 'audio';
+
+export interface PracticeSessionOptions {
+  reference: NoteEvent[]; // What the performance is graded against
+  playback: PracticePlayback;
+  voice?: string; // For 'notes' playback
+  tempo?: { bpm: number; tempoMap?: TempoMap }; // 'notes' playback takes the engine's groove on this tempo; straight without
+  audioElement?: HTMLAudioElement; // Original recording, required for 'audio' playback
+  referenceHz?: number; // Tuning of the original recording; performances along with it are read against it
+  onTime?: (time: number) => void; // Reference clock, for the playhead
+  onFinished?: (score: PerformanceScore) => void; // Called once the reference has run out
+}
+
+export interface PracticeSession {
+  stop: () => PerformanceScore;
+  cancel: () => void;
+}
+
+const LEAD_IN_SECONDS = 1; // Silence before the first transcribed note
+const LOOKAHEAD_SECONDS = 0.2;
+const SCHEDULER_INTERVAL_MS = 25;
+const TAIL_SECONDS = 1; // Keep listening after the last note ends
+
+export const PracticeSessionService = {
+  /**
+   * Start playing the reference and grading `stream`. The stream's tracks are left running.
+   */
+  start(stream: MediaStream, options: PracticeSessionOptions): PracticeSession {
+    const context = audioEngine.context;
+    if (!context) throw new Error("Audio Context not initialized");
+    const audio = options.audioElement;
+    if (options.playback === 'audio' && !audio) throw new Error("No original audio to play along with");
+
+    const notes = options.reference
+      .filter(n => !n.isRest && n.duration > 0)
+      .slice()
+      .sort((a, b) => a.start_time - b.start_time);
+    const end = notes.reduce((t, n) => Math.max(t, n.start_time + n.duration), 0);
+    // What is heard may be grooved; grading stays against the transcription as written
+    const played = options.tempo
+      ? audioEngine.grooveNotes(notes, options.tempo).sort((a, b) => a.start_time - b.start_time)
+      : notes;
+
+    // Reference time now. Transcribed notes are scheduled on the AudioContext clock; the
+    // original recording is followed through the media element's own position.
+    const origin = context.currentTime + LEAD_IN_SECONDS;
+    const clock = options.playback === 'audio'
+      ? () => audio!.currentTime
+      : () => context.currentTime - origin;
+    if (options.playback === 'audio') {
+      audio!.currentTime = 0;
+      audio!.play().catch(e => console.warn("Practice playback failed", e));
+    }
+
+    // The performer hears the reference late by the output latency and is captured late by
+    // roughly the same again; base + output latency is the best estimate the API offers
+    const latency = context.baseLatency + (context.outputLatency ?? 0);
+    // playTone plays at A4 = 440 Hz; the original recording may be tuned elsewhere
+    const referenceHz = options.playback === 'audio' ? options.referenceHz ?? STANDARD_REFERENCE_HZ : STANDARD_REFERENCE_HZ;
+
+    const readings: PerformedPitch[] = [];
+    const stopTracking = PitchTrackerService.start(stream, reading => {
+      const time = clock() - (context.currentTime - reading.time) - latency;
+      if (time < 0) return;
+      readings.push({ time, midi: reading.frequency > 0 ? frequencyToMidi(reading.frequency, referenceHz) : null });
+    });
+
+    let nextNote = 0;
+    let finished = false;
+    // Stopped early, only the notes reached so far are graded, cut off where playback stopped
+    const finish = (until: number = Infinity): PerformanceScore => {
+      finished = true;
+      clearInterval(timer);
+      stopTracking();
+      if (options.playback === 'audio') audio!.pause();
+      const attempted = notes
+        .filter(n => n.start_time < until)
+        .map(n => n.start_time + n.duration > until ? { ...n, duration: until - n.start_time } : n);
+      return scorePerformance(attempted, readings);
+    };
+
+    const timer = window.setInterval(() => {
+      const now = clock();
+      if (options.playback === 'notes') {
+        while (nextNote < played.length && played[nextNote].start_time < now + LOOKAHEAD_SECONDS) {
+          const n = played[nextNote++];
+          audioEngine.playNote(n, options.voice, origin + n.start_time, 'synth');
+        }
+      }
+      options.onTime?.(Math.max(0, now));
+      if (now > end + TAIL_SECONDS || (options.playback === 'audio' && audio!.ended)) {
+        options.onFinished?.(finish());
+      }
+    }, SCHEDULER_INTERVAL_MS);
+
+    return {
+      stop: () => {
+        const score = finish(clock());
+        if (options.playback === 'notes') audioEngine.stopAllTones(); // Drop notes already scheduled
+        return score;
+      },
+      cancel: () => {
+        if (finished) return;
+        finish();
+        if (options.playback === 'notes') audioEngine.stopAllTones();
+      }
+    };
+  }
+};
@@ -0,0 +1,330 @@
+import { NoteEvent, TempoMap } from '../types';
+import { RhythmPattern } from '../components/constants';
+import { audioEngine } from './audioEngine';
+import { secondsToBeats, beatsToSeconds } from '../utils/tempoMap';
+
+// Playback of the transcription itself. A look-ahead scheduler, like the rhythm engine's,
+// places every note at its exact AudioContext time. The accompaniment rhythm is scheduled from
+// the same window on the score's beats, so it stays in phase through seeks and loops, and an
+// attached media element (the original recording) is followed as the master clock, re-anchored
+// exactly whenever it has seeked or buffered so the two stay phase-locked. Notes play through
+// the mixer's transcription channel.
+
+export interface ScoreLoop {
+  start: number; // seconds
+  end: number;
+}
+
+// Part ids: a staff ('treble', 'bass') or one voice on it ('treble:2')
+export interface ScoreMix {
+  solo: string[];
+  muted: string[];
+}
+
+export interface ScoreTempo {
+  bpm: number;
+  tempoMap?: TempoMap;
+}
+
+type ScoreListener = (time: number, playing: boolean) => void;
+
+const LOOKAHEAD_SECONDS = 0.1;
+const SCHEDULER_INTERVAL_MS = 25;
+const START_DELAY_SECONDS = 0.05; // Room to schedule the first notes before they are due
+const MEDIA_DRIFT_SECONDS = 0.04; // Re-anchor to the recording beyond this
+const SPLIT_PITCH = 60; // Staff for notes without one, as the notation service splits them
+export const MIN_LOOP_SECONDS = 0.25;
+const NOTIFY_INTERVAL_MS = 250; // Playhead updates while playing; state changes are sent at once
+
+// The staff and voice a note is played (and soloed or muted) as
+export const scorePart = (note: NoteEvent): { staff: 'treble' | 'bass'; voice: number } => ({
+  staff: note.staff ?? (note.midi_pitch >= SPLIT_PITCH ? 'treble' : 'bass'),
+  voice: note.voice ?? 1
+});
+
+const partIds = (note: NoteEvent): string[] => {
+  const { staff, voice } = scorePart(note);
+  return [staff, `${staff}:${voice}`];
+};
+
+export class ScorePlayer {
+  private notes: NoteEvent[] = []; // Playable notes, sorted by onset
+  private tempo: ScoreTempo = { bpm: 120 };
+  private voice = 'piano';
+  private end = 0; // Score time the last note ends
+
+  private playing = false;
+  private origin = 0; // Context time of score time 0
+  private position = 0; // Score time while paused
+  private scheduledUntil = 0; // Score time scheduled so far
+  private nextNote = 0;
+  private timerID: number | null = null;
+  private mediaSeekID: number | null = null; // The recording's jump back at a loop's end
+  private sources = new Set<AudioScheduledSourceNode>();
+
+  private loop: ScoreLoop | null = null;
+  private mix: ScoreMix = { solo: [], muted: [] };
+  private differenceBelow: number | null = null; // Only notes under this confidence play
+  private rhythm: RhythmPattern | null = null;
+  private media: HTMLMediaElement | null = null;
+  private resync = false; // Take the recording's position exactly once it plays again
+  private listeners = new Set<ScoreListener>();
+  private notifiedAt = -Infinity; // performance.now() of the last notification
+
+  /**
+   * Notes to play, already grooved if wanted, on `tempo`. Playback carries on from the same
+   * position when the notes change underneath it.
+   */
+  load(notes: NoteEvent[], tempo: ScoreTempo) {
+    this.notes = notes.filter(n => !n.isRest && n.duration > 0).sort((a, b) => a.start_time - b.start_time);
+    this.tempo = tempo;
+    this.end = this.notes.reduce((t, n) => Math.max(t, n.start_time + n.duration), 0);
+    this.nextNote = this.firstNoteFrom(this.scheduledUntil);
+  }
+
+  setVoice(voice: string) {
+    this.voice = voice;
+  }
+
+  // Solo wins over mute: with anything soloed only soloed parts play
+  setMix(mix: ScoreMix) {
+    this.mix = mix;
+  }
+
+  // Difference mode: only the notes the transcriber was unsure of, against the original
+  setDifference(threshold: number | null) {
+    this.differenceBelow = threshold;
+  }
+
+  // The loop takes over from the next scheduling pass; a region too short to hear clears it
+  setLoop(loop: ScoreLoop | null) {
+    this.loop = loop && loop.end - loop.start >= MIN_LOOP_SECONDS ? loop : null;
+    if (this.loop && this.playing && (this.currentTime < this.loop.start || this.currentTime >= this.loop.end)) {
+      this.seek(this.loop.start);
+    }
+  }
+
+  // Accompany the score with `pattern` on its beats, or not at all
+  setRhythm(pattern: RhythmPattern | null) {
+    this.rhythm = pattern;
+  }
+
+  /**
+   * Lock to a media element: play, pause and seek drive it too, and while it plays the score
+   * follows its position. Detaching leaves the element as it is.
+   */
+  attachMedia(element: HTMLMediaElement | null) {
+    if (element === this.media) return;
+    if (this.media && this.playing) this.media.pause();
+    this.media = element;
+    if (element && this.playing) {
+      audioEngine.connectElement(element);
+      this.resync = true;
+      element.currentTime = this.currentTime;
+      element.play().catch(e => console.warn("Original audio playback failed", e));
+    }
+  }
+
+  subscribe(listener: ScoreListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  get duration() {
+    return Math.max(this.end, this.media && isFinite(this.media.duration) ? this.media.duration : 0);
+  }
+
+  get currentTime(): number {
+    const context = audioEngine.context;
+    if (!this.playing || !context) return this.position;
+    const time = context.currentTime - this.origin;
+    // Just after a loop wraps the origin already points at the next pass
+    if (this.loop && time < this.loop.start) return Math.max(0, time + this.loop.end - this.loop.start);
+    return Math.max(0, time);
+  }
+
+  async play(from: number = this.position) {
+    if (this.playing) return;
+    await audioEngine.ensureContext();
+    const context = audioEngine.context;
+    if (!context) throw new Error("Audio Context not initialized");
+    if (this.loop && (from < this.loop.start || from >= this.loop.end)) from = this.loop.start;
+    if (!this.loop && from >= this.duration) from = 0;
+
+    this.playing = true;
+    this.anchor(context.currentTime + START_DELAY_SECONDS - from, from);
+    if (this.media) {
+      audioEngine.connectElement(this.media); // Through the mixer's original channel
+      this.resync = true;
+      this.media.currentTime = from;
+      this.media.play().catch(e => console.warn("Original audio playback failed", e));
+    }
+    this.notify();
+    this.tick();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.position = this.currentTime;
+    this.playing = false;
+    if (this.timerID) clearTimeout(this.timerID);
+    this.timerID = null;
+    this.cancelMediaSeek();
+    this.media?.pause();
+    this.silence();
+    this.notify();
+  }
+
+  seek(time: number) {
+    const target = Math.max(0, time);
+    if (this.media) {
+      this.resync = true;
+      this.media.currentTime = target;
+    }
+    if (!this.playing) {
+      this.position = target;
+      this.scheduledUntil = target;
+      this.nextNote = this.firstNoteFrom(target);
+      this.notify();
+      return;
+    }
+    const context = audioEngine.context!;
+    this.cancelMediaSeek();
+    this.silence();
+    this.anchor(context.currentTime + START_DELAY_SECONDS - target, target);
+  }
+
+  private anchor(origin: number, from: number) {
+    this.origin = origin;
+    this.scheduledUntil = from;
+    this.nextNote = this.firstNoteFrom(from);
+  }
+
+  private firstNoteFrom(time: number): number {
+    let lo = 0;
+    let hi = this.notes.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.notes[mid].start_time < time) lo = mid + 1; else hi = mid;
+    }
+    return lo;
+  }
+
+  private cancelMediaSeek() {
+    if (this.mediaSeekID) clearTimeout(this.mediaSeekID);
+    this.mediaSeekID = null;
+  }
+
+  // Cut short everything this player has scheduled or is sounding
+  private silence() {
+    this.sources.forEach(source => {
+      try { source.stop(); } catch (e) {}
+    });
+    this.sources.clear();
+  }
+
+  private track(sources: AudioScheduledSourceNode[]) {
+    sources.forEach(source => {
+      this.sources.add(source);
+      source.addEventListener('ended', () => this.sources.delete(source));
+    });
+  }
+
+  private audible(note: NoteEvent): boolean {
+    const ids = partIds(note);
+    if (this.differenceBelow !== null && note.confidence >= this.differenceBelow) return false;
+    if (this.mix.solo.length) return ids.some(id => this.mix.solo.includes(id));
+    return !ids.some(id => this.mix.muted.includes(id));
+  }
+
+  private notify() {
+    this.notifiedAt = performance.now();
+    const time = this.currentTime;
+    this.listeners.forEach(listener => listener(time, this.playing));
+  }
+
+  private tick() {
+    const context = audioEngine.context;
+    if (!this.playing || !context) return;
+    const media = this.media;
+
+    // Hold while the recording seeks or buffers, then pick up from where it really is
+    const holding = !!media && (media.seeking || media.readyState < 3);
+    // Between a loop wrap being scheduled and the recording jumping back the two clocks
+    // legitimately disagree by a loop length
+    const expected = context.currentTime - this.origin;
+    const wrapping = this.mediaSeekID !== null || (!!this.loop && expected < this.loop.start);
+    if (holding) this.resync = true;
+    if (media && !holding && !media.paused && this.mediaSeekID === null && (this.resync || !wrapping)) {
+      const drift = media.currentTime - expected;
+      if (this.resync || Math.abs(drift) > MEDIA_DRIFT_SECONDS) {
+        this.resync = false;
+        this.origin -= drift;
+        this.scheduledUntil = Math.max(this.scheduledUntil, media.currentTime);
+        this.nextNote = this.firstNoteFrom(this.scheduledUntil);
+      }
+    }
+
+    if (!holding) this.scheduleWindow(context);
+
+    if (performance.now() - this.notifiedAt >= NOTIFY_INTERVAL_MS) this.notify();
+    const finished = this.loop ? false : media ? media.ended : this.currentTime > this.end;
+    if (finished) {
+      this.pause();
+      this.seek(0);
+      return;
+    }
+    this.timerID = window.setTimeout(() => this.tick(), SCHEDULER_INTERVAL_MS);
+  }
+
+  // Schedule up to the look-ahead horizon, wrapping at the loop's end as often as needed
+  private scheduleWindow(context: AudioContext) {
+    const horizon = context.currentTime + LOOKAHEAD_SECONDS;
+    for (;;) {
+      const windowEnd = horizon - this.origin;
+      const limit = this.loop ? Math.min(windowEnd, this.loop.end) : windowEnd;
+      if (limit > this.scheduledUntil) this.schedule(this.scheduledUntil, limit);
+      this.scheduledUntil = Math.max(this.scheduledUntil, limit);
+      if (!this.loop || windowEnd < this.loop.end) return;
+
+      // The next pass starts where this one ends, at `wrapAt` in context time
+      const { start, end } = this.loop;
+      const wrapAt = this.origin + end;
+      this.origin += end - start;
+      this.scheduledUntil = start;
+      this.nextNote = this.firstNoteFrom(start);
+      if (this.media) {
+        const media = this.media;
+        this.cancelMediaSeek();
+        this.mediaSeekID = window.setTimeout(() => {
+          this.mediaSeekID = null;
+          media.currentTime = start;
+        }, Math.max(0, (wrapAt - context.currentTime) * 1000));
+      }
+    }
+  }
+
+  private schedule(from: number, to: number) {
+    const origin = this.origin;
+    while (this.nextNote < this.notes.length && this.notes[this.nextNote].start_time < to) {
+      const note = this.notes[this.nextNote++];
+      if (note.start_time < from || !this.audible(note)) continue;
+      // A looped note stops at the loop's end rather than over the next pass
+      const duration = this.loop ? Math.min(note.duration, this.loop.end - note.start_time) : note.duration;
+      this.track(audioEngine.playTone(note.midi_pitch, duration, this.voice, origin + note.start_time, note.velocity, 'synth'));
+    }
+
+    if (this.rhythm) {
+      const { bpm, tempoMap } = this.tempo;
+      const toBeats = (seconds: number) => tempoMap ? secondsToBeats(tempoMap, seconds) : (seconds * bpm) / 60;
+      const toSeconds = (beats: number) => tempoMap ? beatsToSeconds(tempoMap, beats) : (beats * 60) / bpm;
+      this.track(audioEngine.scheduleRhythm(this.rhythm, toBeats(from), toBeats(to), beat => origin + toSeconds(beat)));
+    }
+  }
+}
+
+export const scorePlayer = new ScorePlayer();
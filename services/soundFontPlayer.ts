@@ -0,0 +1,115 @@
+import { SoundFont, SoundFontPreset, SoundFontZone, findZones, zonePlayback } from '../utils/soundFont';
+import { VoiceDefinition } from './voiceRegistry';
+
+// Sample playback of a parsed SoundFont. Each preset becomes a voice in the voice registry,
+// so playTone and everything built on it can use a bank in place of a synthesized voice.
+
+const VOICE_PREFIX = 'sf2:';
+const MAX_RELEASE_SECONDS = 8;
+
+export const soundFontVoiceId = (preset: SoundFontPreset) => `${VOICE_PREFIX}${preset.bank}:${preset.program}`;
+
+export const isSoundFontVoice = (voiceId: string) => voiceId.startsWith(VOICE_PREFIX);
+
+// Sample regions converted to AudioBuffers on first use; a bank holds far more than a
+// session plays, so nothing is decoded up front
+const sampleBuffers = new WeakMap<SoundFont, Map<string, AudioBuffer>>();
+
+const regionBuffer = (context: BaseAudioContext, font: SoundFont, start: number, end: number, sampleRate: number): AudioBuffer | null => {
+  const total = font.sampleData.byteLength >> 1;
+  const first = Math.max(0, Math.min(start, total));
+  const last = Math.max(first, Math.min(end, total));
+  if (last - first < 2 || sampleRate < 3000) return null;
+
+  let cache = sampleBuffers.get(font);
+  if (!cache) sampleBuffers.set(font, (cache = new Map()));
+  const key = `${first}:${last}:${sampleRate}`;
+  let buffer = cache.get(key);
+  if (!buffer) {
+    buffer = context.createBuffer(1, last - first, sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = font.sampleData.getInt16((first + i) * 2, true) / 32768;
+    cache.set(key, buffer);
+  }
+  return buffer;
+};
+
+/**
+ * One zone's sample through its filter, pan and volume envelope. The velocity curve stands
+ * in for the spec's default velocity-to-attenuation modulator. Loop mode 3 keeps looping
+ * through the release, as scheduling the loop's end is not possible on a source node.
+ */
+const playZone = (
+  context: BaseAudioContext,
+  font: SoundFont,
+  zone: SoundFontZone,
+  key: number,
+  detuneCents: number,
+  startTime: number,
+  duration: number,
+  velocity: number,
+  output: AudioNode
+): AudioBufferSourceNode | null => {
+  const p = zonePlayback(zone, key);
+  const buffer = regionBuffer(context, font, p.start, p.end, p.sampleRate);
+  if (!buffer) return null;
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.detune.value = p.pitchCents + detuneCents;
+  if (p.loopMode !== 0 && p.loopEnd > p.loopStart) {
+    source.loop = true;
+    source.loopStart = (p.loopStart - p.start) / p.sampleRate;
+    source.loopEnd = (p.loopEnd - p.start) / p.sampleRate;
+  }
+
+  const amp = context.createGain();
+  const env = p.envelope;
+  const peak = p.gain * velocity * velocity;
+  const attackAt = startTime + env.delay;
+  const decayAt = attackAt + env.attack + env.hold;
+  const releaseAt = startTime + Math.max(duration, env.delay + env.attack);
+  amp.gain.setValueAtTime(0, startTime);
+  amp.gain.setValueAtTime(0, attackAt);
+  amp.gain.linearRampToValueAtTime(peak, attackAt + env.attack);
+  if (decayAt < releaseAt) amp.gain.setTargetAtTime(peak * env.sustain, decayAt, env.decay / 5);
+  const release = Math.min(env.release, MAX_RELEASE_SECONDS);
+  amp.gain.setTargetAtTime(0, releaseAt, Math.max(release, 0.01) / 5);
+
+  let tail: AudioNode = amp;
+  if (p.filterCutoff < 19000) {
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = Math.min(p.filterCutoff, context.sampleRate / 2 - 100);
+    filter.Q.value = p.filterQ;
+    source.connect(filter).connect(amp);
+  } else {
+    source.connect(amp);
+  }
+  if (p.pan !== 0) {
+    const panner = context.createStereoPanner();
+    panner.pan.value = p.pan;
+    tail = amp.connect(panner);
+  }
+  tail.connect(output);
+
+  source.start(startTime);
+  source.stop(releaseAt + Math.max(release, 0.01));
+  return source;
+};
+
+// A voice playing `preset`: every zone covering the key and velocity sounds, so layered
+// and stereo (left/right sample) zones play together
+export const soundFontVoice = (font: SoundFont, preset: SoundFontPreset): VoiceDefinition => ({
+  id: soundFontVoiceId(preset),
+  play: note => {
+    const midi = 69 + 12 * Math.log2(note.frequency / 440);
+    const key = Math.max(0, Math.min(127, Math.round(midi)));
+    const velocity = Math.max(1, Math.min(127, Math.round(note.velocity * 127)));
+    return findZones(preset, key, velocity)
+      .map(zone => playZone(
+        note.context, font, zone, key, (midi - key) * 100, note.startTime, note.duration, note.velocity, note.output
+      ))
+      .filter((s): s is AudioBufferSourceNode => s !== null);
+  }
+});
@@ -0,0 +1,592 @@
+
+// Synthesized instrument voices. Each voice builds its own graph for every note it plays
+// (oscillators, plucked-string buffers, envelopes, filters) into a per-note bus that the
+// AudioEngine routes to the master and reverb; playTone picks the voice by id.
+
+export interface VoiceNote {
+  context: BaseAudioContext;
+  output: AudioNode; // Per-note bus, already routed to the master and reverb
+  frequency: number;
+  startTime: number; // Context seconds
+  duration: number; // Held length; each voice adds its own release after it
+  velocity: number; // 0-1
+}
+
+export interface VoiceDefinition {
+  id: string;
+  reverbSend?: number; // Reverb level relative to the default send
+  // Build and schedule one note. Returns every source started, each already scheduled to stop.
+  play: (note: VoiceNote) => AudioScheduledSourceNode[];
+}
+
+const registry = new Map<string, VoiceDefinition>();
+
+export const registerVoice = (voice: VoiceDefinition) => {
+  registry.set(voice.id, voice);
+};
+
+export const unregisterVoice = (id: string) => {
+  registry.delete(id);
+};
+
+// Unknown ids fall back to the grand piano
+export const getVoice = (id: string): VoiceDefinition => registry.get(id) ?? registry.get('piano')!;
+
+// --- Building blocks ---
+
+interface Envelope {
+  attack: number;
+  decay: number; // Time to settle to the sustain level
+  sustain: number; // Fraction of the peak
+  release: number; // Time to die away after the note is let go
+}
+
+/**
+ * Attack-decay-sustain-release on `param`. Decay and release are exponential approaches
+ * that have all but settled after their given times. Returns when the release is over.
+ */
+const applyEnvelope = (param: AudioParam, start: number, duration: number, peak: number, env: Envelope): number => {
+  const releaseAt = start + Math.max(duration, env.attack);
+  param.setValueAtTime(0, start);
+  param.linearRampToValueAtTime(peak, start + env.attack);
+  param.setTargetAtTime(peak * env.sustain, start + env.attack, env.decay / 4);
+  param.setTargetAtTime(0, releaseAt, env.release / 4);
+  return releaseAt + env.release;
+};
+
+const gainNode = (context: BaseAudioContext, level: number): GainNode => {
+  const gain = context.createGain();
+  gain.gain.value = level;
+  return gain;
+};
+
+const filterNode = (context: BaseAudioContext, type: BiquadFilterType, frequency: number, q = 1, gain = 0): BiquadFilterNode => {
+  const filter = context.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.value = Math.min(frequency, context.sampleRate / 2 - 100);
+  filter.Q.value = q;
+  filter.gain.value = gain;
+  return filter;
+};
+
+// Connect nodes in series; returns the first, which is the chain's input
+const chain = (...nodes: AudioNode[]): AudioNode => {
+  for (let i = 0; i < nodes.length - 1; i++) nodes[i].connect(nodes[i + 1]);
+  return nodes[0];
+};
+
+const oscillator = (
+  note: VoiceNote,
+  type: OscillatorType,
+  destination: AudioNode,
+  level: number,
+  end: number,
+  options: { ratio?: number; detune?: number } = {}
+): OscillatorNode => {
+  const osc = note.context.createOscillator();
+  osc.type = type;
+  osc.frequency.value = note.frequency * (options.ratio ?? 1);
+  osc.detune.value = options.detune ?? 0;
+  osc.connect(gainNode(note.context, level)).connect(destination);
+  osc.start(note.startTime);
+  osc.stop(end);
+  return osc;
+};
+
+// Pitch LFO on the targets' detune, fading in from `delay` seconds after the onset
+const vibrato = (
+  note: VoiceNote,
+  targets: { detune: AudioParam }[],
+  rate: number,
+  depthCents: number,
+  delay: number,
+  end: number
+): OscillatorNode => {
+  const lfo = note.context.createOscillator();
+  lfo.frequency.value = rate;
+  const depth = note.context.createGain();
+  depth.gain.setValueAtTime(0, note.startTime + delay);
+  depth.gain.linearRampToValueAtTime(depthCents, note.startTime + delay + 0.4);
+  lfo.connect(depth);
+  targets.forEach(t => depth.connect(t.detune));
+  lfo.start(note.startTime);
+  lfo.stop(end);
+  return lfo;
+};
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const noiseBuffer = (context: BaseAudioContext): AudioBuffer => {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(context, buffer);
+  }
+  return buffer;
+};
+
+// White noise into `destination`: a burst of `length` seconds, or looped until `end`
+const noise = (note: VoiceNote, destination: AudioNode, level: number, length: number | null, end?: number): AudioBufferSourceNode => {
+  const source = note.context.createBufferSource();
+  source.buffer = noiseBuffer(note.context);
+  source.connect(gainNode(note.context, level)).connect(destination);
+  if (length === null) {
+    source.loop = true;
+    source.start(note.startTime);
+    source.stop(end ?? note.startTime + note.duration);
+  } else {
+    source.start(note.startTime, 0, length);
+  }
+  return source;
+};
+
+// --- Plucked strings ---
+
+interface StringModel {
+  ringSeconds: number; // Time for the fundamental to decay by 60 dB
+  brightness: number; // 0 = dark (full averaging in the loop) .. 1 = no loop filtering
+  pick: number; // Pluck position along the string, 0-0.5; notches the excitation's harmonics
+}
+
+const PLUCK_CACHE_SIZE = 96;
+const pluckCache = new Map<string, { buffer: AudioBuffer; rate: number }>();
+
+/**
+ * Karplus-Strong string rendered into a buffer: a noise burst shaped by the pluck position
+ * recirculates through a delay of one period and a lowpass averaging filter. The loop length
+ * is a whole number of samples; the exact pitch comes from the returned playback rate.
+ */
+const pluckBuffer = (context: BaseAudioContext, frequency: number, model: StringModel) => {
+  const sampleRate = context.sampleRate;
+  const key = `${sampleRate}:${frequency.toFixed(2)}:${model.ringSeconds}:${model.brightness}:${model.pick}`;
+  const cached = pluckCache.get(key);
+  if (cached) return cached;
+
+  // The averaging filter adds half a sample of delay, less as it is blended out
+  const filterDelay = 0.5 * (1 - model.brightness);
+  const period = Math.max(2, Math.round(sampleRate / frequency - filterDelay));
+  const rate = frequency / (sampleRate / (period + filterDelay));
+  const loss = Math.pow(0.001, 1 / (frequency * model.ringSeconds)); // Per trip round the loop
+
+  const length = Math.ceil(sampleRate * Math.min(model.ringSeconds * 1.2, 6));
+  const buffer = context.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+  const excitation = new Float32Array(period);
+  const pickOffset = Math.max(1, Math.round(model.pick * period));
+  for (let i = 0; i < period; i++) excitation[i] = Math.random() * 2 - 1;
+  for (let i = period - 1; i >= pickOffset; i--) excitation[i] -= excitation[i - pickOffset];
+
+  let peak = 0;
+  for (let i = 0; i < length; i++) {
+    let value = i < period ? excitation[i] : 0;
+    if (i >= period + 1) {
+      const a = data[i - period];
+      const b = data[i - period - 1];
+      value += loss * (model.brightness * a + (1 - model.brightness) * 0.5 * (a + b));
+    } else if (i >= period) {
+      value += loss * data[i - period];
+    }
+    data[i] = value;
+    if (i < period * 4) peak = Math.max(peak, Math.abs(value));
+  }
+  if (peak > 0) for (let i = 0; i < length; i++) data[i] /= peak;
+
+  const entry = { buffer, rate };
+  pluckCache.set(key, entry);
+  if (pluckCache.size > PLUCK_CACHE_SIZE) pluckCache.delete(pluckCache.keys().next().value!);
+  return entry;
+};
+
+// A plucked string into `destination`, stopping at `end` or when it has rung out
+const pluck = (note: VoiceNote, model: StringModel, destination: AudioNode, level: number, end: number, detune = 0): AudioBufferSourceNode => {
+  const { buffer, rate } = pluckBuffer(note.context, note.frequency, model);
+  const source = note.context.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = rate;
+  source.detune.value = detune;
+  source.connect(gainNode(note.context, level)).connect(destination);
+  source.start(note.startTime);
+  source.stop(Math.min(end, note.startTime + buffer.duration / rate));
+  return source;
+};
+
+// Lets a string ring while the note is held, then damps it. Returns the damper and when it is silent.
+const damper = (note: VoiceNote, release: number): { input: GainNode; end: number } => {
+  const input = note.context.createGain();
+  const end = applyEnvelope(input.gain, note.startTime, note.duration, 1, { attack: 0.002, decay: 0.01, sustain: 1, release });
+  input.connect(note.output);
+  return { input, end };
+};
+
+/**
+ * Jawari: the broad curved bridge of the sitar and veena lets the vibrating string graze
+ * it, which buzzes. An asymmetric soft clip folds the string's energy into a dense band of
+ * upper partials, more of it the harder the pluck.
+ */
+const jawari = (context: BaseAudioContext, amount: number): WaveShaperNode => {
+  const shaper = context.createWaveShaper();
+  const curve = new Float32Array(1024);
+  const drive = 1 + amount * 4;
+  for (let i = 0; i < curve.length; i++) {
+    const x = (i / (curve.length - 1)) * 2 - 1;
+    curve[i] = Math.tanh(drive * x + amount * x * x) / Math.tanh(drive);
+  }
+  shaper.curve = curve;
+  shaper.oversample = '2x';
+  return shaper;
+};
+
+// Taraf strings tuned to Sa = C in Bilawal (the major scale), the usual default tuning
+const TARAF_MIDI = [60, 62, 64, 65, 67, 69, 71, 72, 74, 76, 77, 79, 81];
+const TARAF_RING_SECONDS = 3;
+const TARAF_BUILDUP_SECONDS = 0.25;
+const TARAF_MATCH_CENTS = 25;
+
+/**
+ * Sympathetic resonance: every taraf string that one of the played note's first four
+ * harmonics lands on starts to ring, building up over a fraction of a second and sustaining
+ * after the played string is damped. Returns the oscillators of the resonating strings.
+ */
+const sympatheticStrings = (note: VoiceNote, level: number): OscillatorNode[] => {
+  const sources: OscillatorNode[] = [];
+  TARAF_MIDI.forEach(midi => {
+    const tarafHz = 440 * Math.pow(2, (midi - 69) / 12);
+    let strength = 0;
+    for (let harmonic = 1; harmonic <= 4; harmonic++) {
+      const cents = Math.abs(1200 * Math.log2((note.frequency * harmonic) / tarafHz));
+      if (cents < TARAF_MATCH_CENTS) strength = Math.max(strength, (1 - cents / TARAF_MATCH_CENTS) / harmonic);
+    }
+    if (strength === 0) return;
+
+    const { context, startTime } = note;
+    const amp = context.createGain();
+    amp.gain.setValueAtTime(0, startTime);
+    amp.gain.linearRampToValueAtTime(level * strength * note.velocity, startTime + TARAF_BUILDUP_SECONDS);
+    amp.gain.setTargetAtTime(0, startTime + TARAF_BUILDUP_SECONDS, TARAF_RING_SECONDS / 5);
+    amp.connect(note.output);
+    const end = startTime + TARAF_BUILDUP_SECONDS + TARAF_RING_SECONDS;
+    const taraf = { ...note, frequency: tarafHz };
+    sources.push(oscillator(taraf, 'sine', amp, 1, end), oscillator(taraf, 'sine', amp, 0.3, end, { ratio: 2 }));
+  });
+  return sources;
+};
+
+// --- Voices ---
+
+// Hammered strings: two or three detuned strings per key and a sine for body through a
+// lowpass that opens with velocity and closes as the note decays, plus a hammer thump
+const piano = (id: string, brightness: number): VoiceDefinition => ({
+  id,
+  play: note => {
+    const { context, frequency, startTime: t, duration, velocity } = note;
+    const end = t + duration + 0.5;
+    const cutoff = frequency * (2 + velocity * 3 * brightness);
+    const tone = filterNode(context, 'lowpass', cutoff);
+    tone.frequency.setValueAtTime(tone.frequency.value, t);
+    tone.frequency.exponentialRampToValueAtTime(tone.frequency.value * 0.5, t + duration);
+    const amp = context.createGain();
+    amp.gain.setValueAtTime(0, t);
+    amp.gain.linearRampToValueAtTime(velocity, t + 0.01);
+    amp.gain.exponentialRampToValueAtTime(velocity * 0.6, t + 0.1);
+    amp.gain.exponentialRampToValueAtTime(0.001, end);
+    chain(tone, amp, note.output);
+    return [
+      oscillator(note, 'triangle', tone, 0.5, end, { detune: -3 }),
+      oscillator(note, 'sawtooth', tone, 0.2 * brightness, end, { detune: 3 }),
+      oscillator(note, 'sine', tone, 0.4, end),
+      noise(note, chain(filterNode(context, 'lowpass', 800 * brightness), amp), 0.15, 0.02)
+    ];
+  }
+});
+
+registerVoice(piano('piano', 1));
+registerVoice(piano('bright_piano', 1.8));
+
+// Tine electric piano: two-operator FM whose modulation index decays after the strike,
+// with a short inharmonic ping on top
+registerVoice({
+  id: 'elec_piano',
+  play: note => {
+    const { context, frequency, startTime: t, duration, velocity } = note;
+    const amp = context.createGain();
+    const end = applyEnvelope(amp.gain, t, duration, velocity * 0.8, { attack: 0.003, decay: 1.5, sustain: 0.35, release: 0.5 });
+    amp.connect(note.output);
+    const carrier = oscillator(note, 'sine', amp, 1, end);
+    const index = context.createGain();
+    index.gain.setValueAtTime(frequency * (1 + velocity * 2), t);
+    index.gain.setTargetAtTime(frequency * 0.3, t, 0.15);
+    const modulator = context.createOscillator();
+    modulator.frequency.value = frequency;
+    modulator.connect(index).connect(carrier.frequency);
+    modulator.start(t);
+    modulator.stop(end);
+    const ping = context.createGain();
+    ping.gain.setValueAtTime(velocity * 0.12, t);
+    ping.gain.setTargetAtTime(0, t, 0.05);
+    ping.connect(note.output);
+    return [carrier, modulator, oscillator(note, 'sine', ping, 1, t + 0.4, { ratio: 4.2 })];
+  }
+});
+
+// Free reeds: sawtooth reeds a few cents apart through a nasal formant, with the slow
+// swell of the bellows
+const harmonium = (id: string, reeds: { ratio: number; detune: number; level: number }[], nasalDb: number): VoiceDefinition => ({
+  id,
+  play: note => {
+    const { context, frequency, startTime: t, duration, velocity } = note;
+    const amp = context.createGain();
+    const end = applyEnvelope(amp.gain, t, duration, velocity * 0.45, { attack: 0.05, decay: 0.2, sustain: 0.85, release: 0.12 });
+    const tone = chain(
+      filterNode(context, 'lowpass', Math.min(frequency * 10, 7000), 0.7),
+      filterNode(context, 'peaking', 1300, 1.2, nasalDb),
+      amp,
+      note.output
+    );
+    const bellows = context.createOscillator();
+    bellows.frequency.value = 0.8;
+    bellows.connect(gainNode(context, velocity * 0.02)).connect(amp.gain);
+    bellows.start(t);
+    bellows.stop(end);
+    return [bellows, ...reeds.map(r => oscillator(note, 'sawtooth', tone, r.level, end, { ratio: r.ratio, detune: r.detune }))];
+  }
+});
+
+registerVoice(harmonium('harmonium_1', [{ ratio: 1, detune: -3, level: 0.5 }, { ratio: 1, detune: 3, level: 0.5 }], 3));
+// Adds the bass ("male") reed an octave down, and a more nasal voicing
+registerVoice(harmonium('harmonium_2', [
+  { ratio: 1, detune: -4, level: 0.45 },
+  { ratio: 1, detune: 4, level: 0.45 },
+  { ratio: 0.5, detune: 0, level: 0.35 }
+], 7));
+
+// Sitar: a bright plucked string buzzing on the jawari bridge, over the taraf strings
+// resonating in sympathy
+registerVoice({
+  id: 'sitar',
+  play: note => {
+    const { context, velocity } = note;
+    const { input, end } = damper(note, 0.6);
+    const bridge = chain(
+      jawari(context, 0.4 + velocity * 0.4),
+      filterNode(context, 'highpass', 90),
+      filterNode(context, 'peaking', 2800, 1, 6),
+      input
+    );
+    return [
+      pluck(note, { ringSeconds: 4, brightness: 0.85, pick: 0.12 }, bridge, velocity * 0.8, end),
+      ...sympatheticStrings(note, 0.12)
+    ];
+  }
+});
+
+// Veena: a darker, longer string with a gentler jawari and a large gourd resonance, sliding
+// into the note the way a plucked gamaka does
+registerVoice({
+  id: 'veena',
+  play: note => {
+    const { context, startTime: t, velocity } = note;
+    const { input, end } = damper(note, 0.8);
+    const bridge = chain(
+      jawari(context, 0.15 + velocity * 0.2),
+      filterNode(context, 'highpass', 60),
+      filterNode(context, 'peaking', 250, 1.5, 4),
+      input
+    );
+    const string = pluck(note, { ringSeconds: 5, brightness: 0.55, pick: 0.2 }, bridge, velocity * 0.8, end);
+    string.detune.setValueAtTime(-40, t);
+    string.detune.linearRampToValueAtTime(0, t + 0.08);
+    return [string];
+  }
+});
+
+// Shehnai: a double reed, buzzy sawtooth through two strong formants, with a quick vibrato
+registerVoice({
+  id: 'shenai',
+  play: note => {
+    const { context, startTime: t, duration, velocity } = note;
+    const amp = context.createGain();
+    const end = applyEnvelope(amp.gain, t, duration, velocity * 0.4, { attack: 0.06, decay: 0.15, sustain: 0.85, release: 0.1 });
+    amp.connect(note.output);
+    const formants = context.createGain();
+    formants.connect(filterNode(context, 'bandpass', 1100, 2)).connect(gainNode(context, 3)).connect(amp);
+    formants.connect(filterNode(context, 'bandpass', 2600, 3)).connect(gainNode(context, 2)).connect(amp);
+    formants.connect(filterNode(context, 'lowpass', 600)).connect(gainNode(context, 0.4)).connect(amp);
+    const reed = oscillator(note, 'sawtooth', formants, 1, end);
+    return [reed, vibrato(note, [reed], 6, 20, 0.15, end), noise(note, chain(filterNode(context, 'bandpass', 3000, 1), amp), 0.02, null, end)];
+  }
+});
+
+// Sarod: a fretless steel string over a skin belly; bright, shorter-lived, slid into, with
+// quieter sympathetic strings
+registerVoice({
+  id: 'sarod',
+  play: note => {
+    const { context, startTime: t, velocity } = note;
+    const { input, end } = damper(note, 0.4);
+    const belly = chain(filterNode(context, 'highpass', 120), filterNode(context, 'peaking', 600, 1.5, 5), input);
+    const string = pluck(note, { ringSeconds: 2.5, brightness: 0.9, pick: 0.08 }, belly, velocity * 0.8, end);
+    string.detune.setValueAtTime(-25, t);
+    string.detune.linearRampToValueAtTime(0, t + 0.05);
+    return [string, ...sympatheticStrings(note, 0.06)];
+  }
+});
+
+// Santur: paired strings per course struck with light mallets; left to ring
+registerVoice({
+  id: 'santur',
+  play: note => {
+    const { context, velocity } = note;
+    const { input, end } = damper(note, 1.2);
+    const model = { ringSeconds: 3.5, brightness: 0.75, pick: 0.3 };
+    return [
+      pluck(note, model, input, velocity * 0.45, end, -4),
+      pluck(note, model, input, velocity * 0.45, end, 4),
+      noise(note, chain(filterNode(context, 'highpass', 2000), input), velocity * 0.08, 0.008)
+    ];
+  }
+});
+
+// Pitched tabla (dayan): the syahi loads the head into near-harmonic modes, each decaying
+// faster than the last; the pitch settles just after the stroke, over a slap of skin noise
+registerVoice({
+  id: 'tabla_voice',
+  play: note => {
+    const { context, startTime: t, velocity } = note;
+    const end = t + 1;
+    const modes = [{ ratio: 1, level: 1, decay: 0.25 }, { ratio: 2, level: 0.5, decay: 0.15 }, { ratio: 3, level: 0.3, decay: 0.1 }, { ratio: 4, level: 0.2, decay: 0.07 }];
+    const sources: AudioScheduledSourceNode[] = modes.map(m => {
+      const amp = context.createGain();
+      amp.gain.setValueAtTime(velocity * 0.5 * m.level, t);
+      amp.gain.setTargetAtTime(0, t, m.decay / 3);
+      amp.connect(note.output);
+      const mode = oscillator(note, 'sine', amp, 1, end, { ratio: m.ratio });
+      mode.detune.setValueAtTime(70, t);
+      mode.detune.setTargetAtTime(0, t, 0.015);
+      return mode;
+    });
+    sources.push(noise(note, chain(filterNode(context, 'bandpass', 3000, 1.5), note.output), velocity * 0.2, 0.01));
+    return sources;
+  }
+});
+
+// Bansuri: a near-sine tone with a breathy edge; the breath chiffs at the attack and the
+// vibrato arrives once the note has settled
+registerVoice({
+  id: 'bansuri',
+  play: note => {
+    const { context, frequency, startTime: t, duration, velocity } = note;
+    const amp = context.createGain();
+    const end = applyEnvelope(amp.gain, t, duration, velocity * 0.6, { attack: 0.08, decay: 0.2, sustain: 0.85, release: 0.15 });
+    amp.connect(note.output);
+    const breath = context.createGain();
+    breath.gain.setValueAtTime(velocity * 0.25, t);
+    breath.gain.setTargetAtTime(velocity * 0.06, t + 0.05, 0.05);
+    breath.gain.setTargetAtTime(0, t + duration, 0.04);
+    breath.connect(note.output);
+    const tones = [
+      oscillator(note, 'sine', amp, 0.7, end),
+      oscillator(note, 'triangle', amp, 0.15, end),
+      oscillator(note, 'sine', amp, 0.1, end, { ratio: 2 })
+    ];
+    return [
+      ...tones,
+      vibrato(note, tones, 5, 12, 0.35, end),
+      noise(note, chain(filterNode(context, 'bandpass', frequency * 2, 2), breath), 1, null, end)
+    ];
+  }
+});
+
+// Violin: bowed sawtooth through the body's resonances and bridge hill, with bow noise and
+// a delayed vibrato
+registerVoice({
+  id: 'violin',
+  play: note => {
+    const { context, startTime: t, duration, velocity } = note;
+    const amp = context.createGain();
+    const end = applyEnvelope(amp.gain, t, duration, velocity * 0.35, { attack: 0.09, decay: 0.2, sustain: 0.8, release: 0.2 });
+    const body = chain(
+      filterNode(context, 'highpass', 180),
+      filterNode(context, 'peaking', 280, 2, 4),
+      filterNode(context, 'peaking', 2800, 1.5, 5),
+      filterNode(context, 'lowpass', 4500),
+      amp,
+      note.output
+    );
+    const strings = [oscillator(note, 'sawtooth', body, 0.6, end), oscillator(note, 'sawtooth', body, 0.4, end, { detune: 4 })];
+    return [
+      ...strings,
+      vibrato(note, strings, 5.6, 18, 0.25, end),
+      noise(note, chain(filterNode(context, 'bandpass', 3000, 0.7), amp), 0.05, null, end)
+    ];
+  }
+});
+
+// String ensemble: a detuned section of sawtooths with a slow bow and a gentle shared vibrato
+registerVoice({
+  id: 'strings',
+  reverbSend: 1.4,
+  play: note => {
+    const { context, startTime: t, duration, velocity } = note;
+    const amp = context.createGain();
+    const end = applyEnvelope(amp.gain, t, duration, velocity * 0.3, { attack: 0.35, decay: 0.3, sustain: 1, release: 0.6 });
+    const tone = chain(filterNode(context, 'lowpass', 3200, 0.7), amp, note.output);
+    const section = [-9, 0, 9].map(detune => oscillator(note, 'sawtooth', tone, 0.35, end, { detune }));
+    return [...section, vibrato(note, section, 4.8, 6, 0, end)];
+  }
+});
+
+// Guitars: a plucked string through the body; nylon is dark and soft, steel bright and longer
+const guitar = (id: string, model: StringModel, body: { frequency: number; gainDb: number }): VoiceDefinition => ({
+  id,
+  play: note => {
+    const { context, velocity } = note;
+    const { input, end } = damper(note, 0.3);
+    const tone = chain(filterNode(context, 'peaking', body.frequency, 1, body.gainDb), filterNode(context, 'lowpass', 5000), input);
+    return [pluck(note, model, tone, velocity * 0.8, end)];
+  }
+});
+
+registerVoice(guitar('guitar_nylon', { ringSeconds: 3, brightness: 0.35, pick: 0.2 }, { frequency: 200, gainDb: 3 }));
+registerVoice(guitar('guitar_steel', { ringSeconds: 4, brightness: 0.7, pick: 0.15 }, { frequency: 3000, gainDb: 3 }));
+
+// Synth lead: sawtooth and square through a resonant filter that sweeps down after the attack
+registerVoice({
+  id: 'synth_lead',
+  reverbSend: 0.6,
+  play: note => {
+    const { context, frequency, startTime: t, duration, velocity } = note;
+    const amp = context.createGain();
+    const end = applyEnvelope(amp.gain, t, duration, velocity * 0.35, { attack: 0.01, decay: 0.2, sustain: 0.7, release: 0.12 });
+    const sweep = filterNode(context, 'lowpass', frequency * 8, 6);
+    sweep.frequency.setValueAtTime(sweep.frequency.value, t);
+    sweep.frequency.setTargetAtTime(Math.min(frequency * 3, sweep.frequency.value), t, 0.1);
+    chain(sweep, amp, note.output);
+    const voices = [oscillator(note, 'sawtooth', sweep, 0.5, end), oscillator(note, 'square', sweep, 0.3, end, { detune: 7 })];
+    return [...voices, vibrato(note, voices, 5.5, 10, 0.4, end)];
+  }
+});
+
+// Synth pad: a wide stack of detuned sawtooths over a sub-octave, with a slowly wandering filter
+registerVoice({
+  id: 'synth_pad',
+  reverbSend: 1.6,
+  play: note => {
+    const { context, startTime: t, duration, velocity } = note;
+    const amp = context.createGain();
+    const end = applyEnvelope(amp.gain, t, duration, velocity * 0.25, { attack: 0.6, decay: 1, sustain: 0.8, release: 1.2 });
+    const tone = filterNode(context, 'lowpass', 1200, 2);
+    chain(tone, amp, note.output);
+    const sweep = context.createOscillator();
+    sweep.frequency.value = 0.25;
+    sweep.connect(gainNode(context, 400)).connect(tone.frequency);
+    sweep.start(t);
+    sweep.stop(end);
+    return [
+      sweep,
+      ...[-12, -4, 4, 12].map(detune => oscillator(note, 'sawtooth', tone, 0.25, end, { detune })),
+      oscillator(note, 'triangle', tone, 0.3, end, { ratio: 0.5 })
+    ];
+  }
+});
@@ -15,6 +15,9 @@ export interface NoteEvent {
   midi_pitch: number;
   velocity: number; // 0-1
   confidence: number; // 0-1
+  isOnset?: boolean; // Starts on a detected attack (spectral flux peak)
+  cents_deviation?: number; // Sung/played pitch minus the quantized pitch, against the detected reference tuning
+  ornaments?: NoteOrnament[]; // Vibrato, gamaka and glides found in the pitch contour
   selected?: boolean;
 
   // Canonical Notation Data
@@ -51,13 +54,24 @@ export interface Diagnostics {
   staffAssignment?: any;
 }
 
+export interface Measure {
+  number: number; // 1-based
+  startBeat: number;
+  durationBeats: number;
+  timeSignature: string; // e.g. "4/4"
+  bpm?: number; // Average tempo across the measure (from the tempo map)
+  key?: KeyContext; // Key in effect (from key regions)
+  chords?: ChordEvent[]; // Chord symbols starting in this measure
+  notes: NoteEvent[]; // Fragments & rests, ordered by staff then beat
+}
+
 export interface AudioState {
   isPlaying: boolean;
   currentTime: number;
   duration: number;
   volume: number;
   sourceUrl: string | null;
-  sourceType: 'file' | 'youtube';
+  sourceType: 'file' | 'youtube' | 'mic';
 }
 
 export interface AnalysisMetric {
@@ -93,6 +107,10 @@ export interface HistoryEntry {
   avg_confidence: number;
   bpm_detected: number;
   time_signature: string;
+  key_detected?: string; // e.g. "D major"; absent on entries saved before key detection
+  key_confidence?: number; // 0-1
+  reference_hz?: number; // Detected A4 reference, e.g. 436.8
+  audio_stored?: boolean; // Recorded take kept in IndexedDB under the entry id
   instrument_estimate: string;
   tags: string[];
   user_edits: UserEdits;
@@ -100,9 +118,130 @@ export interface HistoryEntry {
   thumbnail?: string; // Data URL or placeholder
 }
 
+export type AnalysisMode = 'monophonic' | 'polyphonic';
+
+export interface TempoEstimate {
+  bpm: number; // Quarter notes per minute, whatever the tracked beat
+  confidence: number; // 0-1
+  beatTimes: number[]; // seconds
+}
+
+// Beat timestamps with local tempo; seconds <-> beats is piecewise linear between points
+export interface TempoMapPoint {
+  time: number; // seconds
+  beat: number; // quarter-note beats from the start of the piece
+  bpm: number; // Local tempo until the next point
+}
+
+export interface TempoMap {
+  points: TempoMapPoint[]; // Sorted by time, at least one point
+}
+
+export interface MeterEstimate {
+  timeSignature: string; // e.g. "6/8"
+  beatsPerBar: number; // Tracked beats per bar
+  beatUnit: number; // Tracked beat length in quarter notes (1.5 for compound meters)
+  downbeat: number; // Index into tempo.beatTimes of the first downbeat
+  downbeatTimes: number[]; // seconds
+  confidence: number; // 0-1
+}
+
+export type KeyMode = 'major' | 'minor';
+
+// What notation needs from a key: the signature and the mode
+export interface KeyContext {
+  fifths: number; // Sharps (+) or flats (-)
+  mode: KeyMode;
+}
+
+export interface KeyCandidate extends KeyContext {
+  root: number; // Pitch class, C = 0
+  name: string; // e.g. "F# minor"
+  correlation: number; // Krumhansl-Schmuckler profile correlation (-1..1)
+}
+
+export interface KeyEstimate extends KeyCandidate {
+  confidence: number; // 0-1
+  runnerUp: KeyCandidate | null;
+}
+
+// Stretch of the piece in one key; consecutive regions mark modulations
+export interface KeyRegion {
+  startTime: number; // seconds
+  endTime: number;
+  key: KeyEstimate;
+}
+
+export type ChordQuality = 'maj' | 'min' | '7' | 'sus4' | 'sus2' | 'dim';
+
+export interface ChordEvent {
+  startTime: number; // seconds
+  endTime: number;
+  root: number | null; // Pitch class; null = no chord
+  quality: ChordQuality | null;
+  symbol: string; // Lead-sheet symbol spelled in the key, e.g. "F#m", "Bb7", "N.C."
+  confidence: number; // 0-1, mean template similarity
+  startBeat?: number; // Set by MusicNotationService
+}
+
+// Frame-level f0, kept alongside the segmented notes
+export interface PitchContourPoint {
+  time: number; // seconds
+  frequency: number; // Hz as recorded, 0 = unvoiced
+  midi: number | null; // Fractional MIDI pitch against the detected reference tuning
+  confidence: number; // 0-1
+}
+
+export interface PitchContour {
+  referenceHz: number;
+  hopSeconds: number;
+  points: PitchContourPoint[];
+}
+
+// vibrato: periodic pitch oscillation under a semitone; gamaka: wider oscillation;
+// glide: continuous slide (meend) into the note from the previous one
+export type OrnamentType = 'vibrato' | 'gamaka' | 'glide';
+
+export interface NoteOrnament {
+  type: OrnamentType;
+  startTime: number; // seconds
+  endTime: number;
+  rateHz?: number; // Oscillations only
+  extentCents?: number; // Oscillations only: half the peak-to-peak swing
+  fromMidi?: number; // Glides only: pitch the slide starts from
+}
+
+// Global tuning of the recording; all pitches are read against A4 = referenceHz
+export interface TuningEstimate {
+  referenceHz: number;
+  centsOffset: number; // Relative to A4 = 440 Hz, -50..50
+  confidence: number; // 0-1
+}
+
+// Tonic (Sa) for Hindustani sargam labels; independent of the Western key
+export interface TonicEstimate {
+  pitchClass: number; // C = 0
+  midi: number; // Madhya saptak (middle register) Sa
+  name: string; // e.g. "C#"
+  confidence: number; // 0-1
+}
+
+export interface AnalysisResult {
+  notes: NoteEvent[];
+  tempo: TempoEstimate;
+  meter: MeterEstimate;
+  key: KeyEstimate; // Global key over the whole piece
+  keyRegions: KeyRegion[];
+  chords: ChordEvent[];
+  tempoMap: TempoMap;
+  tuning: TuningEstimate;
+  tonic: TonicEstimate;
+  contour: PitchContour;
+}
+
 export interface LabelSettings {
   showLabels: boolean;
-  format: 'scientific' | 'note_only' | 'solfege';
+  format: 'scientific' | 'note_only' | 'solfege' | 'sargam';
   accidentalStyle: 'sharp' | 'flat' | 'double_sharp';
   showOctave: boolean;
   showCentOffset: boolean;
@@ -111,4 +250,84 @@ export interface LabelSettings {
   keyboardSize: 37 | 49 | 54 | 61 | 76 | 88;
   selectedVoice: string;
   selectedStyle: string;
+  analysisMode: AnalysisMode;
+}
+
+// A loaded SoundFont bank, as offered for voice selection
+export interface SoundFontInfo {
+  name: string;
+  presets: { voiceId: string; name: string; bank: number; program: number }[];
+}
+
+// Playback mixer: the original recording against the resynthesized transcription
+export type MixerChannel = 'original' | 'synth' | 'rhythm';
+
+export interface MixerStrip {
+  gain: number; // 0-1.5
+  pan: number; // -1 left .. 1 right
+  muted: boolean;
+}
+
+export interface MixerSettings {
+  strips: Record<MixerChannel, MixerStrip>;
+  crossfade: number; // -1 original only .. 1 transcription only; the rhythm is not crossfaded
+  difference: boolean; // The transcription plays only its low-confidence notes
+  differenceThreshold: number; // Confidence below which a note counts as low
 }
+
+// One live pitch estimate from the microphone (tuner, practice)
+export interface PitchReading {
+  time: number; // AudioContext seconds at the centre of the analysed window
+  frequency: number; // Hz; 0 when unvoiced
+  confidence: number; // 0-1
+  rms: number;
+}
+
+// Sing/play-along grading of a performance against a reference transcription
+export type NoteGrade = 'hit' | 'off_pitch' | 'missed';
+
+export interface NoteScore {
+  noteId: string;
+  start_time: number; // Reference timing, seconds
+  duration: number;
+  midi_pitch: number;
+  grade: NoteGrade;
+  pitchErrorCents: number | null; // Median performed minus reference, octave-folded; null when missed
+  timingErrorSec: number | null; // Performed onset minus reference onset; positive = late
+}
+
+export interface ExtraNote {
+  start_time: number; // Performance timing, seconds
+  duration: number;
+  midi_pitch: number;
+}
+
+export interface PerformanceScore {
+  notes: NoteScore[];
+  extras: ExtraNote[]; // Sung/played where the reference is silent
+  track: { time: number; midi: number | null }[]; // Performed pitch per alignment frame, in the reference's octave
+  hitRatio: number; // 0-1
+  meanAbsCents: number; // Over notes that were performed
+  meanAbsTimingSec: number;
+  score: number; // 0-100
+}
+
+// Analysis Web Worker protocol
+export type AnalysisWorkerRequest =
+  | {
+      type: 'analyze';
+      jobId: number;
+      channelData: Float32Array; // Transferred, mono
+      sampleRate: number;
+      startTime: number;
+      duration: number;
+      mode: AnalysisMode;
+    }
+  | { type: 'cancel'; jobId: number };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: number } // 0-1
+  | { type: 'partial'; jobId: number; notes: NoteEvent[] }
+  | { type: 'done'; jobId: number; result: AnalysisResult }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,149 @@
+
+// Tempo estimation (onset-strength autocorrelation) and dynamic-programming beat tracking
+// (after Ellis, "Beat Tracking by Dynamic Programming", 2007)
+
+export interface BeatTrackingOptions {
+  minBpm?: number;
+  maxBpm?: number;
+  preferredBpm?: number; // Centre of the log-Gaussian tempo prior
+  priorWidth?: number; // Prior width in octaves
+  tightness?: number; // Penalty for deviating from the ideal beat period
+}
+
+export interface BeatTrackingResult {
+  bpm: number;
+  confidence: number; // Normalized autocorrelation at the chosen lag (0-1)
+  beatFrames: number[]; // Indices into the onset envelope
+}
+
+const DEFAULT_OPTIONS: Required<BeatTrackingOptions> = {
+  minBpm: 40,
+  maxBpm: 240,
+  preferredBpm: 120,
+  priorWidth: 1.0,
+  tightness: 100
+};
+
+const normalizeEnvelope = (envelope: ArrayLike<number>): Float32Array => {
+  const n = envelope.length;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += envelope[i];
+  mean /= Math.max(1, n);
+  let variance = 0;
+  for (let i = 0; i < n; i++) variance += (envelope[i] - mean) ** 2;
+  const std = Math.sqrt(variance / Math.max(1, n)) || 1;
+  const out = new Float32Array(n);
+  for (let i = 0; i < n; i++) out[i] = envelope[i] / std;
+  return out;
+};
+
+/**
+ * Global tempo from the autocorrelation of the onset envelope, weighted by a tempo prior.
+ * Returns the beat period in frames (fractional) and a confidence.
+ */
+export const estimateTempo = (
+  envelope: ArrayLike<number>,
+  frameRate: number,
+  options: BeatTrackingOptions = {}
+): { bpm: number; period: number; confidence: number } => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const n = envelope.length;
+  const fallback = { bpm: opts.preferredBpm, period: (60 * frameRate) / opts.preferredBpm, confidence: 0 };
+  if (n < 4) return fallback;
+
+  // Zero-mean for autocorrelation
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += envelope[i];
+  mean /= n;
+  const centred = new Float32Array(n);
+  for (let i = 0; i < n; i++) centred[i] = envelope[i] - mean;
+
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / opts.maxBpm));
+  const maxLag = Math.min(n - 2, Math.ceil((60 * frameRate) / opts.minBpm));
+  if (minLag >= maxLag) return fallback;
+
+  let energy = 0;
+  for (let i = 0; i < n; i++) energy += centred[i] * centred[i];
+  if (energy <= 0) return fallback;
+
+  const ac = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    if (lag < 0) continue;
+    let sum = 0;
+    for (let i = 0; i + lag < n; i++) sum += centred[i] * centred[i + lag];
+    ac[lag] = sum / energy;
+  }
+
+  const preferredLag = (60 * frameRate) / opts.preferredBpm;
+  let bestLag = -1;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const octaves = Math.log2(lag / preferredLag) / opts.priorWidth;
+    const score = ac[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0 || ac[bestLag] <= 0) return fallback;
+
+  // Parabolic refinement of the lag
+  const a = ac[bestLag - 1], b = ac[bestLag], c = ac[bestLag + 1];
+  const denom = a - 2 * b + c;
+  const offset = denom !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom)) : 0;
+  const period = bestLag + offset;
+
+  return { bpm: (60 * frameRate) / period, period, confidence: Math.max(0, Math.min(1, b)) };
+};
+
+/**
+ * Dynamic-programming beat alignment: choose beat frames that sit on strong onsets
+ * while keeping inter-beat intervals close to `period`.
+ */
+export const alignBeats = (envelope: ArrayLike<number>, period: number, tightness: number = DEFAULT_OPTIONS.tightness): number[] => {
+  const n = envelope.length;
+  if (n === 0 || !(period > 1)) return [];
+
+  const env = normalizeEnvelope(envelope);
+  const score = new Float32Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+
+  const searchStart = Math.round(period / 2);
+  const searchEnd = Math.round(2 * period);
+
+  for (let t = 0; t < n; t++) {
+    let best = 0;
+    let bestPrev = -1;
+    for (let prev = t - searchEnd; prev <= t - searchStart; prev++) {
+      if (prev < 0) continue;
+      const dev = Math.log((t - prev) / period);
+      const candidate = score[prev] - tightness * dev * dev;
+      if (bestPrev < 0 || candidate > best) {
+        best = candidate;
+        bestPrev = prev;
+      }
+    }
+    score[t] = env[t] + (bestPrev >= 0 ? Math.max(0, best) : 0);
+    backlink[t] = bestPrev >= 0 && best > 0 ? bestPrev : -1;
+  }
+
+  // Start from the best-scoring frame within the final beat period
+  let last = n - 1;
+  for (let t = Math.max(0, n - Math.round(period)); t < n; t++) {
+    if (score[t] > score[last]) last = t;
+  }
+
+  const beats: number[] = [];
+  for (let t = last; t >= 0; t = backlink[t]) {
+    beats.push(t);
+    if (backlink[t] < 0) break;
+  }
+  return beats.reverse();
+};
+
+export const trackBeats = (envelope: ArrayLike<number>, frameRate: number, options: BeatTrackingOptions = {}): BeatTrackingResult => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const tempo = estimateTempo(envelope, frameRate, opts);
+  const beatFrames = tempo.confidence > 0 ? alignBeats(envelope, tempo.period, opts.tightness) : [];
+  return { bpm: tempo.bpm, confidence: tempo.confidence, beatFrames };
+};
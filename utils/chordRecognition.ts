@@ -0,0 +1,147 @@
+
+import { ChordEvent, ChordQuality, KeyContext } from '../types';
+import { spellPitchClass } from './pitchUtils';
+import { viterbi } from './viterbi';
+
+// Chord estimation: spectral chroma per frame, pooled per beat, matched against chord
+// templates and smoothed with Viterbi decoding (a penalty for every chord change).
+
+interface ChordTemplate {
+  quality: ChordQuality;
+  intervals: number[]; // Semitones above the root
+  suffix: string; // Lead-sheet symbol suffix
+  prior: number; // Slight bias towards common chords when templates tie (Csus2 = Gsus4)
+}
+
+export const CHORD_TEMPLATES: ChordTemplate[] = [
+  { quality: 'maj', intervals: [0, 4, 7], suffix: '', prior: 1 },
+  { quality: 'min', intervals: [0, 3, 7], suffix: 'm', prior: 1 },
+  { quality: '7', intervals: [0, 4, 7, 10], suffix: '7', prior: 0.97 },
+  { quality: 'sus4', intervals: [0, 5, 7], suffix: 'sus4', prior: 0.93 },
+  { quality: 'sus2', intervals: [0, 2, 7], suffix: 'sus2', prior: 0.92 },
+  { quality: 'dim', intervals: [0, 3, 6], suffix: 'dim', prior: 0.92 },
+];
+
+export const NO_CHORD_SYMBOL = 'N.C.';
+
+export interface ChordRecognitionOptions {
+  sharpness?: number; // Weight of template similarity in the emission score
+  changePenalty?: number; // Score cost of changing chord between beats
+  noChordSimilarity?: number; // Similarity assigned to "no chord"; wins when nothing fits better
+}
+
+const DEFAULT_OPTIONS: Required<ChordRecognitionOptions> = {
+  sharpness: 10,
+  changePenalty: 2.5,
+  noChordSimilarity: 0.55
+};
+
+const MIN_CHROMA_HZ = 55; // A1
+const MAX_CHROMA_HZ = 2000;
+
+// Pitch class per FFT bin (-1 outside the chroma range), cached per spectrum size
+const binMaps = new Map<string, Int8Array>();
+
+const binPitchClasses = (bins: number, sampleRate: number): Int8Array => {
+  const cacheKey = `${bins}@${sampleRate}`;
+  let map = binMaps.get(cacheKey);
+  if (!map) {
+    map = new Int8Array(bins).fill(-1);
+    const fftSize = (bins - 1) * 2;
+    for (let k = 1; k < bins; k++) {
+      const frequency = (k * sampleRate) / fftSize;
+      if (frequency < MIN_CHROMA_HZ || frequency > MAX_CHROMA_HZ) continue;
+      const midi = Math.round(69 + 12 * Math.log2(frequency / 440));
+      map[k] = ((midi % 12) + 12) % 12;
+    }
+    binMaps.set(cacheKey, map);
+  }
+  return map;
+};
+
+/**
+ * 12-bin chroma of a magnitude spectrum (bins 0..N/2).
+ */
+export const spectralChroma = (magnitudes: Float32Array, sampleRate: number): number[] => {
+  const map = binPitchClasses(magnitudes.length, sampleRate);
+  const chroma = new Array(12).fill(0);
+  for (let k = 0; k < magnitudes.length; k++) {
+    if (map[k] >= 0) chroma[map[k]] += magnitudes[k];
+  }
+  return chroma;
+};
+
+export const chordSymbol = (root: number | null, quality: ChordQuality | null, key: KeyContext): string => {
+  if (root === null || quality === null) return NO_CHORD_SYMBOL;
+  const { step, alter } = spellPitchClass(root, key);
+  const template = CHORD_TEMPLATES.find(t => t.quality === quality);
+  return `${step}${alter > 0 ? '#' : alter < 0 ? 'b' : ''}${template ? template.suffix : ''}`;
+};
+
+const normalize = (v: number[]): number[] => {
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+  return norm > 0 ? v.map(x => x / norm) : v.map(() => 0);
+};
+
+// Every (root, template) pair, then "no chord" as the last state
+const STATES = CHORD_TEMPLATES.flatMap(template =>
+  Array.from({ length: 12 }, (_, root) => {
+    const vector = new Array(12).fill(0);
+    template.intervals.forEach(i => { vector[(root + i) % 12] = 1; });
+    return { root, template, vector: normalize(vector) };
+  }));
+
+/**
+ * Label each segment (typically one beat) with a chord. `segmentChroma[i]` is the pooled
+ * chroma between `boundaries[i]` and `boundaries[i + 1]` (seconds). Consecutive segments with
+ * the same chord are merged; confidence is the mean template similarity over the event.
+ * `keyAt` spells each chord root in the key in effect at its start.
+ */
+export const recognizeChords = (
+  segmentChroma: number[][],
+  boundaries: number[],
+  keyAt: (time: number) => KeyContext,
+  options: ChordRecognitionOptions = {}
+): ChordEvent[] => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const noChord = STATES.length;
+  const similarities = segmentChroma.map(chroma => {
+    const unit = normalize(chroma);
+    const silent = unit.every(v => v === 0);
+    const scores = STATES.map(state =>
+      silent ? 0 : state.template.prior * state.vector.reduce((s, v, k) => s + v * unit[k], 0));
+    scores.push(silent ? 1 : opts.noChordSimilarity);
+    return scores;
+  });
+
+  const stateCount = STATES.length + 1;
+  const transition = Array.from({ length: stateCount }, (_, from) =>
+    Array.from({ length: stateCount }, (_, to) => (from === to ? 0 : opts.changePenalty)));
+  const path = viterbi(similarities.map(s => s.map(v => opts.sharpness * v)), transition);
+
+  const events: ChordEvent[] = [];
+  let runLength = 0;
+  path.forEach((state, i) => {
+    const similarity = similarities[i][state];
+    const last = events[events.length - 1];
+    if (last && path[i - 1] === state) {
+      last.confidence = (last.confidence * runLength + similarity) / (runLength + 1);
+      last.endTime = boundaries[i + 1];
+      runLength++;
+      return;
+    }
+    const root = state === noChord ? null : STATES[state].root;
+    const quality = state === noChord ? null : STATES[state].template.quality;
+    const startTime = boundaries[i];
+    events.push({
+      startTime,
+      endTime: boundaries[i + 1],
+      root,
+      quality,
+      symbol: chordSymbol(root, quality, keyAt(startTime)),
+      confidence: similarity
+    });
+    runLength = 1;
+  });
+  return events;
+};
@@ -0,0 +1,15 @@
+
+// Save a blob through a temporary link. The object URL is revoked a little later: some
+// browsers start the download only after click() returns.
+const REVOKE_DELAY_MS = 1000;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,93 @@
+
+// Radix-2 Cooley-Tukey FFT and spectrum helpers
+
+const windowCache = new Map<number, Float32Array>();
+const twiddleCache = new Map<number, { cos: Float32Array; sin: Float32Array }>();
+
+const isPowerOfTwo = (n: number) => n > 0 && (n & (n - 1)) === 0;
+
+const getTwiddles = (size: number) => {
+  let table = twiddleCache.get(size);
+  if (!table) {
+    const cos = new Float32Array(size / 2);
+    const sin = new Float32Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      cos[i] = Math.cos((-2 * Math.PI * i) / size);
+      sin[i] = Math.sin((-2 * Math.PI * i) / size);
+    }
+    table = { cos, sin };
+    twiddleCache.set(size, table);
+  }
+  return table;
+};
+
+export const hannWindow = (size: number): Float32Array => {
+  let w = windowCache.get(size);
+  if (!w) {
+    w = new Float32Array(size);
+    for (let i = 0; i < size; i++) w[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+    windowCache.set(size, w);
+  }
+  return w;
+};
+
+/**
+ * In-place iterative FFT. `re` and `im` must have the same power-of-two length.
+ */
+export const fft = (re: Float32Array | Float64Array, im: Float32Array | Float64Array): void => {
+  const n = re.length;
+  if (!isPowerOfTwo(n) || im.length !== n) {
+    throw new Error(`FFT size must be a power of two (got ${n})`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  const { cos, sin } = getTwiddles(n);
+  for (let len = 2; len <= n; len <<= 1) {
+    const half = len >> 1;
+    const step = n / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * step];
+        const wi = sin[k * step];
+        const a = i + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+/**
+ * Magnitude spectrum (bins 0..N/2) of a real frame. The frame is copied, not modified.
+ * Pass `applyWindow` when the frame has not been windowed yet.
+ */
+export const magnitudeSpectrum = (frame: Float32Array, applyWindow: boolean = false): Float32Array => {
+  const n = frame.length;
+  const re = new Float32Array(n);
+  const im = new Float32Array(n);
+  const w = applyWindow ? hannWindow(n) : null;
+  for (let i = 0; i < n; i++) re[i] = w ? frame[i] * w[i] : frame[i];
+
+  fft(re, im);
+
+  const mags = new Float32Array(n / 2 + 1);
+  for (let i = 0; i <= n / 2; i++) mags[i] = Math.sqrt(re[i] * re[i] + im[i] * im[i]);
+  return mags;
+};
+
+export const binToFrequency = (bin: number, fftSize: number, sampleRate: number) => (bin * sampleRate) / fftSize;
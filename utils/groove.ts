@@ -0,0 +1,111 @@
+import { NoteEvent, TempoMap } from '../types';
+import { GrooveTemplate } from '../components/constants';
+import { secondsToBeats, beatsToSeconds } from './tempoMap';
+
+// Groove and humanization, shared by rhythm playback (beats within a bar) and score playback
+// of transcribed notes (seconds, through the tempo).
+
+export interface Humanize {
+  timingMs: number; // Standard deviation of the timing jitter
+  velocity: number; // Standard deviation of the velocity jitter, as a fraction of the velocity
+  seed: number; // The same seed plays the same "performance" again
+}
+
+const GRID_TOLERANCE = 1e-3; // Beats; positions off the template grid get swing only
+const MAX_HUMANIZE_MS = 25;
+const MAX_HUMANIZE_VELOCITY = 0.2;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// One 0-100% amount to timing and velocity jitter
+export const humanizeAmount = (amount: number, seed: number): Humanize => ({
+  timingMs: clamp01(amount) * MAX_HUMANIZE_MS,
+  velocity: clamp01(amount) * MAX_HUMANIZE_VELOCITY,
+  seed
+});
+
+// mulberry32: small, fast and good enough for jitter
+export const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * A jitter source for one playback: each call gives the next event's timing offset (seconds)
+ * and scaled velocity. Jitter is normal, cut at two standard deviations so no stroke lands
+ * wildly off.
+ */
+export const createHumanizer = (humanize: Humanize) => {
+  const random = seededRandom(humanize.seed);
+  const normal = () => {
+    const u = 1 - random();
+    const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+    return Math.max(-2, Math.min(2, z));
+  };
+  return (velocity: number) => ({
+    offset: (normal() * humanize.timingMs) / 1000,
+    velocity: clamp01(velocity * (1 + normal() * humanize.velocity))
+  });
+};
+
+export type Humanizer = ReturnType<typeof createHumanizer>;
+
+// Move a position inside its swung pair: the first half stretches to `swing` of the pair
+const swingBeat = (beat: number, swing: number, unit: number): number => {
+  if (swing === 0.5 || unit <= 0) return beat;
+  const pair = Math.floor(beat / unit + 1e-9);
+  const phase = beat / unit - pair;
+  const warped = phase < 0.5 ? (phase / 0.5) * swing : swing + ((phase - 0.5) / 0.5) * (1 - swing);
+  return (pair + warped) * unit;
+};
+
+/**
+ * Where a step at `beat` (counted from a bar or piece start) falls, and how hard, under
+ * `groove`.
+ */
+export const grooveStep = (beat: number, velocity: number, groove: GrooveTemplate): { beat: number; velocity: number } => {
+  const position = beat * groove.resolution;
+  const step = Math.round(position);
+  const swung = swingBeat(beat, groove.swing, groove.swingUnit);
+  if (Math.abs(position - step) > GRID_TOLERANCE * groove.resolution) return { beat: swung, velocity };
+  const at = (values: number[], fallback: number) =>
+    values.length ? values[((step % values.length) + values.length) % values.length] : fallback;
+  return {
+    beat: swung + at(groove.offsets, 0),
+    velocity: clamp01(velocity * at(groove.accents, 1))
+  };
+};
+
+export interface GrooveNotesOptions {
+  bpm: number;
+  tempoMap?: TempoMap; // Tracked beats; the groove follows them when present
+  humanize?: Humanize | null;
+}
+
+/**
+ * The notes as played with `groove`: onsets move on the beat grid and velocities take the
+ * accents, then humanization jitters both. Durations are kept; rests are left alone.
+ */
+export const grooveNotes = (notes: NoteEvent[], groove: GrooveTemplate, options: GrooveNotesOptions): NoteEvent[] => {
+  const { bpm, tempoMap } = options;
+  const toBeats = (seconds: number) => tempoMap ? secondsToBeats(tempoMap, seconds) : (seconds * bpm) / 60;
+  const toSeconds = (beats: number) => tempoMap ? beatsToSeconds(tempoMap, beats) : (beats * 60) / bpm;
+  const humanizer = options.humanize ? createHumanizer(options.humanize) : null;
+
+  return notes.map(note => {
+    if (note.isRest) return note;
+    const grooved = grooveStep(toBeats(note.start_time), note.velocity, groove);
+    const jitter = humanizer?.(grooved.velocity);
+    return {
+      ...note,
+      start_time: Math.max(0, toSeconds(grooved.beat) + (jitter?.offset ?? 0)),
+      velocity: jitter?.velocity ?? grooved.velocity
+    };
+  });
+};
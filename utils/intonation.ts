@@ -0,0 +1,87 @@
+
+import { frequencyToMidi, STANDARD_REFERENCE_HZ } from './tuning';
+
+// Intonation measures for the tuner and the practice mode: cents against the nearest or a
+// target note, stability of a held pitch, and a score for holding a target.
+
+export interface IntonationReading {
+  midi: number; // Nearest semitone
+  cents: number; // Deviation from it, -50..50
+}
+
+export interface HoldSample {
+  time: number; // seconds
+  cents: number | null; // Against the target; null when unvoiced
+}
+
+export interface HoldScore {
+  score: number; // 0-100
+  meanCents: number; // Mean absolute deviation while voiced
+  heldSeconds: number; // Longest unbroken stretch within tolerance
+  voicedRatio: number; // Share of the attempt with a pitch
+}
+
+export const readIntonation = (frequency: number, referenceHz: number = STANDARD_REFERENCE_HZ): IntonationReading => {
+  const exact = frequencyToMidi(frequency, referenceHz);
+  const midi = Math.round(exact);
+  return { midi, cents: (exact - midi) * 100 };
+};
+
+/**
+ * Cents from `targetMidi`, folded into the nearest octave (-600..600) so a target can be
+ * matched in any vocal register.
+ */
+export const centsFromTarget = (frequency: number, targetMidi: number, referenceHz: number = STANDARD_REFERENCE_HZ): number => {
+  const cents = (frequencyToMidi(frequency, referenceHz) - targetMidi) * 100;
+  return ((((cents + 600) % 1200) + 1200) % 1200) - 600;
+};
+
+const MAX_SPREAD_CENTS = 25; // Spread at which a held pitch counts as fully unstable
+
+/**
+ * Stability of recent readings: 1 when the pitch is perfectly steady, falling to 0 at a
+ * standard deviation of MAX_SPREAD_CENTS. Returns null with too few readings.
+ */
+export const pitchStability = (cents: number[]): { stability: number; spreadCents: number } | null => {
+  if (cents.length < 3) return null;
+  const mean = cents.reduce((s, c) => s + c, 0) / cents.length;
+  const spreadCents = Math.sqrt(cents.reduce((s, c) => s + (c - mean) ** 2, 0) / cents.length);
+  return { stability: Math.max(0, 1 - spreadCents / MAX_SPREAD_CENTS), spreadCents };
+};
+
+/**
+ * Score an attempt at holding a target. Closeness is the mean absolute deviation while
+ * voiced (full marks within a few cents, none at 50); the hold is the longest run inside
+ * `toleranceCents` against `targetSeconds`. Both count equally.
+ */
+export const scoreHold = (
+  samples: HoldSample[],
+  options: { toleranceCents?: number; targetSeconds?: number } = {}
+): HoldScore => {
+  const tolerance = options.toleranceCents ?? 25;
+  const targetSeconds = options.targetSeconds ?? 3;
+  const voiced = samples.filter(s => s.cents !== null);
+  if (voiced.length === 0) return { score: 0, meanCents: 0, heldSeconds: 0, voicedRatio: 0 };
+
+  const meanCents = voiced.reduce((s, v) => s + Math.abs(v.cents!), 0) / voiced.length;
+
+  let heldSeconds = 0;
+  let runStart: number | null = null;
+  samples.forEach((s, i) => {
+    const inTune = s.cents !== null && Math.abs(s.cents) <= tolerance;
+    if (inTune && runStart === null) runStart = s.time;
+    if (runStart !== null && (!inTune || i === samples.length - 1)) {
+      heldSeconds = Math.max(heldSeconds, (inTune ? s.time : samples[i - 1].time) - runStart);
+      if (!inTune) runStart = null;
+    }
+  });
+
+  const closeness = Math.max(0, Math.min(1, (50 - meanCents) / 45));
+  const hold = Math.min(1, heldSeconds / targetSeconds);
+  return {
+    score: Math.round(100 * (0.5 * closeness + 0.5 * hold)),
+    meanCents,
+    heldSeconds,
+    voicedRatio: voiced.length / samples.length
+  };
+};
@@ -0,0 +1,147 @@
+
+import { KeyCandidate, KeyEstimate, KeyMode, KeyContext, KeyRegion } from '../types';
+import { keyFifths, keyName } from './pitchUtils';
+import { viterbi } from './viterbi';
+import { pearson } from './statistics';
+
+// Krumhansl-Schmuckler Key-Finding Profiles
+export const PROFILE_MAJOR = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+export const PROFILE_MINOR = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+export interface PitchClassObservation {
+  time: number; // seconds
+  pitchClass: number;
+  weight: number; // e.g. pitch confidence or salience
+}
+
+export const pitchClassProfile = (observations: PitchClassObservation[]): number[] => {
+  const chroma = new Array(12).fill(0);
+  observations.forEach(o => { chroma[o.pitchClass] += o.weight; });
+  return chroma;
+};
+
+const KEYS: { root: number; mode: KeyMode }[] = (['major', 'minor'] as KeyMode[])
+  .flatMap(mode => Array.from({ length: 12 }, (_, root) => ({ root, mode })));
+
+// Profile correlation for every entry of KEYS
+const keyCorrelations = (chroma: number[]): number[] =>
+  KEYS.map(({ root, mode }) => {
+    const profile = mode === 'major' ? PROFILE_MAJOR : PROFILE_MINOR;
+    return pearson(profile.map((_, i) => chroma[(root + i) % 12]), profile);
+  });
+
+/**
+ * Correlate a 12-bin pitch-class profile (C = 0) against all 24 rotated key profiles.
+ * Returns every key, best first.
+ */
+export const rankKeys = (chroma: number[]): KeyCandidate[] => {
+  const correlations = keyCorrelations(chroma);
+  return KEYS
+    .map(({ root, mode }, i) => ({ root, mode, name: keyName(root, mode), fifths: keyFifths(root, mode), correlation: correlations[i] }))
+    .sort((a, b) => b.correlation - a.correlation);
+};
+
+export const C_MAJOR: KeyEstimate = {
+  root: 0, mode: 'major', name: 'C major', fifths: 0, correlation: 0, confidence: 0, runnerUp: null
+};
+
+// Key from a written signature (e.g. an imported MIDI file), not from audio
+export const keyFromSignature = (signature: KeyContext): KeyEstimate => {
+  const majorRoot = (((signature.fifths * 7) % 12) + 12) % 12;
+  const root = signature.mode === 'minor' ? (majorRoot + 9) % 12 : majorRoot;
+  return { root, mode: signature.mode, name: keyName(root, signature.mode), fifths: signature.fifths, correlation: 0, confidence: 1, runnerUp: null };
+};
+
+/**
+ * Best key with a confidence and the runner-up. Confidence is the best correlation,
+ * discounted when the runner-up (often the relative or dominant key) is nearly as good.
+ */
+export const estimateKey = (chroma: number[]): KeyEstimate => {
+  if (!chroma.some(v => v > 0)) return C_MAJOR;
+  const [best, runnerUp] = rankKeys(chroma);
+  const margin = best.correlation > 0 ? (best.correlation - runnerUp.correlation) / best.correlation : 0;
+  const confidence = Math.max(0, best.correlation) * Math.min(1, 0.5 + margin * 2.5);
+  return { ...best, confidence: Math.max(0, Math.min(1, confidence)), runnerUp };
+};
+
+export interface KeyTrackingOptions {
+  windowSeconds?: number; // Resolution of key decisions
+  contextSeconds?: number; // Chroma pooled around each window
+  sharpness?: number; // Weight of the profile correlation in the emission score
+  switchPenalty?: number; // Score cost of changing key
+}
+
+const DEFAULT_TRACKING: Required<KeyTrackingOptions> = {
+  windowSeconds: 2,
+  contextSeconds: 8,
+  sharpness: 10,
+  switchPenalty: 6
+};
+
+// Steps around the circle of fifths between two keys (relative major/minor count as 0)
+const fifthsDistance = (a: KeyContext, b: KeyContext): number => {
+  const d = Math.abs(a.fifths - b.fifths) % 12;
+  return Math.min(d, 12 - d);
+};
+
+/**
+ * Key regions over time: windowed chroma (each window pooled with its context), Viterbi
+ * decoding over the 24 keys with a penalty for changing key that is smaller towards
+ * neighbours on the circle of fifths, then each region's key re-estimated from its pooled
+ * chroma so regions carry a confidence and runner-up like the global key.
+ */
+export const trackKeyRegions = (
+  observations: PitchClassObservation[],
+  startTime: number,
+  endTime: number,
+  options: KeyTrackingOptions = {}
+): KeyRegion[] => {
+  const opts = { ...DEFAULT_TRACKING, ...options };
+  const windowCount = Math.max(1, Math.ceil((endTime - startTime) / opts.windowSeconds));
+  const windows = Array.from({ length: windowCount }, () => new Array(12).fill(0));
+  observations.forEach(o => {
+    const w = Math.min(windowCount - 1, Math.max(0, Math.floor((o.time - startTime) / opts.windowSeconds)));
+    windows[w][o.pitchClass] += o.weight;
+  });
+
+  const reach = Math.max(0, Math.round(opts.contextSeconds / opts.windowSeconds / 2));
+  const signatures = KEYS.map(({ root, mode }) => ({ fifths: keyFifths(root, mode), mode }));
+  const transition = signatures.map(a => signatures.map(b =>
+    a === b ? 0 : opts.switchPenalty * (0.75 + (0.25 * fifthsDistance(a, b)) / 6)));
+
+  const emissions = windows.map((_, w) => {
+    const context = new Array(12).fill(0);
+    for (let c = Math.max(0, w - reach); c <= Math.min(windowCount - 1, w + reach); c++) {
+      for (let k = 0; k < 12; k++) context[k] += windows[c][k];
+    }
+    const correlations = context.some(v => v > 0) ? keyCorrelations(context) : new Array(KEYS.length).fill(0);
+    return correlations.map(r => opts.sharpness * r);
+  });
+  const path = viterbi(emissions, transition);
+
+  // Group windows into regions, re-estimate each from its own chroma, merge equal neighbours
+  const regions: KeyRegion[] = [];
+  let first = 0;
+  for (let w = 1; w <= windowCount; w++) {
+    if (w < windowCount && path[w] === path[first]) continue;
+    const pooled = new Array(12).fill(0);
+    for (let c = first; c < w; c++) for (let k = 0; k < 12; k++) pooled[k] += windows[c][k];
+    const key = estimateKey(pooled);
+    const region: KeyRegion = {
+      startTime: first === 0 ? startTime : startTime + first * opts.windowSeconds,
+      endTime: w === windowCount ? endTime : startTime + w * opts.windowSeconds,
+      key
+    };
+    const previous = regions[regions.length - 1];
+    if (previous && previous.key.name === key.name) previous.endTime = region.endTime;
+    else regions.push(region);
+    first = w;
+  }
+  return regions;
+};
+
+export const keyAt = (regions: KeyRegion[], time: number): KeyEstimate | null => {
+  const region = regions.find(r => time >= r.startTime && time < r.endTime)
+    ?? (regions.length && time >= regions[regions.length - 1].endTime ? regions[regions.length - 1] : regions[0]);
+  return region ? region.key : null;
+};
@@ -0,0 +1,177 @@
+
+// Meter inference on top of beat tracking: beat subdivision (duple vs triple) from the onset
+// envelope between beats, then bar-length hypothesis scoring from per-beat accent strength.
+
+export interface MeterHypothesis {
+  timeSignature: string;
+  beatsPerBar: number; // Tracked beats per bar
+  beatUnit: number; // Length of one tracked beat in quarter notes (1.5 = dotted quarter)
+  prior: number;
+}
+
+export interface MeterDetectionResult {
+  timeSignature: string;
+  beatsPerBar: number;
+  beatUnit: number;
+  downbeat: number; // Index of the first tracked beat that starts a bar
+  confidence: number; // 0-1
+}
+
+// Simple meters (beats divide in two) and compound meters (beats divide in three)
+export const SIMPLE_METERS: MeterHypothesis[] = [
+  { timeSignature: '2/4', beatsPerBar: 2, beatUnit: 1, prior: 0.8 },
+  { timeSignature: '3/4', beatsPerBar: 3, beatUnit: 1, prior: 0.95 },
+  { timeSignature: '4/4', beatsPerBar: 4, beatUnit: 1, prior: 1 },
+  { timeSignature: '5/4', beatsPerBar: 5, beatUnit: 1, prior: 0.6 },
+  { timeSignature: '7/4', beatsPerBar: 7, beatUnit: 1, prior: 0.6 },
+];
+
+export const COMPOUND_METERS: MeterHypothesis[] = [
+  { timeSignature: '6/8', beatsPerBar: 2, beatUnit: 1.5, prior: 1 },
+  { timeSignature: '9/8', beatsPerBar: 3, beatUnit: 1.5, prior: 0.7 },
+  { timeSignature: '12/8', beatsPerBar: 4, beatUnit: 1.5, prior: 0.85 },
+];
+
+// 3/4-length bar grouped 3+3 eighths; chosen over 3/4 when the bar's midpoint is accented
+const SIX_EIGHT_OVER_QUARTERS: MeterHypothesis = { timeSignature: '6/8', beatsPerBar: 3, beatUnit: 1, prior: 1 };
+
+// Triple subdivision must beat duple by this ratio before a compound meter is considered
+const COMPOUND_RATIO = 1.15;
+// Same for the bar midpoint vs beats 2 and 3 in 3-beat bars
+const SIX_EIGHT_RATIO = 1.05;
+const MIN_BARS = 2;
+
+const peakNear = (envelope: ArrayLike<number>, frame: number, radius: number = 1): number => {
+  let peak = 0;
+  for (let i = Math.max(0, frame - radius); i <= Math.min(envelope.length - 1, frame + radius); i++) {
+    peak = Math.max(peak, envelope[i]);
+  }
+  return peak;
+};
+
+// Onset strength at the half-beat vs the third-beat positions between consecutive beats
+const subdivisionStrength = (envelope: ArrayLike<number>, beatFrames: number[]): { duple: number; triple: number } => {
+  let duple = 0;
+  let triple = 0;
+  const spans = beatFrames.length - 1;
+  for (let i = 0; i < spans; i++) {
+    const a = beatFrames[i];
+    const span = beatFrames[i + 1] - a;
+    duple += peakNear(envelope, Math.round(a + span / 2));
+    triple += (peakNear(envelope, Math.round(a + span / 3)) + peakNear(envelope, Math.round(a + (2 * span) / 3))) / 2;
+  }
+  return spans > 0 ? { duple: duple / spans, triple: triple / spans } : { duple: 0, triple: 0 };
+};
+
+const standardize = (values: number[]): number[] => {
+  const n = values.length;
+  const mean = values.reduce((s, v) => s + v, 0) / Math.max(1, n);
+  const std = Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(1, n)) || 1;
+  return values.map(v => (v - mean) / std);
+};
+
+/**
+ * Whether 3-beat bars starting at `downbeat` accent the midpoint of the bar (eighth 4 of 6)
+ * over the second and third beats, i.e. 6/8 tracked at the quarter-note level.
+ */
+const hasSixEightGrouping = (envelope: ArrayLike<number>, beatFrames: number[], downbeat: number): boolean => {
+  let mid = 0;
+  let beats = 0;
+  let bars = 0;
+  for (let i = downbeat; i + 3 < beatFrames.length; i += 3) {
+    mid += peakNear(envelope, Math.round((beatFrames[i + 1] + beatFrames[i + 2]) / 2));
+    beats += (peakNear(envelope, beatFrames[i + 1]) + peakNear(envelope, beatFrames[i + 2])) / 2;
+    bars++;
+  }
+  return bars >= MIN_BARS && mid > beats * SIX_EIGHT_RATIO;
+};
+
+/**
+ * Per-beat accent strength: onset strength at the beat, loudness of the beat span and
+ * pitch-class change from the previous beat (downbeats tend to bring new harmony).
+ */
+export const beatAccents = (
+  envelope: ArrayLike<number>,
+  beatFrames: number[],
+  energy: number[],
+  chroma: number[][]
+): number[] => {
+  const onset = standardize(beatFrames.map(f => peakNear(envelope, f, 2)));
+  const loudness = standardize(energy);
+  const change = standardize(chroma.map((c, i) => {
+    if (i === 0) return 0;
+    const prev = chroma[i - 1];
+    let dot = 0, na = 0, nb = 0;
+    for (let k = 0; k < 12; k++) {
+      dot += c[k] * prev[k];
+      na += c[k] * c[k];
+      nb += prev[k] * prev[k];
+    }
+    return na > 0 && nb > 0 ? 1 - dot / Math.sqrt(na * nb) : 0;
+  }));
+  return beatFrames.map((_, i) => onset[i] + 0.5 * loudness[i] + change[i]);
+};
+
+/**
+ * Score each bar-length hypothesis by how strongly one beat phase stands out from the rest
+ * (accent contrast in standard deviations), weighted by a prior. The winning phase gives the
+ * downbeat. Confidence is the margin over the best competing bar length, scaled down when
+ * only a few bars were heard.
+ */
+export const detectMeter = (
+  envelope: ArrayLike<number>,
+  beatFrames: number[],
+  accents: number[],
+  fallback: string = '4/4'
+): MeterDetectionResult => {
+  const subdivision = subdivisionStrength(envelope, beatFrames);
+  const isCompound = subdivision.triple > subdivision.duple * COMPOUND_RATIO;
+  const hypotheses = isCompound ? COMPOUND_METERS : SIMPLE_METERS;
+  const fallbackHypothesis = [...SIMPLE_METERS, ...COMPOUND_METERS].find(h => h.timeSignature === fallback) ?? SIMPLE_METERS[2];
+  const none: MeterDetectionResult = {
+    timeSignature: fallbackHypothesis.timeSignature,
+    beatsPerBar: fallbackHypothesis.beatsPerBar,
+    beatUnit: fallbackHypothesis.beatUnit,
+    downbeat: 0,
+    confidence: 0
+  };
+
+  const z = standardize(accents);
+  const scored = hypotheses
+    .filter(h => z.length >= h.beatsPerBar * MIN_BARS)
+    .map(h => {
+      let bestPhase = 0;
+      let bestContrast = -Infinity;
+      for (let phase = 0; phase < h.beatsPerBar; phase++) {
+        let on = 0, onCount = 0, off = 0, offCount = 0;
+        z.forEach((v, i) => {
+          if (i % h.beatsPerBar === phase) { on += v; onCount++; } else { off += v; offCount++; }
+        });
+        const contrast = on / Math.max(1, onCount) - off / Math.max(1, offCount);
+        if (contrast > bestContrast) {
+          bestContrast = contrast;
+          bestPhase = phase;
+        }
+      }
+      return { hypothesis: h, phase: bestPhase, score: Math.max(0, bestContrast) * h.prior };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const best = scored[0];
+  if (!best || best.score <= 0) return none;
+
+  const runnerUp = scored[1]?.score ?? 0;
+  const bars = z.length / best.hypothesis.beatsPerBar;
+  const confidence = ((best.score - runnerUp) / best.score) * Math.min(1, bars / 8);
+  const hypothesis = best.hypothesis.timeSignature === '3/4' && hasSixEightGrouping(envelope, beatFrames, best.phase)
+    ? SIX_EIGHT_OVER_QUARTERS
+    : best.hypothesis;
+
+  return {
+    timeSignature: hypothesis.timeSignature,
+    beatsPerBar: hypothesis.beatsPerBar,
+    beatUnit: hypothesis.beatUnit,
+    downbeat: best.phase,
+    confidence: Math.max(0, Math.min(1, confidence))
+  };
+};
@@ -0,0 +1,321 @@
+
+import { NoteEvent, TempoMap, KeyContext, KeyRegion } from '../types';
+import { constantTempoMap, secondsToBeats } from './tempoMap';
+
+// Standard MIDI File (SMF) writer & parser for NoteEvent[]
+
+export interface MidiExportOptions {
+  bpm?: number;
+  tempoMap?: TempoMap; // Variable tempo; overrides the constant bpm
+  timeSignature?: string; // e.g. "4/4"
+  key?: KeyContext; // Written as a key signature meta event
+  keyRegions?: KeyRegion[]; // Key signature changes; the first region replaces `key`
+  format?: 0 | 1; // 0 = single track, 1 = conductor track + one track per staff
+  ppq?: number; // Ticks per quarter note
+  title?: string;
+}
+
+export interface MidiImportResult {
+  notes: NoteEvent[];
+  bpm: number; // The opening tempo
+  tempoMap: TempoMap; // Every tempo change, as the notes were timed
+  timeSignature: string;
+  key: KeyContext | null; // From the first key signature event, if any
+  format: number;
+}
+
+interface TrackEvent {
+  tick: number;
+  order: number; // Tie-breaker: meta < note-off < note-on at same tick
+  bytes: number[];
+}
+
+const DEFAULT_PPQ = 480;
+
+const writeVarLen = (value: number): number[] => {
+  let v = Math.max(0, Math.floor(value));
+  const bytes = [v & 0x7f];
+  v >>= 7;
+  while (v > 0) {
+    bytes.unshift((v & 0x7f) | 0x80);
+    v >>= 7;
+  }
+  return bytes;
+};
+
+const textBytes = (str: string): number[] => Array.from(new TextEncoder().encode(str));
+
+const metaEvent = (type: number, data: number[]): number[] => [0xff, type, ...writeVarLen(data.length), ...data];
+
+const tempoMeta = (bpm: number): number[] => {
+  const mpqn = Math.round(60000000 / bpm);
+  return metaEvent(0x51, [(mpqn >> 16) & 0xff, (mpqn >> 8) & 0xff, mpqn & 0xff]);
+};
+
+const parseTimeSignature = (ts: string): { numerator: number; denominator: number } => {
+  const [beats, beatType] = ts.split('/').map(v => parseInt(v, 10));
+  return { numerator: beats > 0 ? beats : 4, denominator: beatType > 0 ? beatType : 4 };
+};
+
+const timeSignatureMeta = (ts: string): number[] => {
+  const { numerator, denominator } = parseTimeSignature(ts);
+  // 24 MIDI clocks per metronome click, 8 32nds per quarter
+  return metaEvent(0x58, [numerator, Math.round(Math.log2(denominator)), 24, 8]);
+};
+
+const keySignatureMeta = (key: KeyContext): number[] =>
+  metaEvent(0x59, [key.fifths & 0xff, key.mode === 'minor' ? 1 : 0]);
+
+const encodeTrack = (events: TrackEvent[]): number[] => {
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const data: number[] = [];
+  let lastTick = 0;
+  for (const e of events) {
+    data.push(...writeVarLen(e.tick - lastTick), ...e.bytes);
+    lastTick = e.tick;
+  }
+  data.push(0x00, ...metaEvent(0x2f, [])); // End of track
+  const len = data.length;
+  return [0x4d, 0x54, 0x72, 0x6b, (len >>> 24) & 0xff, (len >> 16) & 0xff, (len >> 8) & 0xff, len & 0xff, ...data];
+};
+
+const noteTrackEvents = (notes: NoteEvent[], toTick: (seconds: number) => number, channel: number): TrackEvent[] => {
+  const events: TrackEvent[] = [];
+  for (const n of notes) {
+    if (n.isRest || !Number.isFinite(n.midi_pitch) || !(n.duration > 0)) continue;
+    const pitch = Math.max(0, Math.min(127, Math.round(n.midi_pitch)));
+    const velocity = Math.max(1, Math.min(127, Math.round((n.velocity ?? 0.8) * 127)));
+    const startTick = toTick(n.start_time);
+    const endTick = Math.max(startTick + 1, toTick(n.start_time + n.duration));
+    events.push({ tick: startTick, order: 2, bytes: [0x90 | channel, pitch, velocity] });
+    events.push({ tick: endTick, order: 1, bytes: [0x80 | channel, pitch, 0] });
+  }
+  return events;
+};
+
+/**
+ * Serialize notes into a Standard MIDI File (type 0 or 1).
+ * Type 1 writes a conductor track (tempo/meter) followed by treble and bass tracks.
+ */
+export const notesToMidi = (notes: NoteEvent[], options: MidiExportOptions = {}): Uint8Array => {
+  const bpm = options.bpm && options.bpm > 0 ? options.bpm : 120;
+  const ppq = options.ppq ?? DEFAULT_PPQ;
+  const format = options.format ?? 1;
+  const tempoMap = options.tempoMap ?? constantTempoMap(bpm);
+  const toTick = (seconds: number) => Math.max(0, Math.round(secondsToBeats(tempoMap, seconds) * ppq));
+
+  const metaEvents: TrackEvent[] = [
+    { tick: 0, order: 0, bytes: metaEvent(0x03, textBytes(options.title || 'Transcription')) },
+    { tick: 0, order: 0, bytes: timeSignatureMeta(options.timeSignature || '4/4') },
+  ];
+  if (options.keyRegions?.length) {
+    // Key changes wait for the next barline, as a notated signature would
+    const { numerator, denominator } = parseTimeSignature(options.timeSignature || '4/4');
+    const barTicks = Math.round((numerator * 4 * ppq) / denominator);
+    let lastKey: KeyContext | null = null;
+    let last: TrackEvent | null = null;
+    options.keyRegions.forEach((region, i) => {
+      const key = region.key;
+      if (lastKey && key.fifths === lastKey.fifths && key.mode === lastKey.mode) return;
+      const tick = i === 0 ? 0 : Math.ceil(toTick(region.startTime) / barTicks) * barTicks;
+      if (last && last.tick === tick) {
+        last.bytes = keySignatureMeta(key); // A region shorter than the bar: the later key takes the barline
+      } else {
+        last = { tick, order: 0, bytes: keySignatureMeta(key) };
+        metaEvents.push(last);
+      }
+      lastKey = key;
+    });
+  } else if (options.key) {
+    metaEvents.push({ tick: 0, order: 0, bytes: keySignatureMeta(options.key) });
+  }
+
+  // One tempo event per tempo-map segment whose tempo differs from the previous one
+  let lastMpqn = -1;
+  tempoMap.points.forEach((point, i) => {
+    const mpqn = Math.round(60000000 / point.bpm);
+    if (mpqn === lastMpqn) return;
+    metaEvents.push({ tick: i === 0 ? 0 : Math.round(point.beat * ppq), order: 0, bytes: tempoMeta(point.bpm) });
+    lastMpqn = mpqn;
+  });
+
+  const tracks: number[][] = [];
+  if (format === 0) {
+    tracks.push(encodeTrack([...metaEvents, ...noteTrackEvents(notes, toTick, 0)]));
+  } else {
+    tracks.push(encodeTrack(metaEvents));
+    const isBass = (n: NoteEvent) => (n.staff ? n.staff === 'bass' : n.midi_pitch < 60);
+    const staves: [string, NoteEvent[]][] = [
+      ['Treble', notes.filter(n => !isBass(n))],
+      ['Bass', notes.filter(isBass)],
+    ];
+    staves.forEach(([name, staffNotes]) => {
+      if (staffNotes.length === 0) return;
+      tracks.push(encodeTrack([
+        { tick: 0, order: 0, bytes: metaEvent(0x03, textBytes(name)) },
+        ...noteTrackEvents(staffNotes, toTick, 0),
+      ]));
+    });
+  }
+
+  const header = [
+    0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6,
+    0, format,
+    (tracks.length >> 8) & 0xff, tracks.length & 0xff,
+    (ppq >> 8) & 0xff, ppq & 0xff,
+  ];
+
+  const bytes = header.concat(...tracks);
+  return new Uint8Array(bytes);
+};
+
+export const midiToBlob = (data: Uint8Array): Blob => new Blob([data], { type: 'audio/midi' });
+
+/**
+ * Parse a Standard MIDI File (type 0 or 1) back into NoteEvents.
+ * Tempo changes from any track are honoured when converting ticks to seconds.
+ */
+export const midiToNotes = (buffer: ArrayBuffer): MidiImportResult => {
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  const readString = (len: number) => {
+    let s = '';
+    for (let i = 0; i < len; i++) s += String.fromCharCode(view.getUint8(offset + i));
+    offset += len;
+    return s;
+  };
+
+  if (buffer.byteLength < 14 || readString(4) !== 'MThd') {
+    throw new Error("Not a Standard MIDI File");
+  }
+  const headerLength = view.getUint32(offset); offset += 4;
+  const format = view.getUint16(offset);
+  const trackCount = view.getUint16(offset + 2);
+  const division = view.getUint16(offset + 4);
+  offset += headerLength;
+
+  if (division & 0x8000) {
+    throw new Error("SMPTE time division is not supported");
+  }
+  const ppq = division;
+
+  const tempoChanges: { tick: number; mpqn: number }[] = [];
+  let timeSignature = '4/4';
+  let keySignature: KeyContext | null = null;
+  const rawNotes: { startTick: number; endTick: number; pitch: number; velocity: number; track: number }[] = [];
+
+  for (let t = 0; t < trackCount && offset < buffer.byteLength; t++) {
+    const chunkId = readString(4);
+    const chunkLength = view.getUint32(offset); offset += 4;
+    const end = offset + chunkLength;
+    if (chunkId !== 'MTrk') { offset = end; continue; }
+
+    let tick = 0;
+    let runningStatus = 0;
+    const open = new Map<number, { tick: number; velocity: number }[]>(); // key: channel * 128 + pitch
+
+    const readVarLen = () => {
+      let value = 0;
+      let byte: number;
+      do {
+        byte = view.getUint8(offset++);
+        value = (value << 7) | (byte & 0x7f);
+      } while (byte & 0x80);
+      return value;
+    };
+
+    while (offset < end) {
+      tick += readVarLen();
+      let status = view.getUint8(offset);
+      if (status & 0x80) {
+        offset++;
+        if (status < 0xf0) runningStatus = status;
+      } else {
+        status = runningStatus; // Running status: reuse previous, byte is data
+      }
+
+      if (status === 0xff) {
+        const type = view.getUint8(offset++);
+        const len = readVarLen();
+        if (type === 0x51 && len === 3) {
+          const mpqn = (view.getUint8(offset) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset + 2);
+          tempoChanges.push({ tick, mpqn });
+        } else if (type === 0x58 && len >= 2 && tick === 0) {
+          timeSignature = `${view.getUint8(offset)}/${Math.pow(2, view.getUint8(offset + 1))}`;
+        } else if (type === 0x59 && len === 2 && !keySignature) {
+          keySignature = { fifths: view.getInt8(offset), mode: view.getUint8(offset + 1) === 1 ? 'minor' : 'major' };
+        }
+        offset += len;
+        if (type === 0x2f) break;
+        continue;
+      }
+      if (status === 0xf0 || status === 0xf7) {
+        offset += readVarLen(); // SysEx
+        continue;
+      }
+
+      const type = status & 0xf0;
+      const channel = status & 0x0f;
+      const d1 = view.getUint8(offset++);
+      const d2 = type === 0xc0 || type === 0xd0 ? 0 : view.getUint8(offset++);
+      const key = channel * 128 + d1;
+
+      if (type === 0x90 && d2 > 0) {
+        if (!open.has(key)) open.set(key, []);
+        open.get(key)!.push({ tick, velocity: d2 });
+      } else if (type === 0x80 || (type === 0x90 && d2 === 0)) {
+        const stack = open.get(key);
+        const start = stack?.shift(); // FIFO for overlapping same-pitch notes
+        if (start) rawNotes.push({ startTick: start.tick, endTick: tick, pitch: d1, velocity: start.velocity, track: t });
+      }
+    }
+    // Close hanging notes at track end
+    open.forEach((stack, key) => stack.forEach(s =>
+      rawNotes.push({ startTick: s.tick, endTick: tick, pitch: key % 128, velocity: s.velocity, track: t })
+    ));
+    offset = end;
+  }
+
+  tempoChanges.sort((a, b) => a.tick - b.tick);
+  if (tempoChanges.length === 0 || tempoChanges[0].tick > 0) tempoChanges.unshift({ tick: 0, mpqn: 500000 });
+  // Of several changes at one tick only the last takes effect
+  const tempos = tempoChanges.filter((c, i) => i + 1 === tempoChanges.length || tempoChanges[i + 1].tick !== c.tick);
+
+  // Precompute seconds at each tempo change
+  const tempoSeconds: number[] = [0];
+  for (let i = 1; i < tempos.length; i++) {
+    const prev = tempos[i - 1];
+    tempoSeconds.push(tempoSeconds[i - 1] + ((tempos[i].tick - prev.tick) / ppq) * (prev.mpqn / 1e6));
+  }
+  const tickToSeconds = (tick: number) => {
+    let i = tempos.length - 1;
+    while (i > 0 && tempos[i].tick > tick) i--;
+    return tempoSeconds[i] + ((tick - tempos[i].tick) / ppq) * (tempos[i].mpqn / 1e6);
+  };
+  const tempoMap: TempoMap = {
+    points: tempos.map((c, i) => ({ time: tempoSeconds[i], beat: c.tick / ppq, bpm: 60000000 / c.mpqn }))
+  };
+
+  rawNotes.sort((a, b) => a.startTick - b.startTick || a.pitch - b.pitch);
+  const notes: NoteEvent[] = rawNotes.map((n, i) => {
+    const start = tickToSeconds(n.startTick);
+    return {
+      id: `midi_${n.track}_${i}`,
+      start_time: start,
+      duration: Math.max(0.001, tickToSeconds(n.endTick) - start),
+      midi_pitch: n.pitch,
+      velocity: n.velocity / 127,
+      confidence: 1
+    };
+  });
+
+  return {
+    notes,
+    bpm: Math.round(60000000 / tempos[0].mpqn),
+    tempoMap,
+    timeSignature,
+    key: keySignature,
+    format
+  };
+};
@@ -0,0 +1,132 @@
+
+// Polyphonic pitch estimation: harmonic-sum salience with iterative spectral subtraction
+// (after Klapuri, "Multiple Fundamental Frequency Estimation by Summing Harmonic Amplitudes", 2006)
+
+export interface PitchCandidate {
+  frequency: number;
+  midi: number; // Fractional MIDI pitch
+  salience: number;
+}
+
+export interface MultiPitchOptions {
+  minMidi?: number;
+  maxMidi?: number;
+  maxPolyphony?: number;
+  harmonics?: number;
+  relativeThreshold?: number; // Stop when salience falls below this fraction of the strongest pitch
+  absoluteThreshold?: number; // Ignore frames whose strongest salience is below this
+}
+
+const DEFAULT_OPTIONS: Required<MultiPitchOptions> = {
+  minMidi: 36, // C2
+  maxMidi: 96, // C7
+  maxPolyphony: 6,
+  harmonics: 10,
+  relativeThreshold: 0.3,
+  absoluteThreshold: 0.5
+};
+
+// Harmonic weighting g(f0, h) = (f0 + ALPHA) / (h * f0 + BETA)
+const ALPHA = 52;
+const BETA = 320;
+// Fraction of each detected harmonic removed from the residual spectrum
+const SUBTRACTION_FACTOR = 0.89;
+// Minimum fundamental magnitude relative to the strongest harmonic
+const FUNDAMENTAL_RATIO = 0.25;
+// Search half-width around each harmonic, in semitones
+const HARMONIC_TOLERANCE = 0.5;
+
+const midiToFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+const frequencyToMidi = (hz: number) => 69 + 12 * Math.log2(hz / 440);
+
+interface HarmonicPeak {
+  bin: number;
+  magnitude: number;
+}
+
+const findHarmonicPeaks = (residual: Float32Array, f0: number, harmonics: number, binHz: number): HarmonicPeak[] => {
+  const peaks: HarmonicPeak[] = [];
+  const spread = Math.pow(2, HARMONIC_TOLERANCE / 12);
+  for (let h = 1; h <= harmonics; h++) {
+    const lo = Math.max(1, Math.floor((h * f0) / spread / binHz));
+    const hi = Math.min(residual.length - 2, Math.ceil((h * f0 * spread) / binHz));
+    if (lo > hi) break;
+    let best = lo;
+    for (let k = lo + 1; k <= hi; k++) if (residual[k] > residual[best]) best = k;
+    peaks.push({ bin: best, magnitude: residual[best] });
+  }
+  return peaks;
+};
+
+const salienceOf = (peaks: HarmonicPeak[], f0: number) =>
+  peaks.reduce((sum, p, i) => sum + ((f0 + ALPHA) / ((i + 1) * f0 + BETA)) * p.magnitude, 0);
+
+/**
+ * Estimate several simultaneous fundamentals from a linear magnitude spectrum (bins 0..N/2).
+ * Returns candidates ordered by detection (strongest first).
+ */
+export const estimateMultiPitch = (spectrum: Float32Array, sampleRate: number, options: MultiPitchOptions = {}): PitchCandidate[] => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const fftSize = (spectrum.length - 1) * 2;
+  const binHz = sampleRate / fftSize;
+
+  // Magnitude compression flattens the spectral tilt so upper voices still register
+  const residual = new Float32Array(spectrum.length);
+  for (let i = 0; i < spectrum.length; i++) residual[i] = Math.sqrt(spectrum[i]);
+
+  const results: PitchCandidate[] = [];
+  let firstSalience = 0;
+
+  while (results.length < opts.maxPolyphony) {
+    let bestMidi = -1;
+    let bestSalience = 0;
+    let bestPeaks: HarmonicPeak[] = [];
+
+    for (let midi = opts.minMidi; midi <= opts.maxMidi; midi++) {
+      if (results.some(r => Math.round(r.midi) === midi)) continue;
+      const f0 = midiToFrequency(midi);
+      const peaks = findHarmonicPeaks(residual, f0, opts.harmonics, binHz);
+      if (peaks.length === 0) continue;
+
+      // Guard against sub-octave errors: the fundamental region must carry some energy
+      const strongest = peaks.reduce((m, p) => Math.max(m, p.magnitude), 0);
+      if (peaks[0].magnitude < strongest * FUNDAMENTAL_RATIO) continue;
+
+      const salience = salienceOf(peaks, f0);
+      if (salience > bestSalience) {
+        bestSalience = salience;
+        bestMidi = midi;
+        bestPeaks = peaks;
+      }
+    }
+
+    if (bestMidi < 0) break;
+    if (results.length === 0) {
+      if (bestSalience < opts.absoluteThreshold) break;
+      firstSalience = bestSalience;
+    } else if (bestSalience < firstSalience * opts.relativeThreshold) {
+      break;
+    }
+
+    // Refine frequency with parabolic interpolation on the fundamental peak
+    const k = bestPeaks[0].bin;
+    const a = residual[k - 1], b = residual[k], c = residual[k + 1];
+    const denom = a - 2 * b + c;
+    const offset = denom !== 0 ? (0.5 * (a - c)) / denom : 0;
+    let frequency = (k + Math.max(-0.5, Math.min(0.5, offset))) * binHz;
+    if (Math.abs(frequencyToMidi(frequency) - bestMidi) > HARMONIC_TOLERANCE) {
+      frequency = midiToFrequency(bestMidi);
+    }
+
+    results.push({ frequency, midi: frequencyToMidi(frequency), salience: bestSalience });
+
+    // Remove the detected source's harmonics from the residual
+    for (const peak of bestPeaks) {
+      for (let j = peak.bin - 1; j <= peak.bin + 1; j++) {
+        if (j > 0 && j < residual.length) residual[j] *= 1 - SUBTRACTION_FACTOR;
+      }
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,85 @@
+
+// Spectral-flux novelty curve & adaptive peak picking
+
+export interface PeakPickingOptions {
+  preMax?: number; // Frames before a peak that must be lower
+  postMax?: number; // Frames after a peak that must be lower
+  preAvg?: number; // Frames before used for the adaptive mean
+  postAvg?: number; // Frames after used for the adaptive mean
+  delta?: number; // Offset above the adaptive mean (on the normalized curve)
+  minInterval?: number; // Minimum frames between onsets
+}
+
+const DEFAULT_PEAK_OPTIONS: Required<PeakPickingOptions> = {
+  preMax: 3,
+  postMax: 3,
+  preAvg: 10,
+  postAvg: 7,
+  delta: 0.07,
+  minInterval: 4
+};
+
+// Log compression keeps quiet partials from being swamped by loud ones
+const LOG_COMPRESSION = 100;
+
+export const logCompress = (spectrum: Float32Array): Float32Array => {
+  const out = new Float32Array(spectrum.length);
+  for (let i = 0; i < spectrum.length; i++) out[i] = Math.log1p(LOG_COMPRESSION * spectrum[i]);
+  return out;
+};
+
+/**
+ * Half-wave rectified spectral difference between two (log-compressed) magnitude frames.
+ */
+export const spectralFlux = (prev: Float32Array | null, curr: Float32Array): number => {
+  if (!prev) return 0;
+  let flux = 0;
+  const len = Math.min(prev.length, curr.length);
+  for (let i = 0; i < len; i++) {
+    const diff = curr[i] - prev[i];
+    if (diff > 0) flux += diff;
+  }
+  return flux;
+};
+
+/**
+ * Pick onset frame indices from a novelty curve using a local-max + adaptive mean threshold.
+ */
+export const pickOnsets = (novelty: ArrayLike<number>, options: PeakPickingOptions = {}): number[] => {
+  const opts = { ...DEFAULT_PEAK_OPTIONS, ...options };
+  const n = novelty.length;
+  if (n === 0) return [];
+
+  let max = 0;
+  for (let i = 0; i < n; i++) max = Math.max(max, novelty[i]);
+  if (max <= 0) return [];
+
+  const normalized = new Float32Array(n);
+  for (let i = 0; i < n; i++) normalized[i] = novelty[i] / max;
+
+  const onsets: number[] = [];
+  let lastOnset = -Infinity;
+
+  for (let i = 0; i < n; i++) {
+    const v = normalized[i];
+
+    let isLocalMax = true;
+    for (let j = Math.max(0, i - opts.preMax); j <= Math.min(n - 1, i + opts.postMax); j++) {
+      if (normalized[j] > v) { isLocalMax = false; break; }
+    }
+    if (!isLocalMax) continue;
+
+    const avgStart = Math.max(0, i - opts.preAvg);
+    const avgEnd = Math.min(n - 1, i + opts.postAvg);
+    let sum = 0;
+    for (let j = avgStart; j <= avgEnd; j++) sum += normalized[j];
+    const mean = sum / (avgEnd - avgStart + 1);
+
+    if (v >= mean + opts.delta && i - lastOnset >= opts.minInterval) {
+      onsets.push(i);
+      lastOnset = i;
+    }
+  }
+
+  return onsets;
+};
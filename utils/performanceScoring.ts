@@ -0,0 +1,194 @@
+
+import { NoteEvent, NoteScore, ExtraNote, PerformanceScore } from '../types';
+
+// Grading a sung/played performance against a reference transcription. Both are sampled on a
+// common frame grid as "pitch or silence" sequences and aligned with dynamic time warping, so
+// a performer who drifts ahead or behind is still compared note for note.
+
+export interface PerformedPitch {
+  time: number; // Reference clock, seconds
+  midi: number | null; // Fractional MIDI pitch; null when unvoiced
+}
+
+const HOP_SECONDS = 0.05;
+const BAND_SECONDS = 2; // Furthest the alignment may wander from the diagonal
+const STEP_PENALTY = 0.1; // Cost of stretching one sequence against the other
+const VOICING_MISMATCH_COST = 0.6; // One side silent, the other not
+const MAX_PITCH_COST_SEMITONES = 3;
+const HIT_TOLERANCE_CENTS = 50;
+const MIN_VOICED_SHARE = 0.3; // Less of a note than this performed counts as missed
+const MIN_EXTRA_SECONDS = 0.15;
+
+// Octave-equivalent difference in semitones, -6..6
+const foldSemitones = (diff: number) => ((((diff + 6) % 12) + 12) % 12) - 6;
+
+const median = (values: number[]): number => {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Reference pitch per frame: the highest sounding note, or null in rests
+const sampleReference = (notes: NoteEvent[], frameCount: number): (number | null)[] => {
+  const frames: (number | null)[] = new Array(frameCount).fill(null);
+  notes.forEach(n => {
+    const first = Math.max(0, Math.round(n.start_time / HOP_SECONDS));
+    const last = Math.min(frameCount, Math.round((n.start_time + n.duration) / HOP_SECONDS));
+    for (let i = first; i < last; i++) {
+      if (frames[i] === null || n.midi_pitch > frames[i]!) frames[i] = n.midi_pitch;
+    }
+  });
+  return frames;
+};
+
+// Performance pitch per frame: the median of voiced readings, when at least half are voiced
+const samplePerformance = (readings: PerformedPitch[], frameCount: number): (number | null)[] => {
+  const buckets: PerformedPitch[][] = Array.from({ length: frameCount }, () => []);
+  readings.forEach(r => {
+    const frame = Math.floor(r.time / HOP_SECONDS);
+    if (frame >= 0 && frame < frameCount) buckets[frame].push(r);
+  });
+  return buckets.map(bucket => {
+    const voiced = bucket.filter(r => r.midi !== null).map(r => r.midi!);
+    return voiced.length > 0 && voiced.length * 2 >= bucket.length ? median(voiced) : null;
+  });
+};
+
+const frameCost = (ref: number | null, perf: number | null): number => {
+  if (ref === null && perf === null) return 0;
+  if (ref === null || perf === null) return VOICING_MISMATCH_COST;
+  return Math.min(Math.abs(foldSemitones(perf - ref)), MAX_PITCH_COST_SEMITONES) / MAX_PITCH_COST_SEMITONES;
+};
+
+/**
+ * Banded DTW between two frame sequences. The band follows the diagonal of the cost matrix,
+ * so sequences of different lengths still align end to end. Returns the warping path as
+ * [referenceFrame, performanceFrame] pairs in time order.
+ */
+export const alignSequences = (ref: (number | null)[], perf: (number | null)[], bandFrames: number): [number, number][] => {
+  const n = ref.length;
+  const m = perf.length;
+  if (n === 0 || m === 0) return [];
+  const width = 2 * bandFrames + 1;
+  const centre = (i: number) => (n === 1 ? 0 : Math.round((i * (m - 1)) / (n - 1)));
+  const cost = new Float64Array(n * width).fill(Infinity);
+  const step = new Int8Array(n * width); // 0 = diagonal, 1 = from i-1, 2 = from j-1
+  const at = (i: number, j: number) => {
+    const k = j - centre(i) + bandFrames;
+    return k >= 0 && k < width ? i * width + k : -1;
+  };
+
+  for (let i = 0; i < n; i++) {
+    const lo = Math.max(0, centre(i) - bandFrames);
+    const hi = Math.min(m - 1, centre(i) + bandFrames);
+    for (let j = lo; j <= hi; j++) {
+      const local = frameCost(ref[i], perf[j]);
+      const idx = at(i, j);
+      if (i === 0 && j === 0) {
+        cost[idx] = local;
+        continue;
+      }
+      const diag = i > 0 && j > 0 ? at(i - 1, j - 1) : -1;
+      const up = i > 0 ? at(i - 1, j) : -1;
+      const left = j > 0 ? at(i, j - 1) : -1;
+      let best = diag >= 0 ? cost[diag] : Infinity;
+      let move = 0;
+      if (up >= 0 && cost[up] + STEP_PENALTY < best) { best = cost[up] + STEP_PENALTY; move = 1; }
+      if (left >= 0 && cost[left] + STEP_PENALTY < best) { best = cost[left] + STEP_PENALTY; move = 2; }
+      cost[idx] = best + local;
+      step[idx] = move;
+    }
+  }
+
+  const path: [number, number][] = [];
+  let i = n - 1;
+  let j = m - 1;
+  if (at(i, j) < 0 || !isFinite(cost[at(i, j)])) return [];
+  while (i > 0 || j > 0) {
+    path.push([i, j]);
+    const move = step[at(i, j)];
+    if (move === 0) { i--; j--; }
+    else if (move === 1) i--;
+    else j--;
+  }
+  path.push([0, 0]);
+  return path.reverse();
+};
+
+/**
+ * Grade a performance. Each reference note collects the performance frames aligned to it:
+ * too few voiced ones make it missed, otherwise the median octave-folded error decides hit
+ * or off-pitch and the first voiced frame gives the timing error. Voiced performance frames
+ * aligned only to reference silence are grouped into extra notes.
+ */
+export const scorePerformance = (reference: NoteEvent[], readings: PerformedPitch[]): PerformanceScore => {
+  const melody = reference.filter(n => !n.isRest && n.duration > 0 && Number.isFinite(n.midi_pitch));
+  const referenceEnd = melody.reduce((end, n) => Math.max(end, n.start_time + n.duration), 0);
+  const performanceEnd = readings.reduce((end, r) => Math.max(end, r.time), 0);
+  const refFrames = sampleReference(melody, Math.ceil(referenceEnd / HOP_SECONDS) + 1);
+  const perfFrames = samplePerformance(readings, Math.ceil(performanceEnd / HOP_SECONDS) + 1);
+  const path = alignSequences(refFrames, perfFrames, Math.round(BAND_SECONDS / HOP_SECONDS));
+
+  const matches: number[][] = refFrames.map(() => []);
+  const matchedRefs: number[][] = perfFrames.map(() => []);
+  path.forEach(([i, j]) => {
+    matches[i].push(j);
+    matchedRefs[j].push(i);
+  });
+
+  const notes = melody.map((n): NoteScore => {
+    const first = Math.max(0, Math.round(n.start_time / HOP_SECONDS));
+    const last = Math.min(refFrames.length, Math.round((n.start_time + n.duration) / HOP_SECONDS));
+    const aligned = Array.from(new Set(matches.slice(first, last).flat())).sort((a, b) => a - b);
+    const voiced = aligned.filter(j => perfFrames[j] !== null);
+    const base = { noteId: n.id, start_time: n.start_time, duration: n.duration, midi_pitch: n.midi_pitch };
+    if (aligned.length === 0 || voiced.length / aligned.length < MIN_VOICED_SHARE) {
+      return { ...base, grade: 'missed', pitchErrorCents: null, timingErrorSec: null };
+    }
+    const pitchErrorCents = median(voiced.map(j => foldSemitones(perfFrames[j]! - n.midi_pitch) * 100));
+    return {
+      ...base,
+      grade: Math.abs(pitchErrorCents) <= HIT_TOLERANCE_CENTS ? 'hit' : 'off_pitch',
+      pitchErrorCents,
+      timingErrorSec: voiced[0] * HOP_SECONDS - n.start_time
+    };
+  });
+
+  const extras: ExtraNote[] = [];
+  let runStart = -1;
+  perfFrames.forEach((midi, j) => {
+    const isExtra = midi !== null && matchedRefs[j].length > 0 && matchedRefs[j].every(i => refFrames[i] === null);
+    if (isExtra && runStart < 0) runStart = j;
+    if (runStart >= 0 && (!isExtra || j === perfFrames.length - 1)) {
+      const end = isExtra ? j + 1 : j;
+      if ((end - runStart) * HOP_SECONDS >= MIN_EXTRA_SECONDS) {
+        extras.push({
+          start_time: runStart * HOP_SECONDS,
+          duration: (end - runStart) * HOP_SECONDS,
+          midi_pitch: Math.round(median(perfFrames.slice(runStart, end).filter(v => v !== null) as number[]))
+        });
+      }
+      runStart = -1;
+    }
+  });
+
+  const performed = notes.filter(n => n.grade !== 'missed');
+  const hits = notes.filter(n => n.grade === 'hit').length;
+  const mean = (values: number[]) => values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+  return {
+    notes,
+    extras,
+    track: perfFrames.map((midi, j) => {
+      // Shown in the octave of the aligned reference, so any voice overlays the notes
+      const ref = matchedRefs[j].map(i => refFrames[i]).find(r => r !== null);
+      return { time: j * HOP_SECONDS, midi: midi !== null && ref != null ? ref + foldSemitones(midi - ref) : midi };
+    }),
+    hitRatio: notes.length ? hits / notes.length : 0,
+    meanAbsCents: mean(performed.map(n => Math.abs(n.pitchErrorCents!))),
+    meanAbsTimingSec: mean(performed.map(n => Math.abs(n.timingErrorSec!))),
+    // Off-pitch notes earn half credit; each extra note costs a quarter
+    score: notes.length
+      ? Math.round(100 * Math.max(0, Math.min(1, (hits + 0.5 * (performed.length - hits) - 0.25 * extras.length) / notes.length)))
+      : 0
+  };
+};
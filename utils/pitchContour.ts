@@ -0,0 +1,162 @@
+
+import { NoteEvent, NoteOrnament, PitchContour, PitchContourPoint } from '../types';
+
+// Ornament detection on the frame-level f0 contour: periodic oscillation inside a note
+// (vibrato, or gamaka when wider than a semitone) and continuous slides between notes (meend).
+
+const MIN_RATE_HZ = 2.5; // Slow andolan-style gamakas
+const MAX_RATE_HZ = 9;
+const MIN_PERIODICITY = 0.4; // Normalized autocorrelation needed at the oscillation period
+const MIN_EXTENT_CENTS = 15; // Smaller swings are pitch jitter
+const GAMAKA_EXTENT_CENTS = 100;
+const EDGE_SECONDS = 0.05; // Attack and release are ignored when looking for oscillation
+const MIN_VOICED_RATIO = 0.8;
+
+const MAX_GLIDE_GAP = 0.25; // Seconds of silence a slide may bridge between two notes
+const MIN_GLIDE_SECONDS = 0.05; // Faster transitions are ordinary note changes
+const MAX_UNVOICED_FRAMES = 3;
+const GLIDE_TOLERANCE = 0.5; // Semitones from a note's pitch that still count as "on" it
+const MIN_MONOTONICITY = 0.7; // Share of contour steps moving towards the target
+
+// Index of the first point at or after `time`; contour points are sorted by time
+const firstPointFrom = (points: PitchContourPoint[], time: number): number => {
+  let lo = 0;
+  let hi = points.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].time < time) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+};
+
+const pointsBetween = (points: PitchContourPoint[], start: number, end: number) => {
+  const from = firstPointFrom(points, start);
+  let to = from;
+  while (to < points.length && points[to].time <= end) to++;
+  return points.slice(from, to);
+};
+
+/**
+ * Periodic oscillation in the contour between `start` and `end`: the contour is detrended
+ * with a least-squares line, the rate comes from the autocorrelation peak and the extent
+ * from the RMS swing (sinusoid amplitude = RMS * sqrt 2).
+ */
+export const detectOscillation = (contour: PitchContour, start: number, end: number): NoteOrnament | null => {
+  const frameRate = 1 / contour.hopSeconds;
+  const window = pointsBetween(contour.points, start + EDGE_SECONDS, end - EDGE_SECONDS);
+  const voiced = window.filter(p => p.midi !== null);
+  const n = voiced.length;
+  // At least two full cycles must fit in the note
+  const maxLag = Math.min(Math.floor(frameRate / MIN_RATE_HZ), Math.floor(n / 2));
+  const minLag = Math.max(1, Math.ceil(frameRate / MAX_RATE_HZ));
+  if (maxLag < minLag || n < window.length * MIN_VOICED_RATIO) return null;
+
+  const xs = voiced.map(p => p.time);
+  const ys = voiced.map(p => p.midi!);
+  const meanX = xs.reduce((s, v) => s + v, 0) / n;
+  const meanY = ys.reduce((s, v) => s + v, 0) / n;
+  let sxy = 0, sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    sxx += (xs[i] - meanX) ** 2;
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const residual = ys.map((y, i) => y - meanY - slope * (xs[i] - meanX));
+
+  const energy = residual.reduce((s, v) => s + v * v, 0);
+  if (energy <= 0) return null;
+  let bestLag = -1;
+  let bestAc = MIN_PERIODICITY;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < n; i++) sum += residual[i] * residual[i + lag];
+    const ac = (sum / energy) * (n / (n - lag)); // Unbiased: longer lags sum fewer products
+    if (ac > bestAc) {
+      bestAc = ac;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0) return null;
+
+  const extentCents = Math.sqrt(2 * energy / n) * 100;
+  if (extentCents < MIN_EXTENT_CENTS) return null;
+  return {
+    type: extentCents >= GAMAKA_EXTENT_CENTS ? 'gamaka' : 'vibrato',
+    startTime: voiced[0].time,
+    endTime: voiced[n - 1].time,
+    rateHz: frameRate / bestLag,
+    extentCents
+  };
+};
+
+/**
+ * Continuous slide from `prev` into `note`: the contour stays voiced across the transition,
+ * leaves the previous pitch and reaches the new one over at least MIN_GLIDE_SECONDS, moving
+ * mostly in one direction on the way.
+ */
+export const detectGlide = (contour: PitchContour, prev: NoteEvent, note: NoteEvent): NoteOrnament | null => {
+  const prevEnd = prev.start_time + prev.duration;
+  const interval = note.midi_pitch - prev.midi_pitch;
+  if (note.start_time - prevEnd > MAX_GLIDE_GAP || Math.abs(interval) < 1) return null;
+
+  const window = pointsBetween(contour.points, prev.start_time + prev.duration / 2, note.start_time + note.duration / 2);
+  let unvoicedRun = 0;
+  for (const p of window) {
+    unvoicedRun = p.midi === null ? unvoicedRun + 1 : 0;
+    if (unvoicedRun > MAX_UNVOICED_FRAMES) return null;
+  }
+  const voiced = window.filter(p => p.midi !== null);
+
+  let leave = -1;
+  voiced.forEach((p, i) => { if (Math.abs(p.midi! - prev.midi_pitch) <= GLIDE_TOLERANCE) leave = i; });
+  const arrive = voiced.findIndex((p, i) => i > leave && Math.abs(p.midi! - note.midi_pitch) <= GLIDE_TOLERANCE);
+  if (leave < 0 || arrive < 0) return null;
+  if (voiced[arrive].time - voiced[leave].time < MIN_GLIDE_SECONDS) return null;
+
+  let towards = 0;
+  for (let i = leave + 1; i <= arrive; i++) {
+    if (Math.sign(voiced[i].midi! - voiced[i - 1].midi!) === Math.sign(interval)) towards++;
+  }
+  if (towards / (arrive - leave) < MIN_MONOTONICITY) return null;
+
+  return { type: 'glide', startTime: voiced[leave].time, endTime: voiced[arrive].time, fromMidi: prev.midi_pitch };
+};
+
+/**
+ * Attach ornaments to a single melodic line (notes in time order).
+ */
+export const annotateOrnaments = (notes: NoteEvent[], contour: PitchContour): NoteEvent[] =>
+  notes.map((note, i) => {
+    const ornaments: NoteOrnament[] = [];
+    const glide = i > 0 ? detectGlide(contour, notes[i - 1], note) : null;
+    if (glide) ornaments.push(glide);
+    const oscillation = detectOscillation(contour, note.start_time, note.start_time + note.duration);
+    if (oscillation) ornaments.push(oscillation);
+    return ornaments.length ? { ...note, ornaments } : note;
+  });
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const contourToCSV = (contour: PitchContour): string => {
+  const rows = ['time_sec,frequency_hz,midi,confidence'];
+  contour.points.forEach(p => {
+    rows.push([round(p.time, 4), round(p.frequency, 2), p.midi === null ? '' : round(p.midi, 3), round(p.confidence, 3)].join(','));
+  });
+  return rows.join('\n') + '\n';
+};
+
+// Contour plus the ornaments found on each note, for analysis outside the app
+export const contourToJSON = (contour: PitchContour, notes: NoteEvent[]): string =>
+  JSON.stringify({
+    referenceHz: round(contour.referenceHz, 2),
+    hopSeconds: contour.hopSeconds,
+    points: contour.points.map(p => ({
+      time: round(p.time, 4),
+      frequency: round(p.frequency, 2),
+      midi: p.midi === null ? null : round(p.midi, 3),
+      confidence: round(p.confidence, 3)
+    })),
+    ornaments: notes
+      .filter(n => n.ornaments?.length)
+      .flatMap(n => n.ornaments!.map(o => ({ noteId: n.id, midi: n.midi_pitch, ...o })))
+  }, null, 2);
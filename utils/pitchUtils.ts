@@ -1,3 +1,6 @@
+import { KeyContext, KeyMode } from '../types';
+import { sargamSwara, swaraText, DEFAULT_TONIC_MIDI } from './sargam';
+
 
 export interface NoteLabel {
   display: string;
@@ -5,12 +8,57 @@ export interface NoteLabel {
   octave?: number;
 }
 
+export interface PitchSpelling {
+  step: string; // Letter name, e.g. "F"
+  alter: number; // -1 flat, 0 natural, 1 sharp
+  octave: number;
+}
+
+// Line of fifths: position 0 is C, +1 per sharp-ward fifth (F=-1, G=1, ..., F#=6, Bb=-2)
+const FIFTHS_STEPS = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+// Major-key signatures for each tonic pitch class (Db over C#, F# over Gb, B over Cb)
+const MAJOR_KEY_FIFTHS = [0, -5, 2, -3, 4, -1, 6, 1, -4, 3, -2, 5];
+
+export const keyFifths = (root: number, mode: KeyMode): number => {
+  const majorRoot = mode === 'minor' ? root + 3 : root; // Relative major
+  return MAJOR_KEY_FIFTHS[((majorRoot % 12) + 12) % 12];
+};
+
+/**
+ * Spell a pitch class in a key: the spelling closest on the line of fifths to the centre of
+ * the key's scale. Diatonic notes get the key's own spelling; chromatic notes lean towards
+ * the key signature (Bb in F, F# in D). Minor keys lean slightly sharp for the leading tone.
+ */
+export const spellPitchClass = (pitchClass: number, key: KeyContext): { step: string; alter: number } => {
+  const centre = key.fifths + (key.mode === 'minor' ? 2.5 : 1.9);
+  const base = (((pitchClass * 7) % 12) + 12) % 12;
+  let position = base;
+  for (const candidate of [base - 12, base + 12]) {
+    if (Math.abs(candidate - centre) < Math.abs(position - centre)) position = candidate;
+  }
+  return { step: FIFTHS_STEPS[(((position + 1) % 7) + 7) % 7], alter: Math.floor((position + 1) / 7) };
+};
+
+export const spellPitch = (midiPitch: number, key: KeyContext): PitchSpelling => {
+  const midi = Math.round(midiPitch);
+  const { step, alter } = spellPitchClass(((midi % 12) + 12) % 12, key);
+  // Octave follows the letter, so B#3 and Cb4 keep their written octave
+  return { step, alter, octave: Math.floor((midi - alter) / 12) - 1 };
+};
+
+export const keyName = (root: number, mode: KeyMode): string => {
+  const { step, alter } = spellPitchClass(root, { fifths: keyFifths(root, mode), mode });
+  return `${step}${alter > 0 ? '#' : alter < 0 ? 'b' : ''} ${mode}`;
+};
+
 export const formatPitch = (
   midiPitch: number,
   settings: {
-    format: 'scientific' | 'note_only' | 'solfege';
+    format: 'scientific' | 'note_only' | 'solfege' | 'sargam';
     accidentalStyle: 'sharp' | 'flat' | 'double_sharp';
     showOctave: boolean;
+    key?: KeyContext; // When known, spelling follows the key instead of accidentalStyle
+    tonic?: number; // Sargam only: MIDI pitch of madhya Sa, defaults to C4
   }
 ): NoteLabel => {
   const noteNamesSharp = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
@@ -23,7 +71,7 @@ export const formatPitch = (
   }
 
   const roundedPitch = Math.round(midiPitch);
-  const octave = Math.floor(roundedPitch / 12) - 1;
+  let octave = Math.floor(roundedPitch / 12) - 1;
   // Handle negative numbers correctly for musical pitch classes
   // ((n % m) + m) % m ensures a positive result between 0 and m-1
   const semitone = ((roundedPitch % 12) + 12) % 12;
@@ -31,10 +79,22 @@ export const formatPitch = (
   let baseName = '';
   let isAccidental = false;
 
+  if (settings.format === 'sargam') {
+    // Saptak is shown with dots rather than an octave number
+    const swara = sargamSwara(roundedPitch, settings.tonic ?? DEFAULT_TONIC_MIDI);
+    return { display: swaraText(swara, { showSaptak: settings.showOctave }), isAccidental: swara.komal || swara.tivra, octave };
+  }
+
   if (settings.format === 'solfege') {
     // Simplified Fixed-do for demo
     baseName = solfegeNames[semitone] || '?';
     isAccidental = baseName.length === 2 && baseName.endsWith('i'); 
+  } else if (settings.key) {
+    const spelling = spellPitch(roundedPitch, settings.key);
+    octave = spelling.octave;
+    isAccidental = spelling.alter !== 0;
+    const sharp = settings.accidentalStyle === 'double_sharp' ? 'x' : '♯';
+    baseName = spelling.step + (spelling.alter > 0 ? sharp : spelling.alter < 0 ? '♭' : '');
   } else {
     // Standard names
     const useSharps = settings.accidentalStyle !== 'flat'; // Default to sharp for simplicity
@@ -0,0 +1,189 @@
+
+import { NoteEvent } from '../types';
+
+// Raga identification: compares the tonic-relative pitch-class distribution and the melodic
+// movement of a transcription with a catalog of raga definitions.
+//
+// Swaras are written in the common Roman shorthand: S R G m P D N are shuddha, lowercase
+// r g d n are komal and M is tivra Ma. A trailing ' marks taar saptak, a trailing . mandra.
+
+export interface RagaDefinition {
+  name: string;
+  thaat: string;
+  aroha: string[]; // Ascending line
+  avaroha: string[]; // Descending line
+  vadi: string; // Most prominent swara
+  samvadi: string; // Second most prominent swara
+  swaras: string[]; // All allowed swaras
+}
+
+export interface RagaCandidate {
+  raga: RagaDefinition;
+  score: number; // 0-1
+  foreignSwaras: string[]; // Heard but not allowed in the raga
+  missingSwaras: string[]; // Allowed but not heard
+}
+
+const SWARA_SEMITONES: Record<string, number> = {
+  S: 0, r: 1, R: 2, g: 3, G: 4, m: 5, M: 6, P: 7, d: 8, D: 9, n: 10, N: 11
+};
+const SEMITONE_SWARAS = ['S', 'r', 'R', 'g', 'G', 'm', 'M', 'P', 'd', 'D', 'n', 'N'];
+
+export const RAGAS: RagaDefinition[] = [
+  {
+    name: 'Yaman', thaat: 'Kalyan',
+    aroha: ['N.', 'R', 'G', 'M', 'D', 'N', "S'"], avaroha: ["S'", 'N', 'D', 'P', 'M', 'G', 'R', 'S'],
+    vadi: 'G', samvadi: 'N', swaras: ['S', 'R', 'G', 'M', 'P', 'D', 'N']
+  },
+  {
+    name: 'Bilawal', thaat: 'Bilawal',
+    aroha: ['S', 'R', 'G', 'm', 'P', 'D', 'N', "S'"], avaroha: ["S'", 'N', 'D', 'P', 'm', 'G', 'R', 'S'],
+    vadi: 'D', samvadi: 'G', swaras: ['S', 'R', 'G', 'm', 'P', 'D', 'N']
+  },
+  {
+    name: 'Bhupali', thaat: 'Kalyan',
+    aroha: ['S', 'R', 'G', 'P', 'D', "S'"], avaroha: ["S'", 'D', 'P', 'G', 'R', 'S'],
+    vadi: 'G', samvadi: 'D', swaras: ['S', 'R', 'G', 'P', 'D']
+  },
+  {
+    name: 'Durga', thaat: 'Bilawal',
+    aroha: ['S', 'R', 'm', 'P', 'D', "S'"], avaroha: ["S'", 'D', 'P', 'm', 'R', 'S'],
+    vadi: 'm', samvadi: 'S', swaras: ['S', 'R', 'm', 'P', 'D']
+  },
+  {
+    name: 'Hamsadhwani', thaat: 'Bilawal',
+    aroha: ['S', 'R', 'G', 'P', 'N', "S'"], avaroha: ["S'", 'N', 'P', 'G', 'R', 'S'],
+    vadi: 'G', samvadi: 'N', swaras: ['S', 'R', 'G', 'P', 'N']
+  },
+  {
+    name: 'Khamaj', thaat: 'Khamaj',
+    aroha: ['S', 'G', 'm', 'P', 'D', 'N', "S'"], avaroha: ["S'", 'n', 'D', 'P', 'm', 'G', 'R', 'S'],
+    vadi: 'G', samvadi: 'N', swaras: ['S', 'R', 'G', 'm', 'P', 'D', 'n', 'N']
+  },
+  {
+    name: 'Des', thaat: 'Khamaj',
+    aroha: ['S', 'R', 'm', 'P', 'N', "S'"], avaroha: ["S'", 'n', 'D', 'P', 'm', 'G', 'R', 'S'],
+    vadi: 'R', samvadi: 'P', swaras: ['S', 'R', 'G', 'm', 'P', 'D', 'n', 'N']
+  },
+  {
+    name: 'Kafi', thaat: 'Kafi',
+    aroha: ['S', 'R', 'g', 'm', 'P', 'D', 'n', "S'"], avaroha: ["S'", 'n', 'D', 'P', 'm', 'g', 'R', 'S'],
+    vadi: 'P', samvadi: 'S', swaras: ['S', 'R', 'g', 'm', 'P', 'D', 'n']
+  },
+  {
+    name: 'Bageshri', thaat: 'Kafi',
+    aroha: ['S', 'g', 'm', 'D', 'n', "S'"], avaroha: ["S'", 'n', 'D', 'm', 'g', 'R', 'S'],
+    vadi: 'm', samvadi: 'S', swaras: ['S', 'R', 'g', 'm', 'P', 'D', 'n']
+  },
+  {
+    name: 'Asavari', thaat: 'Asavari',
+    aroha: ['S', 'R', 'm', 'P', 'd', "S'"], avaroha: ["S'", 'n', 'd', 'P', 'm', 'g', 'R', 'S'],
+    vadi: 'd', samvadi: 'g', swaras: ['S', 'R', 'g', 'm', 'P', 'd', 'n']
+  },
+  {
+    name: 'Bhairav', thaat: 'Bhairav',
+    aroha: ['S', 'r', 'G', 'm', 'P', 'd', 'N', "S'"], avaroha: ["S'", 'N', 'd', 'P', 'm', 'G', 'r', 'S'],
+    vadi: 'd', samvadi: 'r', swaras: ['S', 'r', 'G', 'm', 'P', 'd', 'N']
+  },
+  {
+    name: 'Bhairavi', thaat: 'Bhairavi',
+    aroha: ['S', 'r', 'g', 'm', 'P', 'd', 'n', "S'"], avaroha: ["S'", 'n', 'd', 'P', 'm', 'g', 'r', 'S'],
+    vadi: 'm', samvadi: 'S', swaras: ['S', 'r', 'g', 'm', 'P', 'd', 'n']
+  },
+  {
+    name: 'Malkauns', thaat: 'Bhairavi',
+    aroha: ['S', 'g', 'm', 'd', 'n', "S'"], avaroha: ["S'", 'n', 'd', 'm', 'g', 'S'],
+    vadi: 'm', samvadi: 'S', swaras: ['S', 'g', 'm', 'd', 'n']
+  },
+  {
+    name: 'Todi', thaat: 'Todi',
+    aroha: ['S', 'r', 'g', 'M', 'd', 'N', "S'"], avaroha: ["S'", 'N', 'd', 'P', 'M', 'g', 'r', 'S'],
+    vadi: 'd', samvadi: 'g', swaras: ['S', 'r', 'g', 'M', 'P', 'd', 'N']
+  },
+  {
+    name: 'Purvi', thaat: 'Purvi',
+    aroha: ['S', 'r', 'G', 'M', 'P', 'd', 'N', "S'"], avaroha: ["S'", 'N', 'd', 'P', 'M', 'G', 'r', 'S'],
+    vadi: 'G', samvadi: 'N', swaras: ['S', 'r', 'G', 'm', 'M', 'P', 'd', 'N']
+  },
+  {
+    name: 'Marwa', thaat: 'Marwa',
+    aroha: ['S', 'r', 'G', 'M', 'D', 'N', "S'"], avaroha: ["S'", 'N', 'D', 'M', 'G', 'r', 'S'],
+    vadi: 'r', samvadi: 'D', swaras: ['S', 'r', 'G', 'M', 'D', 'N']
+  },
+];
+
+// A swara must carry this share of the duration to count as heard
+const PRESENCE_THRESHOLD = 0.02;
+// Notes further apart than this (seconds) do not form a melodic transition
+const MAX_TRANSITION_GAP = 1.0;
+// Melodic steps up to this many semitones are compared with aroha/avaroha adjacency
+const MAX_STEP = 4;
+
+const semitoneOf = (swara: string): number => SWARA_SEMITONES[swara.replace(/['.]/g, '')];
+
+// Consecutive pairs of a line as "from>to" semitone keys
+const lineSteps = (line: string[]): Set<string> => {
+  const steps = new Set<string>();
+  for (let i = 1; i < line.length; i++) steps.add(`${semitoneOf(line[i - 1])}>${semitoneOf(line[i])}`);
+  return steps;
+};
+
+/**
+ * Rank the catalog against a transcription. Notes are read relative to `tonicMidi` (Sa).
+ * The score combines how much of the duration falls on allowed swaras, how many of the
+ * raga's swaras were heard, the prominence of vadi and samvadi, and how often stepwise
+ * ascending/descending movement follows the aroha/avaroha.
+ */
+export const identifyRaga = (notes: NoteEvent[], tonicMidi: number, catalog: RagaDefinition[] = RAGAS): RagaCandidate[] => {
+  const melody = notes
+    .filter(n => !n.isRest && Number.isFinite(n.midi_pitch) && n.duration > 0)
+    .slice()
+    .sort((a, b) => a.start_time - b.start_time || b.midi_pitch - a.midi_pitch);
+  if (melody.length === 0) return [];
+
+  const relative = (n: NoteEvent) => Math.round(n.midi_pitch) - Math.round(tonicMidi);
+  const distribution = new Array(12).fill(0);
+  melody.forEach(n => { distribution[((relative(n) % 12) + 12) % 12] += n.duration * n.confidence; });
+  const total = distribution.reduce((s, v) => s + v, 0) || 1;
+  const share = distribution.map(v => v / total);
+  const maxShare = Math.max(...share);
+
+  const ascending: string[] = [];
+  const descending: string[] = [];
+  for (let i = 1; i < melody.length; i++) {
+    const prev = melody[i - 1];
+    const next = melody[i];
+    if (next.start_time - (prev.start_time + prev.duration) > MAX_TRANSITION_GAP) continue;
+    const interval = relative(next) - relative(prev);
+    if (interval === 0 || Math.abs(interval) > MAX_STEP) continue;
+    const key = `${((relative(prev) % 12) + 12) % 12}>${((relative(next) % 12) + 12) % 12}`;
+    (interval > 0 ? ascending : descending).push(key);
+  }
+
+  return catalog
+    .map(raga => {
+      const allowed = new Set(raga.swaras.map(semitoneOf));
+      const fit = share.reduce((s, v, semitone) => s + (allowed.has(semitone) ? v : 0), 0);
+      const heard = share.map(v => v >= PRESENCE_THRESHOLD);
+      const coverage = [...allowed].filter(semitone => heard[semitone]).length / allowed.size;
+      const emphasis = maxShare > 0
+        ? (share[semitoneOf(raga.vadi)] + 0.5 * share[semitoneOf(raga.samvadi)]) / (1.5 * maxShare)
+        : 0;
+
+      const arohaSteps = lineSteps(raga.aroha);
+      const avarohaSteps = lineSteps(raga.avaroha);
+      const moves = ascending.length + descending.length;
+      const movement = moves > 0
+        ? (ascending.filter(k => arohaSteps.has(k)).length + descending.filter(k => avarohaSteps.has(k)).length) / moves
+        : 0.5;
+
+      const score = fit * fit * (0.5 + 0.5 * coverage) * (0.6 + 0.2 * emphasis + 0.2 * movement);
+      return {
+        raga,
+        score: Math.max(0, Math.min(1, score)),
+        foreignSwaras: SEMITONE_SWARAS.filter((_, semitone) => heard[semitone] && !allowed.has(semitone)),
+        missingSwaras: raga.swaras.filter(s => !heard[semitoneOf(s)])
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
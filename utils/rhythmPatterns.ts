@@ -0,0 +1,118 @@
+import { RhythmPattern, RhythmStep, CustomRhythmPattern, RHYTHM_PATTERNS } from '../components/constants';
+import { getPercussion } from '../services/percussion';
+
+// Rhythm pattern helpers: which steps a given bar plays, style lookup including the user's
+// own patterns, the editor grid, and share codes for passing patterns between users.
+
+export const CUSTOM_STYLE_PREFIX = 'custom:';
+
+const SHARE_PREFIX = 'mncr1:';
+const GRID_RESOLUTIONS = [1, 2, 3, 4, 6, 8, 12];
+const GRID_TOLERANCE = 1e-3; // Beats; triplets are stored as decimals
+const MAX_PATTERN_BEATS = 64;
+const MAX_FILL_EVERY = 64; // Bars
+
+export const customStyleId = (pattern: CustomRhythmPattern) => `${CUSTOM_STYLE_PREFIX}${pattern.id}`;
+
+/**
+ * Steps of bar `bar` (0-based): the fill closes every `fillEvery` bars; otherwise the main
+ * steps and the variations take turns.
+ */
+export const patternBar = (pattern: RhythmPattern, bar: number): RhythmStep[] => {
+  const fillEvery = pattern.fillEvery ?? 4;
+  if (pattern.fill && fillEvery > 0 && (bar + 1) % fillEvery === 0) return pattern.fill;
+  const bars = [pattern.steps, ...(pattern.variations ?? [])];
+  return bars[bar % bars.length];
+};
+
+// A style id to its pattern: built-in ids, or `custom:<id>` for the user's patterns
+export const resolvePattern = (styleId: string, custom: CustomRhythmPattern[]): RhythmPattern | null => {
+  if (styleId.startsWith(CUSTOM_STYLE_PREFIX)) {
+    return custom.find(p => p.id === styleId.slice(CUSTOM_STYLE_PREFIX.length)) ?? null;
+  }
+  return RHYTHM_PATTERNS[styleId] ?? null;
+};
+
+const onGrid = (beat: number, resolution: number) => Math.abs(beat * resolution - Math.round(beat * resolution)) < GRID_TOLERANCE * resolution;
+
+// The pattern's own grid, else the coarsest one every step of every section falls on
+export const patternResolution = (pattern: RhythmPattern): number => {
+  if (pattern.resolution) return pattern.resolution;
+  const steps = [pattern.steps, ...(pattern.variations ?? []), pattern.fill ?? []].flat();
+  return GRID_RESOLUTIONS.find(r => steps.every(s => onGrid(s.beat, r))) ?? GRID_RESOLUTIONS[GRID_RESOLUTIONS.length - 1];
+};
+
+// Move steps onto a grid, keeping one step per sound and cell (the louder)
+export const quantizeSteps = (steps: RhythmStep[], resolution: number, length: number): RhythmStep[] => {
+  const cells = new Map<string, RhythmStep>();
+  steps.forEach(step => {
+    const cell = Math.round(step.beat * resolution);
+    if (cell < 0 || cell >= length * resolution) return;
+    const key = `${step.sound}@${cell}`;
+    const existing = cells.get(key);
+    if (!existing || existing.velocity < step.velocity) cells.set(key, { ...step, beat: cell / resolution });
+  });
+  return Array.from(cells.values()).sort((a, b) => a.beat - b.beat);
+};
+
+// Base64 of the UTF-8 JSON, so names with any characters survive
+export const encodePattern = (pattern: RhythmPattern & { name: string; id?: string; updated?: string }): string => {
+  const { id, updated, ...shared } = pattern;
+  const bytes = new TextEncoder().encode(JSON.stringify(shared));
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return SHARE_PREFIX + btoa(binary);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Steps inside a bar of `length` beats, each on a registered sound
+const isStepList = (value: unknown, length: number): value is RhythmStep[] =>
+  Array.isArray(value) && value.every(s =>
+    isRecord(s) &&
+    typeof s.beat === 'number' && s.beat >= 0 && s.beat < length &&
+    typeof s.sound === 'string' && getPercussion(s.sound) !== null &&
+    typeof s.velocity === 'number' && s.velocity >= 0 && s.velocity <= 1
+  );
+
+// Untrusted data (share codes, storage) that plays as a pattern without looping forever
+export const isRhythmPattern = (value: unknown): value is RhythmPattern => {
+  if (!isRecord(value)) return false;
+  const { length, steps, resolution, variations, fill, fillEvery } = value;
+  if (typeof length !== 'number' || !(length > 0 && length <= MAX_PATTERN_BEATS)) return false;
+  if (resolution !== undefined && !(typeof resolution === 'number' && GRID_RESOLUTIONS.includes(resolution))) return false;
+  if (fillEvery !== undefined && !(typeof fillEvery === 'number' && Number.isInteger(fillEvery) && fillEvery >= 0 && fillEvery <= MAX_FILL_EVERY)) return false;
+  return isStepList(steps, length)
+    && (variations === undefined || (Array.isArray(variations) && variations.every(v => isStepList(v, length))))
+    && (fill === undefined || isStepList(fill, length));
+};
+
+export const isCustomPattern = (value: unknown): value is CustomRhythmPattern =>
+  isRecord(value) && typeof value.id === 'string' && value.id !== '' && typeof value.name === 'string' && isRhythmPattern(value);
+
+/**
+ * Read a share code back into a pattern (without id or timestamp; the caller stores it as
+ * a new pattern). Throws when the code is not a valid pattern.
+ */
+export const decodePattern = (code: string): Omit<CustomRhythmPattern, 'id' | 'updated'> => {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(SHARE_PREFIX)) throw new Error("Not a rhythm pattern share code");
+  let data: unknown;
+  try {
+    const binary = atob(trimmed.slice(SHARE_PREFIX.length));
+    data = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+  } catch {
+    throw new Error("The share code is damaged");
+  }
+  if (!isRhythmPattern(data)) throw new Error("The share code does not contain a rhythm pattern");
+  const { name } = data as { name?: unknown };
+  return {
+    name: typeof name === 'string' && name.trim() ? name.trim() : 'Shared Pattern',
+    length: data.length,
+    steps: data.steps,
+    resolution: data.resolution,
+    variations: data.variations,
+    fill: data.fill,
+    fillEvery: data.fillEvery
+  };
+};
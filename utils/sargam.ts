@@ -0,0 +1,105 @@
+
+import { TonicEstimate } from '../types';
+import { pearson } from './statistics';
+
+// Hindustani sargam: swaras relative to a movable tonic (Sa), with Bhatkhande-style marks.
+// Komal swaras are underlined, tivra Ma has a vertical stroke, mandra (lower) saptak notes a
+// dot below and taar (upper) saptak notes a dot above.
+
+export interface Swara {
+  name: string; // Sa, Re, Ga, Ma, Pa, Dha, Ni
+  short: string; // S, R, G, M, P, D, N
+  komal: boolean;
+  tivra: boolean;
+  saptak: number; // 0 = madhya, -1 = mandra, 1 = taar
+}
+
+// Semitones above Sa
+const SWARAS: Omit<Swara, 'saptak'>[] = [
+  { name: 'Sa', short: 'S', komal: false, tivra: false },
+  { name: 'Re', short: 'R', komal: true, tivra: false },
+  { name: 'Re', short: 'R', komal: false, tivra: false },
+  { name: 'Ga', short: 'G', komal: true, tivra: false },
+  { name: 'Ga', short: 'G', komal: false, tivra: false },
+  { name: 'Ma', short: 'M', komal: false, tivra: false },
+  { name: 'Ma', short: 'M', komal: false, tivra: true },
+  { name: 'Pa', short: 'P', komal: false, tivra: false },
+  { name: 'Dha', short: 'D', komal: true, tivra: false },
+  { name: 'Dha', short: 'D', komal: false, tivra: false },
+  { name: 'Ni', short: 'N', komal: true, tivra: false },
+  { name: 'Ni', short: 'N', komal: false, tivra: false },
+];
+
+const KOMAL_MARK = '\u0332'; // Combining low line
+const TIVRA_MARK = '\u030D'; // Combining vertical line above
+const MANDRA_DOT = '\u0323'; // Combining dot below
+const TAAR_DOT = '\u0307'; // Combining dot above
+
+const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Typical weight of each swara in Hindustani melody: Sa and Pa (the fixed swaras, usually
+// also the drone) dominate, shuddha and komal variants share the rest
+const TONIC_PROFILE = [1.0, 0.15, 0.5, 0.3, 0.5, 0.45, 0.2, 0.85, 0.3, 0.45, 0.35, 0.45];
+
+export const DEFAULT_TONIC_MIDI = 60; // C4
+
+export const sargamSwara = (midiPitch: number, tonicMidi: number): Swara => {
+  const interval = Math.round(midiPitch) - Math.round(tonicMidi);
+  return { ...SWARAS[((interval % 12) + 12) % 12], saptak: Math.floor(interval / 12) };
+};
+
+/**
+ * Swara text with its marks on the first letter, e.g. "R̲e" (komal Re), "Ṡa" (taar Sa).
+ */
+export const swaraText = (swara: Swara, options: { short?: boolean; showSaptak?: boolean } = {}): string => {
+  const text = options.short ? swara.short : swara.name;
+  let marks = '';
+  if (swara.komal) marks += KOMAL_MARK;
+  if (swara.tivra) marks += TIVRA_MARK;
+  if (options.showSaptak !== false) {
+    marks += swara.saptak < 0 ? MANDRA_DOT.repeat(-swara.saptak) : TAAR_DOT.repeat(swara.saptak);
+  }
+  return text[0] + marks + text.slice(1);
+};
+
+// On-screen width of marked text (combining marks take no column)
+export const swaraWidth = (text: string): number => text.replace(/[\u0300-\u036f]/g, '').length;
+
+/**
+ * Tonic from a duration-weighted pitch histogram: the rotation of the histogram that best
+ * correlates with TONIC_PROFILE. The madhya Sa is the octave that puts the median pitch
+ * between mandra Pa and madhya Pa, where most melodies sit. Confidence is the correlation,
+ * discounted when another tonic (usually Pa or Ma) is nearly as good.
+ */
+export const estimateTonic = (observations: { midi: number; weight: number }[]): TonicEstimate => {
+  const valid = observations.filter(o => Number.isFinite(o.midi) && o.weight > 0);
+  if (valid.length === 0) {
+    return { pitchClass: 0, midi: DEFAULT_TONIC_MIDI, name: PITCH_CLASS_NAMES[0], confidence: 0 };
+  }
+
+  const histogram = new Array(12).fill(0);
+  valid.forEach(o => { histogram[((Math.round(o.midi) % 12) + 12) % 12] += o.weight; });
+  const ranked = Array.from({ length: 12 }, (_, pc) => ({
+    pitchClass: pc,
+    correlation: pearson(TONIC_PROFILE.map((_, i) => histogram[(pc + i) % 12]), TONIC_PROFILE)
+  })).sort((a, b) => b.correlation - a.correlation);
+  const [best, runnerUp] = ranked;
+
+  const sorted = valid.slice().sort((a, b) => a.midi - b.midi);
+  const half = sorted.reduce((s, o) => s + o.weight, 0) / 2;
+  let median = sorted[0].midi;
+  for (let i = 0, acc = 0; i < sorted.length && acc < half; i++) {
+    acc += sorted[i].weight;
+    median = sorted[i].midi;
+  }
+  const midi = best.pitchClass + 12 * Math.floor((median + 5 - best.pitchClass) / 12);
+
+  const margin = best.correlation > 0 ? (best.correlation - runnerUp.correlation) / best.correlation : 0;
+  const confidence = Math.max(0, best.correlation) * Math.min(1, 0.5 + margin * 2.5);
+  return {
+    pitchClass: best.pitchClass,
+    midi,
+    name: PITCH_CLASS_NAMES[best.pitchClass],
+    confidence: Math.max(0, Math.min(1, confidence))
+  };
+};
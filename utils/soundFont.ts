@@ -0,0 +1,311 @@
+// SoundFont 2 (SF2) parser: presets, their instrument zones and sample headers, with the
+// generators of each preset/instrument zone pair combined as the spec prescribes.
+// Modulators, the modulation envelope and the LFOs are read past but not applied.
+
+export interface SoundFontSample {
+  name: string;
+  start: number; // Sample points into the smpl chunk
+  end: number;
+  loopStart: number;
+  loopEnd: number;
+  sampleRate: number;
+  originalPitch: number; // MIDI key the sample was recorded at
+  pitchCorrection: number; // cents
+}
+
+export interface SoundFontZone {
+  keyRange: [number, number];
+  velRange: [number, number];
+  sample: SoundFontSample;
+  generators: Int16Array; // Instrument values with the preset offsets added, by generator id
+}
+
+export interface SoundFontPreset {
+  name: string;
+  bank: number;
+  program: number;
+  zones: SoundFontZone[];
+}
+
+export interface SoundFont {
+  name: string;
+  presets: SoundFontPreset[];
+  sampleData: DataView; // 16-bit little-endian sample points of the smpl chunk
+}
+
+// Playback parameters of one zone at one key, with timecents, centibels and absolute cents
+// resolved into seconds, gain and Hz
+export interface ZonePlayback {
+  start: number; // Sample points, after the address offset generators
+  end: number;
+  loopStart: number;
+  loopEnd: number;
+  loopMode: 0 | 1 | 3; // 0 = no loop, 1 = loop continuously, 3 = loop while held
+  sampleRate: number;
+  pitchCents: number; // Transposition from the recorded pitch to the key
+  gain: number; // initialAttenuation as a linear gain
+  pan: number; // -1..1
+  filterCutoff: number; // Hz
+  filterQ: number; // dB
+  envelope: { delay: number; attack: number; hold: number; decay: number; sustain: number; release: number };
+  exclusiveClass: number;
+}
+
+// Generator ids (SF2.04 section 8.1.2)
+const GEN = {
+  startAddrsOffset: 0,
+  endAddrsOffset: 1,
+  startloopAddrsOffset: 2,
+  endloopAddrsOffset: 3,
+  startAddrsCoarseOffset: 4,
+  initialFilterFc: 8,
+  initialFilterQ: 9,
+  endAddrsCoarseOffset: 12,
+  pan: 17,
+  delayVolEnv: 33,
+  attackVolEnv: 34,
+  holdVolEnv: 35,
+  decayVolEnv: 36,
+  sustainVolEnv: 37,
+  releaseVolEnv: 38,
+  keynumToVolEnvHold: 39,
+  keynumToVolEnvDecay: 40,
+  instrument: 41,
+  keyRange: 43,
+  velRange: 44,
+  startloopAddrsCoarseOffset: 45,
+  initialAttenuation: 48,
+  endloopAddrsCoarseOffset: 50,
+  coarseTune: 51,
+  fineTune: 52,
+  sampleID: 53,
+  sampleModes: 54,
+  scaleTuning: 56,
+  exclusiveClass: 57,
+  overridingRootKey: 58
+};
+const GENERATOR_COUNT = 61;
+
+// Generators a preset zone may not offset: sample addressing and the zone's own identity
+const NON_ADDITIVE = new Set([
+  GEN.startAddrsOffset, GEN.endAddrsOffset, GEN.startloopAddrsOffset, GEN.endloopAddrsOffset,
+  GEN.startAddrsCoarseOffset, GEN.endAddrsCoarseOffset, GEN.startloopAddrsCoarseOffset, GEN.endloopAddrsCoarseOffset,
+  GEN.instrument, GEN.keyRange, GEN.velRange, GEN.sampleID, GEN.sampleModes, GEN.exclusiveClass, GEN.overridingRootKey,
+  46, 47 // keynum, velocity
+]);
+
+const defaultGenerators = (): Int16Array => {
+  const gens = new Int16Array(GENERATOR_COUNT);
+  gens[GEN.initialFilterFc] = 13500;
+  [21, 23, 25, 26, 27, 28, 30, GEN.delayVolEnv, GEN.attackVolEnv, GEN.holdVolEnv, GEN.decayVolEnv, GEN.releaseVolEnv]
+    .forEach(id => (gens[id] = -12000));
+  gens[GEN.scaleTuning] = 100;
+  gens[GEN.overridingRootKey] = -1;
+  return gens;
+};
+
+interface RawZone {
+  gens: Map<number, number>;
+  keyRange?: [number, number]; // Unset ranges fall back to the global zone's, then the full range
+  velRange?: [number, number];
+}
+
+const FULL_RANGE: [number, number] = [0, 127];
+
+const intersect = (a: [number, number], b: [number, number]): [number, number] | null => {
+  const lo = Math.max(a[0], b[0]);
+  const hi = Math.min(a[1], b[1]);
+  return lo <= hi ? [lo, hi] : null;
+};
+
+/**
+ * Parse an SF2 file. Throws when the RIFF structure is not a SoundFont bank or the preset
+ * data chunk is missing; zones pointing at missing instruments or samples are skipped.
+ */
+export const parseSoundFont = (buffer: ArrayBuffer): SoundFont => {
+  const view = new DataView(buffer);
+  const readString = (offset: number, len: number) => {
+    let s = '';
+    for (let i = 0; i < len; i++) {
+      const c = view.getUint8(offset + i);
+      if (c === 0) break;
+      s += String.fromCharCode(c);
+    }
+    return s.trim();
+  };
+
+  if (buffer.byteLength < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'sfbk') {
+    throw new Error("Not a SoundFont 2 file");
+  }
+
+  // Sub-chunks of the three LIST chunks, by id
+  const chunks = new Map<string, { offset: number; size: number }>();
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readString(offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'LIST') {
+      const listEnd = Math.min(offset + 8 + size, buffer.byteLength);
+      let sub = offset + 12;
+      while (sub + 8 <= listEnd) {
+        const subId = readString(sub, 4);
+        const subSize = view.getUint32(sub + 4, true);
+        chunks.set(subId, { offset: sub + 8, size: Math.min(subSize, listEnd - sub - 8) });
+        sub += 8 + subSize + (subSize & 1);
+      }
+    }
+    offset += 8 + size + (size & 1);
+  }
+
+  const required = ['phdr', 'pbag', 'pgen', 'inst', 'ibag', 'igen', 'shdr', 'smpl'];
+  const missing = required.filter(id => !chunks.has(id));
+  if (missing.length) throw new Error(`SoundFont is missing its ${missing.join(', ')} chunk${missing.length > 1 ? 's' : ''}`);
+
+  const records = <T>(id: string, size: number, read: (at: number) => T): T[] => {
+    const chunk = chunks.get(id)!;
+    const out: T[] = [];
+    for (let at = chunk.offset; at + size <= chunk.offset + chunk.size; at += size) out.push(read(at));
+    return out;
+  };
+
+  const smpl = chunks.get('smpl')!;
+  const sampleData = new DataView(buffer, smpl.offset, smpl.size);
+  const samples = records('shdr', 46, at => ({
+    name: readString(at, 20),
+    start: view.getUint32(at + 20, true),
+    end: view.getUint32(at + 24, true),
+    loopStart: view.getUint32(at + 28, true),
+    loopEnd: view.getUint32(at + 32, true),
+    sampleRate: view.getUint32(at + 36, true),
+    originalPitch: view.getUint8(at + 40),
+    pitchCorrection: view.getInt8(at + 41)
+  })).slice(0, -1); // Drop the terminal EOS record
+
+  const bags = (id: string) => records(id, 4, at => view.getUint16(at, true));
+  const generators = (id: string) => records(id, 4, at => ({
+    oper: view.getUint16(at, true),
+    amount: view.getInt16(at + 2, true),
+    lo: view.getUint8(at + 2),
+    hi: view.getUint8(at + 3)
+  }));
+
+  // Zones from bag index `first` up to `last`: generators plus key/velocity ranges
+  const readZones = (bagIndex: number[], gens: ReturnType<typeof generators>, first: number, last: number): RawZone[] => {
+    const zones: RawZone[] = [];
+    for (let b = first; b < last && b + 1 < bagIndex.length; b++) {
+      const zone: RawZone = { gens: new Map() };
+      for (let g = bagIndex[b]; g < bagIndex[b + 1] && g < gens.length; g++) {
+        const { oper, amount, lo, hi } = gens[g];
+        if (oper === GEN.keyRange) zone.keyRange = [lo, hi];
+        else if (oper === GEN.velRange) zone.velRange = [lo, hi];
+        else zone.gens.set(oper, amount);
+      }
+      zones.push(zone);
+    }
+    return zones;
+  };
+
+  const ibag = bags('ibag');
+  const igen = generators('igen');
+  const instrumentHeaders = records('inst', 22, at => ({ name: readString(at, 20), bagIndex: view.getUint16(at + 20, true) }));
+  // Each instrument's zones with its global zone folded into the local ones
+  const instruments = instrumentHeaders.slice(0, -1).map((inst, i) => {
+    const zones = readZones(ibag, igen, inst.bagIndex, instrumentHeaders[i + 1].bagIndex);
+    const global = zones.length && !zones[0].gens.has(GEN.sampleID) ? zones.shift()! : null;
+    return zones
+      .filter(z => z.gens.has(GEN.sampleID) && samples[z.gens.get(GEN.sampleID)!])
+      .map(z => {
+        const gens = defaultGenerators();
+        [global?.gens, z.gens].forEach(source => source?.forEach((v, k) => {
+          if (k < GENERATOR_COUNT) gens[k] = v;
+        }));
+        return {
+          keyRange: z.keyRange ?? global?.keyRange ?? FULL_RANGE,
+          velRange: z.velRange ?? global?.velRange ?? FULL_RANGE,
+          sample: samples[z.gens.get(GEN.sampleID)!],
+          gens
+        };
+      });
+  });
+
+  const pbag = bags('pbag');
+  const pgen = generators('pgen');
+  const presetHeaders = records('phdr', 38, at => ({
+    name: readString(at, 20),
+    program: view.getUint16(at + 20, true),
+    bank: view.getUint16(at + 22, true),
+    bagIndex: view.getUint16(at + 24, true)
+  }));
+  const presets = presetHeaders.slice(0, -1).map((header, i): SoundFontPreset => {
+    const zones = readZones(pbag, pgen, header.bagIndex, presetHeaders[i + 1].bagIndex);
+    const global = zones.length && !zones[0].gens.has(GEN.instrument) ? zones.shift()! : null;
+    const resolved: SoundFontZone[] = [];
+    zones.forEach(pz => {
+      const instrument = instruments[pz.gens.get(GEN.instrument) ?? -1];
+      if (!instrument) return;
+      const presetKeys = pz.keyRange ?? global?.keyRange ?? FULL_RANGE;
+      const presetVels = pz.velRange ?? global?.velRange ?? FULL_RANGE;
+      // Preset generators offset the instrument's; the local zone overrides the global one
+      const offsets = new Map(global?.gens ?? []);
+      pz.gens.forEach((v, k) => offsets.set(k, v));
+      instrument.forEach(iz => {
+        const keyRange = intersect(iz.keyRange, presetKeys);
+        const velRange = intersect(iz.velRange, presetVels);
+        if (!keyRange || !velRange) return;
+        const gens = iz.gens.slice();
+        offsets.forEach((v, k) => {
+          if (k < GENERATOR_COUNT && !NON_ADDITIVE.has(k)) gens[k] = Math.max(-32768, Math.min(32767, gens[k] + v));
+        });
+        resolved.push({ keyRange, velRange, sample: iz.sample, generators: gens });
+      });
+    });
+    return { name: header.name, bank: header.bank, program: header.program, zones: resolved };
+  });
+
+  presets.sort((a, b) => a.bank - b.bank || a.program - b.program);
+  const info = chunks.get('INAM');
+  return { name: info ? readString(info.offset, info.size) : '', presets, sampleData };
+};
+
+// Zones of `preset` sounding for a key and MIDI velocity (0-127)
+export const findZones = (preset: SoundFontPreset, key: number, velocity: number): SoundFontZone[] =>
+  preset.zones.filter(z =>
+    key >= z.keyRange[0] && key <= z.keyRange[1] && velocity >= z.velRange[0] && velocity <= z.velRange[1]
+  );
+
+const timecents = (tc: number) => Math.pow(2, tc / 1200);
+
+/**
+ * Resolve a zone's generators for playing `key`: sample addresses with their fine and
+ * coarse (32768-point) offsets, tuning, attenuation, filter and the volume envelope with
+ * its key scaling.
+ */
+export const zonePlayback = (zone: SoundFontZone, key: number): ZonePlayback => {
+  const g = zone.generators;
+  const s = zone.sample;
+  const rootKey = g[GEN.overridingRootKey] >= 0 ? g[GEN.overridingRootKey] : s.originalPitch;
+  const keyScale = 60 - key;
+  const mode = g[GEN.sampleModes] & 3;
+  return {
+    start: s.start + g[GEN.startAddrsOffset] + g[GEN.startAddrsCoarseOffset] * 32768,
+    end: s.end + g[GEN.endAddrsOffset] + g[GEN.endAddrsCoarseOffset] * 32768,
+    loopStart: s.loopStart + g[GEN.startloopAddrsOffset] + g[GEN.startloopAddrsCoarseOffset] * 32768,
+    loopEnd: s.loopEnd + g[GEN.endloopAddrsOffset] + g[GEN.endloopAddrsCoarseOffset] * 32768,
+    loopMode: mode === 1 || mode === 3 ? mode : 0,
+    sampleRate: s.sampleRate,
+    pitchCents: (key - rootKey) * g[GEN.scaleTuning] + g[GEN.coarseTune] * 100 + g[GEN.fineTune] + s.pitchCorrection,
+    gain: Math.pow(10, -Math.max(0, g[GEN.initialAttenuation]) / 200),
+    pan: Math.max(-1, Math.min(1, g[GEN.pan] / 500)),
+    filterCutoff: 8.176 * Math.pow(2, g[GEN.initialFilterFc] / 1200),
+    filterQ: g[GEN.initialFilterQ] / 10,
+    envelope: {
+      delay: timecents(g[GEN.delayVolEnv]),
+      attack: timecents(g[GEN.attackVolEnv]),
+      hold: timecents(g[GEN.holdVolEnv] + g[GEN.keynumToVolEnvHold] * keyScale),
+      decay: timecents(g[GEN.decayVolEnv] + g[GEN.keynumToVolEnvDecay] * keyScale),
+      sustain: Math.pow(10, -Math.max(0, Math.min(1440, g[GEN.sustainVolEnv])) / 200),
+      release: timecents(g[GEN.releaseVolEnv])
+    },
+    exclusiveClass: g[GEN.exclusiveClass]
+  };
+};
@@ -0,0 +1,16 @@
+
+// Small numeric helpers shared by the profile-matching estimators (key, tonic)
+
+// Pearson correlation of two equal-length series; 0 when either is flat
+export const pearson = (a: number[], b: number[]): number => {
+  const n = a.length;
+  const meanA = a.reduce((s, v) => s + v, 0) / n;
+  const meanB = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0, varA = 0, varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+};
@@ -0,0 +1,92 @@
+
+import { TempoMap, TempoMapPoint } from '../types';
+
+// Shared seconds <-> beats conversion for analysis, notation and MIDI export
+
+export const constantTempoMap = (bpm: number): TempoMap => ({
+  points: [{ time: 0, beat: 0, bpm: bpm > 0 ? bpm : 120 }]
+});
+
+// How tracked beats group into bars; used to put the detected downbeats on barlines
+export interface BarAlignment {
+  beatsPerBar: number; // Tracked beats per bar
+  beatUnit: number; // Length of one tracked beat in quarter notes
+  downbeat: number; // Index of the first tracked beat that starts a bar
+}
+
+const NO_BARS: BarAlignment = { beatsPerBar: 1, beatUnit: 1, downbeat: 0 };
+
+/**
+ * Build a tempo map from tracked beat times. Beat numbering is chosen so that the
+ * downbeats fall on barlines: audio before the first tracked beat becomes a pickup, and
+ * time 0 maps to a (possibly fractional) beat after the preceding barline.
+ */
+export const tempoMapFromBeats = (beatTimes: number[], fallbackBpm: number = 120, bars: BarAlignment = NO_BARS): TempoMap => {
+  if (beatTimes.length < 2) return constantTempoMap(fallbackBpm);
+  const { beatsPerBar, beatUnit, downbeat } = bars;
+
+  // Tracked beats that would fit before the first one, rounded up to the bar grid
+  const leadIn = beatTimes[0] / (beatTimes[1] - beatTimes[0]);
+  let firstIndex = Math.ceil(leadIn - 1e-6);
+  while ((firstIndex + downbeat) % beatsPerBar !== 0) firstIndex++;
+
+  const points: TempoMapPoint[] = beatTimes.map((time, i) => {
+    const next = beatTimes[i + 1];
+    const prev = beatTimes[i - 1];
+    const interval = next !== undefined ? next - time : time - prev;
+    return { time, beat: (firstIndex + i) * beatUnit, bpm: (60 * beatUnit) / interval };
+  });
+  if (beatTimes[0] > 0) points.unshift({ time: 0, beat: (firstIndex - leadIn) * beatUnit, bpm: points[0].bpm });
+  return { points };
+};
+
+// Index of the last point at or before `value` (by `key`), or -1
+const findSegment = (points: TempoMapPoint[], value: number, key: 'time' | 'beat'): number => {
+  let lo = 0;
+  let hi = points.length - 1;
+  if (value < points[0][key]) return -1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (points[mid][key] <= value) lo = mid; else hi = mid - 1;
+  }
+  return lo;
+};
+
+export const secondsToBeats = (map: TempoMap, seconds: number): number => {
+  const { points } = map;
+  const idx = findSegment(points, seconds, 'time');
+  if (idx < 0) {
+    const first = points[0];
+    return first.beat - ((first.time - seconds) * first.bpm) / 60;
+  }
+  const p = points[idx];
+  const next = points[idx + 1];
+  if (!next) return p.beat + ((seconds - p.time) * p.bpm) / 60;
+  return p.beat + ((seconds - p.time) / (next.time - p.time)) * (next.beat - p.beat);
+};
+
+export const beatsToSeconds = (map: TempoMap, beats: number): number => {
+  const { points } = map;
+  const idx = findSegment(points, beats, 'beat');
+  if (idx < 0) {
+    const first = points[0];
+    return first.time - ((first.beat - beats) * 60) / first.bpm;
+  }
+  const p = points[idx];
+  const next = points[idx + 1];
+  if (!next) return p.time + ((beats - p.beat) * 60) / p.bpm;
+  return p.time + ((beats - p.beat) / (next.beat - p.beat)) * (next.time - p.time);
+};
+
+export const bpmAt = (map: TempoMap, seconds: number): number => {
+  const idx = findSegment(map.points, seconds, 'time');
+  return map.points[Math.max(0, idx)].bpm;
+};
+
+/**
+ * Average tempo over a beat range, e.g. one measure.
+ */
+export const averageBpm = (map: TempoMap, startBeat: number, endBeat: number): number => {
+  const seconds = beatsToSeconds(map, endBeat) - beatsToSeconds(map, startBeat);
+  return seconds > 0 ? ((endBeat - startBeat) * 60) / seconds : map.points[0].bpm;
+};
@@ -0,0 +1,80 @@
+
+import { TuningEstimate } from '../types';
+
+// Reference tuning: where the recording's semitone grid sits relative to A4 = 440 Hz, from a
+// histogram of the fractional part of every voiced pitch observation.
+
+export const STANDARD_REFERENCE_HZ = 440;
+
+export interface TuningObservation {
+  midi: number; // Fractional MIDI pitch against A4 = 440 Hz
+  weight: number;
+}
+
+export const STANDARD_TUNING: TuningEstimate = { referenceHz: STANDARD_REFERENCE_HZ, centsOffset: 0, confidence: 0 };
+
+const BINS = 100; // One bin per cent over the semitone
+const SMOOTHING = 4; // Triangular kernel half-width, in cents
+const PEAK_WINDOW = 20; // Observations within this many cents of the peak refine it and count as support
+const MIN_WEIGHT = 5; // Less voiced material than this is not worth retuning for
+
+// Below this the histogram is too flat to trust; callers should stay at A4 = 440 Hz
+export const MIN_TUNING_CONFIDENCE = 0.15;
+
+export const frequencyToMidi = (hz: number, referenceHz: number = STANDARD_REFERENCE_HZ) => 69 + 12 * Math.log2(hz / referenceHz);
+
+export const midiToFrequency = (midi: number, referenceHz: number = STANDARD_REFERENCE_HZ) => referenceHz * Math.pow(2, (midi - 69) / 12);
+
+// Wrap to [-50, 50) cents around the nearest semitone
+const wrapCents = (cents: number): number => ((((cents + 50) % 100) + 100) % 100) - 50;
+
+/**
+ * Estimate the global tuning offset. The weighted histogram of cents-above-nearest-semitone is
+ * smoothed circularly, its peak is refined with the weighted mean of nearby observations, and
+ * confidence is how much more weight sits near the peak than a flat histogram would put there
+ * (vibrato and glides spread the histogram out and lower it).
+ */
+export const estimateTuning = (observations: TuningObservation[]): TuningEstimate => {
+  const histogram = new Float64Array(BINS);
+  let total = 0;
+  observations.forEach(({ midi, weight }) => {
+    if (!isFinite(midi) || weight <= 0) return;
+    const cents = wrapCents((midi - Math.round(midi)) * 100);
+    histogram[(Math.floor(cents + 50) + BINS) % BINS] += weight;
+    total += weight;
+  });
+  if (total < MIN_WEIGHT) return STANDARD_TUNING;
+
+  let peakBin = 0;
+  let peakValue = -Infinity;
+  for (let b = 0; b < BINS; b++) {
+    let value = 0;
+    for (let d = -SMOOTHING; d <= SMOOTHING; d++) {
+      value += histogram[(b + d + BINS) % BINS] * (SMOOTHING + 1 - Math.abs(d));
+    }
+    if (value > peakValue) {
+      peakValue = value;
+      peakBin = b;
+    }
+  }
+  const peak = peakBin - 50 + 0.5;
+
+  let support = 0;
+  let offsetSum = 0;
+  for (let b = 0; b < BINS; b++) {
+    const distance = wrapCents(b - 50 + 0.5 - peak);
+    if (Math.abs(distance) > PEAK_WINDOW) continue;
+    support += histogram[b];
+    offsetSum += histogram[b] * distance;
+  }
+  const centsOffset = wrapCents(peak + (support > 0 ? offsetSum / support : 0));
+
+  const flatShare = (2 * PEAK_WINDOW + 1) / BINS;
+  const confidence = Math.max(0, Math.min(1, (support / total - flatShare) / (1 - flatShare)));
+
+  return {
+    referenceHz: midiToFrequency(69 + centsOffset / 100),
+    centsOffset,
+    confidence
+  };
+};
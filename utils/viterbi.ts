@@ -0,0 +1,37 @@
+
+/**
+ * Most likely state path for per-step emission scores (higher is better, e.g. log-likelihoods)
+ * and a state-to-state transition cost matrix (subtracted from the score).
+ */
+export const viterbi = (emissions: number[][], transitionCost: number[][]): number[] => {
+  const steps = emissions.length;
+  if (steps === 0) return [];
+  const states = emissions[0].length;
+
+  let scores = emissions[0].slice();
+  const backPointers: Int32Array[] = [];
+  for (let t = 1; t < steps; t++) {
+    const next = new Array<number>(states);
+    const pointers = new Int32Array(states);
+    for (let s = 0; s < states; s++) {
+      let best = -Infinity;
+      let bestPrev = s;
+      for (let p = 0; p < states; p++) {
+        const candidate = scores[p] - transitionCost[p][s];
+        if (candidate > best) {
+          best = candidate;
+          bestPrev = p;
+        }
+      }
+      next[s] = best + emissions[t][s];
+      pointers[s] = bestPrev;
+    }
+    scores = next;
+    backPointers.push(pointers);
+  }
+
+  const path = new Array<number>(steps);
+  path[steps - 1] = scores.indexOf(Math.max(...scores));
+  for (let t = steps - 1; t > 0; t--) path[t - 1] = backPointers[t - 1][path[t]];
+  return path;
+};
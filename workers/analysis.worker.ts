@@ -0,0 +1,78 @@
+/// <reference lib="webworker" />
+import { AudioEngine, FrameAnalysis } from '../services/audioEngine';
+import { AnalysisWorkerRequest, AnalysisWorkerResponse } from '../types';
+
+// Runs the AudioEngine analysis pipeline off the main thread.
+// Frame extraction (the expensive pass) runs in short slices so cancel messages are handled
+// within a second of audio, carrying its state from slice to slice; every block's notes are
+// posted as a preview. Onsets, tempo, key and segmentation are then computed once over the
+// whole signal.
+
+const BLOCK_SECONDS = 10;
+const SLICE_SECONDS = 1; // Cancellation is checked between slices
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+const engine = new AudioEngine(); // No AudioContext inside a worker; analysis only
+const cancelledJobs = new Set<number>();
+
+const post = (message: AnalysisWorkerResponse) => ctx.postMessage(message);
+
+// Yield to the event loop so queued 'cancel' messages are delivered
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Acknowledge a pending cancel; the job then stops without posting anything else
+const takeCancel = (jobId: number): boolean => {
+  if (!cancelledJobs.has(jobId)) return false;
+  cancelledJobs.delete(jobId);
+  post({ type: 'cancelled', jobId });
+  return true;
+};
+
+const runJob = async (request: Extract<AnalysisWorkerRequest, { type: 'analyze' }>) => {
+  const { jobId, channelData, sampleRate, startTime, duration, mode } = request;
+  const blockCount = Math.max(1, Math.ceil(duration / BLOCK_SECONDS));
+  let accumulated: FrameAnalysis | undefined;
+
+  for (let block = 0; block < blockCount; block++) {
+    const blockStart = startTime + block * BLOCK_SECONDS;
+    const blockDuration = Math.min(BLOCK_SECONDS, startTime + duration - blockStart);
+    const previousCount = accumulated ? accumulated.frames.length : 0;
+
+    let offset = 0;
+    do {
+      await yieldToEventLoop();
+      if (takeCancel(jobId)) return;
+      const sliceStart = blockStart + offset;
+      const sliceDuration = Math.min(SLICE_SECONDS, blockDuration - offset);
+      accumulated = engine.extractFrames(channelData, sampleRate, sliceStart, sliceDuration, mode, fraction => {
+        const done = sliceStart - startTime + fraction * sliceDuration;
+        post({ type: 'progress', jobId, progress: Math.min(1, done / Math.max(duration, 1e-9)) });
+      }, accumulated);
+      offset += SLICE_SECONDS;
+    } while (offset < blockDuration);
+
+    // Preview of this block only; replaced by the final result
+    const preview = engine.finalizeAnalysis({
+      ...accumulated,
+      frames: accumulated.frames.slice(previousCount),
+      novelty: accumulated.novelty.slice(previousCount),
+      startTime: blockStart
+    });
+    if (preview.notes.length > 0) post({ type: 'partial', jobId, notes: preview.notes });
+  }
+
+  await yieldToEventLoop();
+  if (takeCancel(jobId)) return;
+  post({ type: 'done', jobId, result: engine.finalizeAnalysis(accumulated!) });
+};
+
+ctx.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    cancelledJobs.add(request.jobId);
+    return;
+  }
+  runJob(request).catch(e => {
+    post({ type: 'error', jobId: request.jobId, message: e instanceof Error ? e.message : String(e) });
+  });
+};